@@ -37,3 +37,54 @@ self.addEventListener('fetch', (event) => {
     }).catch(() => caches.match(request))
   );
 });
+
+// Page-requested notifications (rest timer), shown from the worker so they
+// appear while the app is in the background
+self.addEventListener('message', (event) => {
+  const data = event.data || {};
+  if (data.type !== 'NOTIFY') return;
+
+  event.waitUntil(
+    self.registration.showNotification(data.title, {
+      body: data.body,
+      tag: data.tag,
+      renotify: true,
+      icon: '/favicon.svg',
+      vibrate: [200, 100, 200],
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const client = clients[0];
+      if (client) {
+        client.navigate('/tracker').catch(() => {});
+        return client.focus();
+      }
+      return self.clients.openWindow('/tracker');
+    })
+  );
+});
+
+// Background Sync: the outbound sync queue lives in the page's storage, so the
+// worker asks an open tab to flush it. A flush that doesn't empty the queue
+// rejects, and the browser retries the sync later.
+self.addEventListener('sync', (event) => {
+  if (event.tag !== 'fbb-sync-queue') return;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window' }).then((clients) => {
+      // With no tab open the queue is flushed on the next launch
+      if (clients.length === 0) return undefined;
+      return new Promise((resolve, reject) => {
+        const channel = new MessageChannel();
+        channel.port1.onmessage = (message) =>
+          message.data?.ok ? resolve() : reject(new Error('Sync queue not flushed'));
+        clients[0].postMessage({ type: 'FLUSH_SYNC_QUEUE' }, [channel.port2]);
+      });
+    })
+  );
+});
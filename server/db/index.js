@@ -74,6 +74,16 @@ export async function transaction(callback) {
   }
 }
 
+// Run `callback` in the caller's transaction when given its client, else in a new one
+function inTransaction(client, callback) {
+  return client ? callback(client) : transaction(callback);
+}
+
+// Query on the caller's transaction client when given one, else on the pool
+function queryOn(client, text, params) {
+  return client ? client.query(text, params) : query(text, params);
+}
+
 // User operations
 export const userDb = {
   async findByDeviceId(deviceId) {
@@ -96,6 +106,15 @@ export const userDb = {
     }
     return user;
   },
+
+  async updateSettings(userId, settings) {
+    const result = await query(
+      `UPDATE users SET settings = COALESCE(settings, '{}'::jsonb) || $2::jsonb, updated_at = NOW()
+       WHERE id = $1 RETURNING settings`,
+      [userId, JSON.stringify(settings)]
+    );
+    return result.rows[0]?.settings || {};
+  },
 };
 
 // Program operations
@@ -108,21 +127,35 @@ export const programDb = {
             'id', wd.id,
             'name', wd.name,
             'dayOfWeek', wd.day_of_week,
+            'weekNumber', COALESCE(wd.week_number, 1),
+            'dayNumber', COALESCE(wd.day_number, 1),
+            'groups', COALESCE(wd.groups, '[]'::jsonb),
+            'conditioning', COALESCE(wd.conditioning, '[]'::jsonb),
             'notes', wd.notes,
             'exercises', (
               SELECT COALESCE(json_agg(
                 json_build_object(
                   'id', e.id,
+                  'exerciseId', COALESCE(e.exercise_id, ''),
                   'exerciseName', e.exercise_name,
                   'sets', e.sets,
                   'reps', e.reps,
                   'targetWeight', e.target_weight,
+                  'unit', COALESCE(e.unit, 'lb'),
+                  'groupId', e.group_id,
+                  'metric', e.metric,
+                  'targetDuration', e.target_duration,
+                  'targetDistance', e.target_distance,
+                  'targetCalories', e.target_calories,
                   'tempo', e.tempo,
                   'intensity', e.intensity,
                   'rest', e.rest,
+                  'progression', e.progression,
+                  'setType', e.set_type,
+                  'drops', e.drops,
                   'notes', e.notes,
                   'setNumber', e.sets,
-                  'targetReps', CAST(SPLIT_PART(e.reps, '-', 1) AS INTEGER)
+                  'targetReps', CAST(SUBSTRING(e.reps FROM '^[0-9]+') AS INTEGER)
                 ) ORDER BY e.sort_order
               ), '[]'::json)
               FROM exercises e WHERE e.workout_day_id = wd.id
@@ -149,9 +182,10 @@ export const programDb = {
     }));
   },
 
-  async upsert(userId, program) {
-    return transaction(async (client) => {
-      // Upsert program
+  async upsert(userId, program, client = null) {
+    return inTransaction(client, async (client) => {
+      // Upsert program; an existing program's is_active is left to setActive,
+      // so syncing an edit doesn't switch the active program off
       const programResult = await client.query(
         `INSERT INTO programs (id, user_id, name, description, duration, days_per_week, goal, is_active)
          VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
@@ -161,7 +195,6 @@ export const programDb = {
            duration = EXCLUDED.duration,
            days_per_week = EXCLUDED.days_per_week,
            goal = EXCLUDED.goal,
-           is_active = EXCLUDED.is_active,
            updated_at = NOW()
          RETURNING *`,
         [
@@ -186,9 +219,20 @@ export const programDb = {
         for (let i = 0; i < program.workoutDays.length; i++) {
           const day = program.workoutDays[i];
           const dayResult = await client.query(
-            `INSERT INTO workout_days (id, program_id, name, day_of_week, notes, sort_order)
-             VALUES ($1, $2, $3, $4, $5, $6) RETURNING id`,
-            [day.id, programId, day.name, day.dayOfWeek || 0, day.notes || '', i]
+            `INSERT INTO workout_days (id, program_id, name, day_of_week, week_number, day_number, groups, conditioning, notes, sort_order)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10) RETURNING id`,
+            [
+              day.id,
+              programId,
+              day.name,
+              day.dayOfWeek || 0,
+              day.weekNumber || 1,
+              day.dayNumber || i + 1,
+              JSON.stringify(day.groups || []),
+              JSON.stringify(day.conditioning || []),
+              day.notes || '',
+              i,
+            ]
           );
 
           const dayId = dayResult.rows[0].id;
@@ -197,18 +241,29 @@ export const programDb = {
             for (let j = 0; j < day.exercises.length; j++) {
               const ex = day.exercises[j];
               await client.query(
-                `INSERT INTO exercises (id, workout_day_id, exercise_name, sets, reps, target_weight, tempo, intensity, rest, notes, sort_order)
-                 VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+                `INSERT INTO exercises (id, workout_day_id, exercise_id, exercise_name, sets, reps, target_weight, unit, group_id,
+                   metric, target_duration, target_distance, target_calories, tempo, intensity, rest, progression, set_type, drops, notes, sort_order)
+                 VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21)`,
                 [
                   ex.id,
                   dayId,
+                  ex.exerciseId || null,
                   ex.exerciseName,
-                  ex.sets || ex.setNumber || 3,
+                  ex.setNumber || ex.sets || 3,
                   ex.reps || String(ex.targetReps || 10),
                   ex.targetWeight || 0,
+                  ex.unit || 'lb',
+                  ex.groupId || null,
+                  ex.metric || null,
+                  ex.targetDuration || null,
+                  ex.targetDistance || null,
+                  ex.targetCalories || null,
                   ex.tempo || '',
                   ex.intensity || '',
                   ex.rest || '',
+                  ex.progression ? JSON.stringify(ex.progression) : null,
+                  ex.setType || null,
+                  ex.drops || null,
                   ex.notes || '',
                   j,
                 ]
@@ -222,55 +277,89 @@ export const programDb = {
     });
   },
 
-  async delete(userId, programId) {
-    const result = await query(
+  async delete(userId, programId, client = null) {
+    const result = await queryOn(
+      client,
       'DELETE FROM programs WHERE id = $1 AND user_id = $2 RETURNING id',
       [programId, userId]
     );
     return result.rowCount > 0;
   },
 
-  async setActive(userId, programId) {
+  async setActive(userId, programId, startDate = null) {
     await transaction(async (client) => {
       // Deactivate all programs for user
       await client.query('UPDATE programs SET is_active = false WHERE user_id = $1', [userId]);
-      // Activate the specified program
+      // Activate the specified program, keeping its start date unless a new one is given
       if (programId) {
         await client.query(
-          'UPDATE programs SET is_active = true WHERE id = $1 AND user_id = $2',
-          [programId, userId]
+          'UPDATE programs SET is_active = true, start_date = COALESCE($3, start_date) WHERE id = $1 AND user_id = $2',
+          [programId, userId, startDate]
         );
       }
     });
   },
+
+  async findActiveId(userId) {
+    const result = await query('SELECT id FROM programs WHERE user_id = $1 AND is_active = true LIMIT 1', [userId]);
+    return result.rows[0]?.id || null;
+  },
+
+  async findSchedule(userId) {
+    const result = await query(
+      `SELECT id, TO_CHAR(start_date, 'YYYY-MM-DD') AS start_date
+       FROM programs WHERE user_id = $1 AND is_active = true AND start_date IS NOT NULL
+       LIMIT 1`,
+      [userId]
+    );
+    const row = result.rows[0];
+    return row ? { programId: row.id, startDate: row.start_date } : null;
+  },
 };
 
 // Workout log operations
 export const workoutDb = {
-  async findByUserId(userId, limit = 100) {
+  async findByUserId(userId, limit = 100, offset = 0) {
     const result = await query(
       `SELECT wl.*,
         (SELECT COALESCE(json_agg(
           json_build_object(
             'id', ws.id,
-            'exerciseId', ws.exercise_id,
+            'exerciseId', COALESCE(ws.exercise_id, ''),
             'exerciseName', ws.exercise_name,
             'setNumber', ws.set_number,
             'targetReps', ws.target_reps,
             'targetWeight', ws.target_weight,
             'actualReps', ws.actual_reps,
             'actualWeight', ws.actual_weight,
+            'unit', COALESCE(ws.unit, 'lb'),
+            'groupId', ws.group_id,
+            'metric', ws.metric,
+            'targetDuration', ws.target_duration,
+            'actualDuration', ws.actual_duration,
+            'targetDistance', ws.target_distance,
+            'actualDistance', ws.actual_distance,
+            'targetCalories', ws.target_calories,
+            'actualCalories', ws.actual_calories,
             'rpe', ws.rpe,
             'completed', ws.completed,
+            'isPR', ws.is_pr,
+            'adjustmentReason', ws.adjustment_reason,
+            'timeUnderTension', ws.time_under_tension,
+            'setType', ws.set_type,
+            'parentSetId', ws.parent_set_id,
+            'segments', ws.segments,
+            'completedAt', ws.completed_at,
+            'swappedFrom', ws.swapped_from,
             'notes', ws.notes
           ) ORDER BY ws.sort_order
         ), '[]'::json)
         FROM workout_sets ws WHERE ws.workout_log_id = wl.id) as sets
       FROM workout_logs wl
       WHERE wl.user_id = $1
-      ORDER BY wl.date DESC
-      LIMIT $2`,
-      [userId, limit]
+      ORDER BY wl.date DESC, wl.id
+      LIMIT $2 OFFSET $3`,
+      [userId, limit, offset]
     );
     return result.rows.map(row => ({
       id: row.id,
@@ -281,19 +370,34 @@ export const workoutDb = {
       notes: row.notes,
       rating: row.rating,
       completed: row.completed,
+      groups: row.groups || [],
+      conditioning: row.conditioning || [],
+      personalRecords: row.personal_records || [],
+      intervals: row.intervals || undefined,
       sets: row.sets || [],
     }));
   },
 
-  async upsert(userId, workout) {
-    return transaction(async (client) => {
+  async upsert(userId, workout, client = null) {
+    return inTransaction(client, async (client) => {
+      // A program or day deleted on another device is dropped from the log rather than failing the save
       const workoutResult = await client.query(
-        `INSERT INTO workout_logs (id, user_id, program_id, workout_day_id, date, duration, notes, rating, completed)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+        `INSERT INTO workout_logs (id, user_id, program_id, workout_day_id, date, duration, notes, rating, groups, conditioning, personal_records, intervals, completed)
+         VALUES (
+           $1, $2,
+           (SELECT id FROM programs WHERE id = $3 AND user_id = $2),
+           (SELECT wd.id FROM workout_days wd JOIN programs p ON p.id = wd.program_id WHERE wd.id = $4 AND p.user_id = $2),
+           $5, $6, $7, $8, $9, $10, $11, $12, $13
+         )
          ON CONFLICT (id) DO UPDATE SET
+           date = EXCLUDED.date,
            duration = EXCLUDED.duration,
+           intervals = EXCLUDED.intervals,
            notes = EXCLUDED.notes,
            rating = EXCLUDED.rating,
+           groups = EXCLUDED.groups,
+           conditioning = EXCLUDED.conditioning,
+           personal_records = EXCLUDED.personal_records,
            completed = EXCLUDED.completed
          RETURNING *`,
         [
@@ -305,6 +409,10 @@ export const workoutDb = {
           workout.duration || 0,
           workout.notes || '',
           workout.rating || null,
+          JSON.stringify(workout.groups || []),
+          JSON.stringify(workout.conditioning || []),
+          JSON.stringify(workout.personalRecords || []),
+          workout.intervals ? JSON.stringify(workout.intervals) : null,
           workout.completed || false,
         ]
       );
@@ -319,8 +427,9 @@ export const workoutDb = {
         for (let i = 0; i < workout.sets.length; i++) {
           const set = workout.sets[i];
           await client.query(
-            `INSERT INTO workout_sets (id, workout_log_id, exercise_id, exercise_name, set_number, target_reps, target_weight, actual_reps, actual_weight, rpe, completed, notes, sort_order)
-             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)`,
+            `INSERT INTO workout_sets (id, workout_log_id, exercise_id, exercise_name, set_number, target_reps, target_weight, actual_reps, actual_weight, unit, group_id,
+               metric, target_duration, actual_duration, target_distance, actual_distance, target_calories, actual_calories, rpe, completed, is_pr, adjustment_reason, time_under_tension, set_type, parent_set_id, segments, completed_at, swapped_from, notes, sort_order)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, $25, $26, $27, $28, $29, $30)`,
             [
               set.id,
               workoutId,
@@ -331,8 +440,25 @@ export const workoutDb = {
               set.targetWeight || 0,
               set.actualReps || null,
               set.actualWeight || null,
+              set.unit || 'lb',
+              set.groupId || null,
+              set.metric || null,
+              set.targetDuration || null,
+              set.actualDuration || null,
+              set.targetDistance || null,
+              set.actualDistance || null,
+              set.targetCalories || null,
+              set.actualCalories || null,
               set.rpe || null,
               set.completed || false,
+              set.isPR || false,
+              set.adjustmentReason || null,
+              set.timeUnderTension || null,
+              set.setType || null,
+              set.parentSetId || null,
+              set.segments ? JSON.stringify(set.segments) : null,
+              set.completedAt || null,
+              set.swappedFrom ? JSON.stringify(set.swappedFrom) : null,
               set.notes || '',
               i,
             ]
@@ -344,8 +470,9 @@ export const workoutDb = {
     });
   },
 
-  async delete(userId, workoutId) {
-    const result = await query(
+  async delete(userId, workoutId, client = null) {
+    const result = await queryOn(
+      client,
       'DELETE FROM workout_logs WHERE id = $1 AND user_id = $2 RETURNING id',
       [workoutId, userId]
     );
@@ -353,6 +480,234 @@ export const workoutDb = {
   },
 };
 
+// Exercise library operations
+export const exerciseDb = {
+  async findByUserId(userId) {
+    const result = await query(
+      'SELECT * FROM exercise_library WHERE user_id = $1 ORDER BY muscle_group, name',
+      [userId]
+    );
+    return result.rows.map(row => ({
+      id: row.id,
+      name: row.name,
+      aliases: row.aliases || [],
+      muscleGroup: row.muscle_group,
+      equipment: row.equipment,
+      movementPattern: row.movement_pattern,
+      metric: row.metric || undefined,
+      trainingMax: row.training_max || undefined,
+      isCustom: row.is_custom,
+      description: row.description || undefined,
+      videoUrl: row.video_url || undefined,
+      updatedAt: row.updated_at,
+    }));
+  },
+
+  async upsert(userId, exercise, client = null) {
+    const result = await queryOn(
+      client,
+      `INSERT INTO exercise_library (id, user_id, name, aliases, muscle_group, equipment, movement_pattern, metric, training_max, is_custom, description, video_url)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+       ON CONFLICT (user_id, id) DO UPDATE SET
+         name = EXCLUDED.name,
+         aliases = EXCLUDED.aliases,
+         muscle_group = EXCLUDED.muscle_group,
+         equipment = EXCLUDED.equipment,
+         movement_pattern = EXCLUDED.movement_pattern,
+         metric = EXCLUDED.metric,
+         training_max = EXCLUDED.training_max,
+         is_custom = EXCLUDED.is_custom,
+         description = EXCLUDED.description,
+         video_url = EXCLUDED.video_url
+       RETURNING *`,
+      [
+        exercise.id,
+        userId,
+        exercise.name,
+        JSON.stringify(exercise.aliases || []),
+        exercise.muscleGroup || 'Other',
+        exercise.equipment || 'Other',
+        exercise.movementPattern || 'other',
+        exercise.metric || null,
+        exercise.trainingMax ? JSON.stringify(exercise.trainingMax) : null,
+        exercise.isCustom || false,
+        exercise.description || null,
+        exercise.videoUrl || null,
+      ]
+    );
+    return result.rows[0];
+  },
+
+  async delete(userId, exerciseId, client = null) {
+    const result = await queryOn(
+      client,
+      'DELETE FROM exercise_library WHERE id = $1 AND user_id = $2 RETURNING id',
+      [exerciseId, userId]
+    );
+    return result.rowCount > 0;
+  },
+};
+
+// In-progress workout drafts
+export const draftDb = {
+  async findByUserId(userId) {
+    const result = await query('SELECT * FROM workout_drafts WHERE user_id = $1', [userId]);
+    const row = result.rows[0];
+    return row
+      ? { workout: row.workout, clientId: row.client_id, updatedAt: row.updated_at }
+      : null;
+  },
+
+  async upsert(userId, workout, clientId) {
+    await query(
+      `INSERT INTO workout_drafts (user_id, workout_id, workout, client_id, updated_at)
+       VALUES ($1, $2, $3, $4, NOW())
+       ON CONFLICT (user_id) DO UPDATE SET
+         workout_id = EXCLUDED.workout_id,
+         workout = EXCLUDED.workout,
+         client_id = EXCLUDED.client_id,
+         updated_at = NOW()`,
+      [userId, workout.id, JSON.stringify(workout), clientId || null]
+    );
+  },
+
+  // Only clears the draft of this workout, so finishing an old session can't drop a newer one
+  async delete(userId, workoutId) {
+    const result = await query(
+      'DELETE FROM workout_drafts WHERE user_id = $1 AND workout_id = $2 RETURNING user_id',
+      [userId, workoutId]
+    );
+    return result.rowCount > 0;
+  },
+};
+
+// Change log sync operations
+const syncedEntities = {
+  program: programDb,
+  workout: workoutDb,
+  exercise: exerciseDb,
+};
+
+// Older than any clock a client issues, for data saved before the change log existed
+const BACKFILL_HLC = '000000000000000-00000-server';
+
+// Workout logs read per query while backfilling
+const BACKFILL_PAGE_SIZE = 500;
+
+function toChange(row) {
+  return {
+    seq: Number(row.seq),
+    entityType: row.entity_type,
+    entityId: row.entity_id,
+    op: row.op,
+    hlc: row.hlc,
+    clientId: row.client_id || undefined,
+    data: row.data || undefined,
+  };
+}
+
+export const syncDb = {
+  isEntityType(type) {
+    return Object.prototype.hasOwnProperty.call(syncedEntities, type);
+  },
+
+  async findChanges(userId, since, limit) {
+    const result = await query(
+      'SELECT * FROM sync_changes WHERE user_id = $1 AND seq > $2 ORDER BY seq LIMIT $3',
+      [userId, since, limit]
+    );
+    return result.rows.map(toChange);
+  },
+
+  /**
+   * Seed the log with data saved before change-based sync, so a first pull
+   * gets everything. The marker row makes this a one-time step: a concurrent
+   * backfill waits on it and then finds it taken.
+   */
+  async backfill(userId) {
+    await transaction(async (client) => {
+      const marked = await client.query(
+        'INSERT INTO sync_backfills (user_id) VALUES ($1) ON CONFLICT DO NOTHING',
+        [userId]
+      );
+      if (marked.rowCount === 0) return;
+
+      const logEntity = async (type, data) => {
+        await client.query(
+          `INSERT INTO sync_entities (user_id, entity_type, entity_id, hlc)
+           VALUES ($1, $2, $3, $4) ON CONFLICT DO NOTHING`,
+          [userId, type, data.id, BACKFILL_HLC]
+        );
+        await client.query(
+          `INSERT INTO sync_changes (user_id, entity_type, entity_id, op, hlc, data)
+           VALUES ($1, $2, $3, 'upsert', $4, $5)`,
+          [userId, type, data.id, BACKFILL_HLC, JSON.stringify(data)]
+        );
+      };
+
+      for (const data of await exerciseDb.findByUserId(userId)) {
+        await logEntity('exercise', data);
+      }
+      for (const { isActive: _isActive, ...data } of await programDb.findByUserId(userId)) {
+        await logEntity('program', data);
+      }
+      for (let offset = 0; ; offset += BACKFILL_PAGE_SIZE) {
+        const workouts = await workoutDb.findByUserId(userId, BACKFILL_PAGE_SIZE, offset);
+        for (const data of workouts) {
+          await logEntity('workout', data);
+        }
+        if (workouts.length < BACKFILL_PAGE_SIZE) break;
+      }
+    });
+  },
+
+  /**
+   * Apply a pushed change if it's newer than the server's version of the
+   * entity (tombstones included). Returns the logged change, or null when a
+   * newer change already won.
+   */
+  async apply(userId, change, clientId) {
+    return transaction(async (client) => {
+      // The claim is the HLC check, and its row lock holds off other changes to
+      // the entity until this one commits, so a change that loses leaves
+      // neither its data nor a log entry behind
+      const claimed = await client.query(
+        `INSERT INTO sync_entities (user_id, entity_type, entity_id, hlc, deleted)
+         VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT (user_id, entity_type, entity_id) DO UPDATE SET
+           hlc = EXCLUDED.hlc,
+           deleted = EXCLUDED.deleted
+         WHERE sync_entities.hlc < EXCLUDED.hlc`,
+        [userId, change.entityType, change.entityId, change.hlc, change.op === 'delete']
+      );
+      if (claimed.rowCount === 0) return null;
+
+      const entities = syncedEntities[change.entityType];
+      if (change.op === 'delete') {
+        await entities.delete(userId, change.entityId, client);
+      } else {
+        await entities.upsert(userId, change.data, client);
+      }
+
+      const result = await client.query(
+        `INSERT INTO sync_changes (user_id, entity_type, entity_id, op, hlc, client_id, data)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         RETURNING *`,
+        [
+          userId,
+          change.entityType,
+          change.entityId,
+          change.op,
+          change.hlc,
+          clientId || null,
+          change.op === 'upsert' ? JSON.stringify(change.data) : null,
+        ]
+      );
+      return toChange(result.rows[0]);
+    });
+  },
+};
+
 // Chat history operations
 export const chatDb = {
   async findByUserId(userId, limit = 50) {
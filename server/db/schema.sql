@@ -7,6 +7,7 @@ CREATE TABLE IF NOT EXISTS users (
     device_id VARCHAR(255) UNIQUE,
     email VARCHAR(255) UNIQUE,
     pin_hash VARCHAR(255),
+    settings JSONB DEFAULT '{}',
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -21,6 +22,7 @@ CREATE TABLE IF NOT EXISTS programs (
     days_per_week INTEGER DEFAULT 4,
     goal VARCHAR(50) DEFAULT 'hypertrophy',
     is_active BOOLEAN DEFAULT FALSE,
+    start_date DATE,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -31,22 +33,55 @@ CREATE TABLE IF NOT EXISTS workout_days (
     program_id UUID NOT NULL REFERENCES programs(id) ON DELETE CASCADE,
     name VARCHAR(255) NOT NULL,
     day_of_week INTEGER DEFAULT 0,
+    week_number INTEGER DEFAULT 1,
+    day_number INTEGER DEFAULT 1,
+    groups JSONB DEFAULT '[]',
+    conditioning JSONB DEFAULT '[]',
     sort_order INTEGER DEFAULT 0,
     notes TEXT,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Exercise library (per-user catalog; built-ins use slug IDs, custom entries use UUIDs)
+CREATE TABLE IF NOT EXISTS exercise_library (
+    id VARCHAR(100) NOT NULL,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    aliases JSONB DEFAULT '[]',
+    muscle_group VARCHAR(50),
+    equipment VARCHAR(50),
+    movement_pattern VARCHAR(50),
+    metric VARCHAR(20),
+    training_max JSONB,
+    is_custom BOOLEAN DEFAULT FALSE,
+    description TEXT,
+    video_url TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (user_id, id)
+);
+
 -- Exercises within workout days (template exercises)
 CREATE TABLE IF NOT EXISTS exercises (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
     workout_day_id UUID NOT NULL REFERENCES workout_days(id) ON DELETE CASCADE,
+    exercise_id VARCHAR(100),
     exercise_name VARCHAR(255) NOT NULL,
     sets INTEGER DEFAULT 3,
     reps VARCHAR(50) DEFAULT '10',
     target_weight DECIMAL(10,2) DEFAULT 0,
+    unit VARCHAR(2) DEFAULT 'lb',
+    group_id VARCHAR(100),
+    metric VARCHAR(20),
+    target_duration INTEGER,
+    target_distance INTEGER,
+    target_calories INTEGER,
     tempo VARCHAR(20),
     intensity VARCHAR(50),
     rest VARCHAR(50),
+    progression JSONB,
+    set_type VARCHAR(20),
+    drops INTEGER,
     notes TEXT,
     sort_order INTEGER DEFAULT 0,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
@@ -62,6 +97,10 @@ CREATE TABLE IF NOT EXISTS workout_logs (
     duration INTEGER DEFAULT 0,
     notes TEXT,
     rating INTEGER CHECK (rating >= 1 AND rating <= 5),
+    groups JSONB DEFAULT '[]',
+    conditioning JSONB DEFAULT '[]',
+    personal_records JSONB DEFAULT '[]',
+    intervals JSONB,
     completed BOOLEAN DEFAULT FALSE,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -70,15 +109,32 @@ CREATE TABLE IF NOT EXISTS workout_logs (
 CREATE TABLE IF NOT EXISTS workout_sets (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
     workout_log_id UUID NOT NULL REFERENCES workout_logs(id) ON DELETE CASCADE,
-    exercise_id UUID REFERENCES exercises(id) ON DELETE SET NULL,
+    exercise_id VARCHAR(100),
     exercise_name VARCHAR(255) NOT NULL,
     set_number INTEGER DEFAULT 1,
     target_reps INTEGER DEFAULT 10,
     target_weight DECIMAL(10,2) DEFAULT 0,
     actual_reps INTEGER,
     actual_weight DECIMAL(10,2),
+    unit VARCHAR(2) DEFAULT 'lb',
+    group_id VARCHAR(100),
+    metric VARCHAR(20),
+    target_duration INTEGER,
+    actual_duration INTEGER,
+    target_distance INTEGER,
+    actual_distance INTEGER,
+    target_calories INTEGER,
+    actual_calories INTEGER,
     rpe DECIMAL(3,1),
     completed BOOLEAN DEFAULT FALSE,
+    is_pr BOOLEAN DEFAULT FALSE,
+    adjustment_reason TEXT,
+    time_under_tension INTEGER,
+    set_type VARCHAR(20),
+    parent_set_id UUID,
+    segments JSONB,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    swapped_from JSONB,
     notes TEXT,
     sort_order INTEGER DEFAULT 0,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
@@ -93,14 +149,100 @@ CREATE TABLE IF NOT EXISTS chat_messages (
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- In-progress workout, autosaved from the tracker (one per user) until it's finished
+CREATE TABLE IF NOT EXISTS workout_drafts (
+    user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    workout_id UUID NOT NULL,
+    workout JSONB NOT NULL,
+    client_id VARCHAR(255),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Change log for incremental sync: every create, update and delete of a
+-- program, workout or library exercise, in the order the server accepted them
+CREATE TABLE IF NOT EXISTS sync_changes (
+    seq BIGSERIAL PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    entity_type VARCHAR(20) NOT NULL,
+    entity_id VARCHAR(100) NOT NULL,
+    op VARCHAR(10) NOT NULL CHECK (op IN ('upsert', 'delete')),
+    hlc VARCHAR(64) NOT NULL,
+    client_id VARCHAR(255),
+    data JSONB,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Latest version of every synced entity; deleted ones stay as tombstones so an
+-- older copy pushed later can't bring them back
+CREATE TABLE IF NOT EXISTS sync_entities (
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    entity_type VARCHAR(20) NOT NULL,
+    entity_id VARCHAR(100) NOT NULL,
+    hlc VARCHAR(64) NOT NULL,
+    deleted BOOLEAN DEFAULT FALSE,
+    PRIMARY KEY (user_id, entity_type, entity_id)
+);
+
+-- Users whose data from before the change log has been copied into it
+CREATE TABLE IF NOT EXISTS sync_backfills (
+    user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Migrations for databases created before the columns above existed
+ALTER TABLE exercises ADD COLUMN IF NOT EXISTS exercise_id VARCHAR(100);
+-- workout_sets.exercise_id used to reference program exercises; it now holds an exercise library ID
+ALTER TABLE workout_sets DROP CONSTRAINT IF EXISTS workout_sets_exercise_id_fkey;
+ALTER TABLE workout_sets ALTER COLUMN exercise_id TYPE VARCHAR(100);
+ALTER TABLE users ADD COLUMN IF NOT EXISTS settings JSONB DEFAULT '{}';
+ALTER TABLE exercises ADD COLUMN IF NOT EXISTS unit VARCHAR(2) DEFAULT 'lb';
+ALTER TABLE workout_sets ADD COLUMN IF NOT EXISTS unit VARCHAR(2) DEFAULT 'lb';
+ALTER TABLE workout_days ADD COLUMN IF NOT EXISTS week_number INTEGER DEFAULT 1;
+ALTER TABLE workout_days ADD COLUMN IF NOT EXISTS day_number INTEGER DEFAULT 1;
+ALTER TABLE programs ADD COLUMN IF NOT EXISTS start_date DATE;
+ALTER TABLE workout_days ADD COLUMN IF NOT EXISTS groups JSONB DEFAULT '[]';
+ALTER TABLE exercises ADD COLUMN IF NOT EXISTS group_id VARCHAR(100);
+ALTER TABLE workout_logs ADD COLUMN IF NOT EXISTS groups JSONB DEFAULT '[]';
+ALTER TABLE workout_sets ADD COLUMN IF NOT EXISTS group_id VARCHAR(100);
+ALTER TABLE workout_days ADD COLUMN IF NOT EXISTS conditioning JSONB DEFAULT '[]';
+ALTER TABLE workout_logs ADD COLUMN IF NOT EXISTS conditioning JSONB DEFAULT '[]';
+ALTER TABLE exercise_library ADD COLUMN IF NOT EXISTS metric VARCHAR(20);
+ALTER TABLE exercises ADD COLUMN IF NOT EXISTS metric VARCHAR(20);
+ALTER TABLE exercises ADD COLUMN IF NOT EXISTS target_duration INTEGER;
+ALTER TABLE exercises ADD COLUMN IF NOT EXISTS target_distance INTEGER;
+ALTER TABLE exercises ADD COLUMN IF NOT EXISTS target_calories INTEGER;
+ALTER TABLE workout_sets ADD COLUMN IF NOT EXISTS metric VARCHAR(20);
+ALTER TABLE workout_sets ADD COLUMN IF NOT EXISTS target_duration INTEGER;
+ALTER TABLE workout_sets ADD COLUMN IF NOT EXISTS actual_duration INTEGER;
+ALTER TABLE workout_sets ADD COLUMN IF NOT EXISTS target_distance INTEGER;
+ALTER TABLE workout_sets ADD COLUMN IF NOT EXISTS actual_distance INTEGER;
+ALTER TABLE workout_sets ADD COLUMN IF NOT EXISTS target_calories INTEGER;
+ALTER TABLE workout_sets ADD COLUMN IF NOT EXISTS actual_calories INTEGER;
+ALTER TABLE workout_logs ADD COLUMN IF NOT EXISTS personal_records JSONB DEFAULT '[]';
+ALTER TABLE workout_sets ADD COLUMN IF NOT EXISTS is_pr BOOLEAN DEFAULT FALSE;
+ALTER TABLE exercises ADD COLUMN IF NOT EXISTS progression JSONB;
+ALTER TABLE exercise_library ADD COLUMN IF NOT EXISTS training_max JSONB;
+ALTER TABLE workout_sets ADD COLUMN IF NOT EXISTS adjustment_reason TEXT;
+ALTER TABLE workout_sets ADD COLUMN IF NOT EXISTS time_under_tension INTEGER;
+ALTER TABLE workout_sets ADD COLUMN IF NOT EXISTS set_type VARCHAR(20);
+ALTER TABLE workout_sets ADD COLUMN IF NOT EXISTS parent_set_id UUID;
+ALTER TABLE workout_sets ADD COLUMN IF NOT EXISTS segments JSONB;
+ALTER TABLE exercises ADD COLUMN IF NOT EXISTS set_type VARCHAR(20);
+ALTER TABLE exercises ADD COLUMN IF NOT EXISTS drops INTEGER;
+ALTER TABLE workout_logs ADD COLUMN IF NOT EXISTS intervals JSONB;
+ALTER TABLE workout_sets ADD COLUMN IF NOT EXISTS completed_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE workout_sets ADD COLUMN IF NOT EXISTS swapped_from JSONB;
+
 -- Indexes for better query performance
 CREATE INDEX IF NOT EXISTS idx_programs_user_id ON programs(user_id);
 CREATE INDEX IF NOT EXISTS idx_workout_days_program_id ON workout_days(program_id);
 CREATE INDEX IF NOT EXISTS idx_exercises_workout_day_id ON exercises(workout_day_id);
+CREATE INDEX IF NOT EXISTS idx_workout_sets_exercise_id ON workout_sets(exercise_id);
 CREATE INDEX IF NOT EXISTS idx_workout_logs_user_id ON workout_logs(user_id);
 CREATE INDEX IF NOT EXISTS idx_workout_logs_date ON workout_logs(date);
 CREATE INDEX IF NOT EXISTS idx_workout_sets_workout_log_id ON workout_sets(workout_log_id);
 CREATE INDEX IF NOT EXISTS idx_chat_messages_user_id ON chat_messages(user_id);
+CREATE INDEX IF NOT EXISTS idx_sync_changes_user_seq ON sync_changes(user_id, seq);
 
 -- Function to update updated_at timestamp
 CREATE OR REPLACE FUNCTION update_updated_at_column()
@@ -123,3 +265,9 @@ CREATE TRIGGER update_programs_updated_at
     BEFORE UPDATE ON programs
     FOR EACH ROW
     EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_exercise_library_updated_at ON exercise_library;
+CREATE TRIGGER update_exercise_library_updated_at
+    BEFORE UPDATE ON exercise_library
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
@@ -312,6 +312,14 @@ app.post('/api/chat', async (req, res) => {
 - Current workout streak: ${context.stats?.currentStreak || 0} days
 - Weekly workouts: ${context.stats?.weeklyWorkouts || 0}
 ${context.activeProgram ? `- Active program: ${context.activeProgram}` : ''}`;
+
+      const records = context.stats?.personalRecords || [];
+      if (records.length > 0) {
+        contextMessage += '\n\nRecent personal records:';
+        for (const pr of records) {
+          contextMessage += `\n- ${pr.exerciseName} ${pr.record}: ${pr.value} (${pr.date})`;
+        }
+      }
     }
 
     if (relevantKnowledge) {
@@ -366,7 +374,9 @@ app.post('/api/search', async (req, res) => {
 // --- Generate program endpoint ---
 app.post('/api/generate-program', async (req, res) => {
   try {
-    const { goal, daysPerWeek, experienceLevel, equipment, trainingStyle, injuries } = req.body;
+    const { goal, daysPerWeek, experienceLevel, equipment, trainingStyle, injuries, exerciseNames, unit, weeks } = req.body;
+    const weightUnit = unit === 'kg' ? 'kg' : 'lb';
+    const weekCount = Math.min(Math.max(parseInt(weeks) || 1, 1), 12);
 
     if (!goal || !daysPerWeek || !experienceLevel) {
       return res.status(400).json({ error: 'Missing required fields: goal, daysPerWeek, experienceLevel' });
@@ -399,12 +409,18 @@ app.post('/api/generate-program', async (req, res) => {
       knowledgeContext = `\n\nRelevant programming knowledge:\n${relevantKnowledge}`;
     }
 
-    const prompt = `Create a ${daysPerWeek}-day workout program for someone with ${experienceLevel} experience level, focusing on ${goal}.
+    let libraryContext = '';
+    if (Array.isArray(exerciseNames) && exerciseNames.length > 0) {
+      libraryContext = `\n\nExercise library (use these exact names when an exercise fits; new names are allowed when none does):\n${exerciseNames.slice(0, 300).map(String).join(', ')}`;
+    }
+
+    const prompt = `Create a ${weekCount}-week workout program with ${daysPerWeek} training days per week for someone with ${experienceLevel} experience level, focusing on ${goal}.
 Training style: ${trainingStyle || 'Functional Bodybuilding'}.
 Available equipment: ${(equipment || []).join(', ') || 'Full gym'}.
 ${injuries ? `Injuries/limitations: ${injuries}` : ''}
 ${userContext}
 ${knowledgeContext}
+${libraryContext}
 
 Return the program as a JSON object with this EXACT structure:
 {
@@ -414,22 +430,61 @@ Return the program as a JSON object with this EXACT structure:
     "goal": "${goal}",
     "style": "${trainingStyle || 'Functional Bodybuilding'}",
     "level": "${experienceLevel}",
-    "cycleLength": "e.g. 4-Week Mesocycle",
+    "cycleLength": "${weekCount}-Week Mesocycle",
     "frequency": "${daysPerWeek} Days/Week"
   },
   "workoutDays": [
     {
       "name": "Day 1 - Descriptive Name",
+      "weekNumber": 1,
       "dayOfWeek": 1,
+      "groups": [
+        { "label": "B", "type": "superset", "rounds": 3, "rest": "90 sec" }
+      ],
       "exercises": [
         {
           "exerciseName": "Precise Exercise Name",
           "sets": 4,
           "reps": "6-8",
+          "targetWeight": 0,
           "tempo": "31X1",
           "intensity": "2 RIR",
           "rest": "2-3 min",
           "notes": "Technical cues or scaling options"
+        },
+        {
+          "exerciseName": "First Paired Exercise",
+          "group": "B",
+          "sets": 3,
+          "reps": "10-12",
+          "targetWeight": 0,
+          "tempo": "3010",
+          "intensity": "2 RIR",
+          "rest": "0 sec",
+          "notes": "Go straight into B2"
+        },
+        {
+          "exerciseName": "Second Paired Exercise",
+          "group": "B",
+          "sets": 3,
+          "reps": "12-15",
+          "targetWeight": 0,
+          "tempo": "2011",
+          "intensity": "2 RIR",
+          "rest": "0 sec",
+          "notes": "Rest after the round"
+        }
+      ],
+      "conditioning": [
+        {
+          "name": "Finisher",
+          "format": "amrap",
+          "timeCap": 600,
+          "movements": [
+            { "exerciseName": "Wall Ball", "reps": 15, "weight": 20 },
+            { "exerciseName": "Row", "calories": 12 }
+          ],
+          "notes": "Steady pace, unbroken wall balls"
         }
       ]
     }
@@ -438,9 +493,13 @@ Return the program as a JSON object with this EXACT structure:
 
 IMPORTANT:
 - Every exercise MUST include tempo (4-digit: Eccentric-Bottom-Concentric-Top, e.g. 31X1, 4010, 20X0), intensity (RIR or %), rest period, and notes.
+- workoutDays must contain all ${daysPerWeek} days for EACH of weeks 1-${weekCount} (${daysPerWeek * weekCount} days total), with weekNumber set on every day.
+- Keep the same exercise selection across weeks but progress the prescriptions week to week (reps, sets, intensity)${weekCount >= 4 ? ', and make the final week a deload' : ''}.
+- Pair exercises (A1/A2 supersets, giant sets of 3+, or circuits) by listing them consecutively with the same "group" label and describing the group in the day's "groups" array (type: "superset", "giant-set" or "circuit"; rounds = sets per exercise; rest = rest after each round). Omit "group" for straight sets and use "groups": [] when a day has none.
 - Use rep ranges as strings (e.g. "6-8", "10-12", "8-10 per leg").
+- All target weights are in ${weightUnit}. Use 0 for bodyweight exercises or when the load should be chosen from the intensity.
 - Include warm-up cues in the first exercise notes of each day.
-- For conditioning exercises, use appropriate formats in notes (e.g. "AMRAP 12 min", "EMOM 10 min").`;
+- Program conditioning as blocks in the day's "conditioning" array, not as exercises: format is "amrap", "emom", "for-time" or "intervals"; timeCap is in seconds (total length for EMOM, cap for For Time); interval is seconds per EMOM minute or per work interval; rest is seconds of rest between intervals; rounds applies to For Time and intervals. Each movement gives reps, calories or distance (meters). Use "conditioning": [] when a day has none.`;
 
     const completion = await openai.chat.completions.create({
       model: 'gpt-4o-mini',
@@ -451,7 +510,7 @@ IMPORTANT:
         },
         { role: 'user', content: prompt },
       ],
-      max_tokens: 4000,
+      max_tokens: Math.min(16000, 4000 * weekCount),
       temperature: 0.7,
       response_format: { type: 'json_object' },
     });
@@ -461,23 +520,66 @@ IMPORTANT:
 
     // Normalize exercises to maintain backward compatibility
     if (program.workoutDays) {
-      program.workoutDays = program.workoutDays.map(day => ({
-        ...day,
-        exercises: (day.exercises || []).map(ex => ({
-          ...ex,
-          // Ensure backward-compatible fields exist
-          setNumber: ex.setNumber || ex.sets || 3,
-          targetReps: ex.targetReps || parseInt(String(ex.reps)) || 10,
-          targetWeight: ex.targetWeight || 0,
-          // Preserve new fields
-          sets: ex.sets || ex.setNumber || 3,
-          reps: ex.reps || String(ex.targetReps || 10),
-          tempo: ex.tempo || '',
-          intensity: ex.intensity || '',
-          rest: ex.rest || '',
-          notes: ex.notes || '',
-        })),
-      }));
+      const dayCountByWeek = {};
+      program.workoutDays = program.workoutDays.map(day => {
+        const weekNumber = Math.min(Math.max(parseInt(day.weekNumber) || 1, 1), weekCount);
+        dayCountByWeek[weekNumber] = (dayCountByWeek[weekNumber] || 0) + 1;
+        // Keep only groups that exercises actually reference
+        const groups = (Array.isArray(day.groups) ? day.groups : [])
+          .map(group => ({
+            label: String(group.label || '').toUpperCase(),
+            type: ['superset', 'giant-set', 'circuit'].includes(group.type) ? group.type : 'superset',
+            rounds: parseInt(group.rounds) || 3,
+            rest: group.rest || '',
+          }))
+          .filter(group => group.label && (day.exercises || []).filter(ex => String(ex.group || '').toUpperCase() === group.label).length >= 2);
+        return {
+          ...day,
+          weekNumber,
+          dayNumber: dayCountByWeek[weekNumber],
+          groups,
+          conditioning: (Array.isArray(day.conditioning) ? day.conditioning : [])
+            .filter(block => ['amrap', 'emom', 'for-time', 'intervals'].includes(block.format))
+            .map(block => ({
+              name: block.name || '',
+              format: block.format,
+              timeCap: parseInt(block.timeCap) || 0,
+              interval: parseInt(block.interval) || undefined,
+              rest: parseInt(block.rest) || undefined,
+              rounds: parseInt(block.rounds) || undefined,
+              notes: block.notes || '',
+              movements: (Array.isArray(block.movements) ? block.movements : [])
+                .filter(m => m.exerciseName)
+                .map(m => ({
+                  exerciseName: m.exerciseName,
+                  reps: parseInt(m.reps) || undefined,
+                  calories: parseInt(m.calories) || undefined,
+                  distance: parseInt(m.distance) || undefined,
+                  weight: parseFloat(m.weight) || undefined,
+                  unit: weightUnit,
+                })),
+            })),
+          exercises: (day.exercises || []).map(ex => {
+            const group = groups.find(g => g.label === String(ex.group || '').toUpperCase());
+            return {
+              ...ex,
+              group: group ? group.label : undefined,
+              // Ensure backward-compatible fields exist
+              setNumber: group ? group.rounds : ex.setNumber || ex.sets || 3,
+              targetReps: ex.targetReps || parseInt(String(ex.reps)) || 10,
+              targetWeight: ex.targetWeight || 0,
+              unit: weightUnit,
+              // Preserve new fields
+              sets: group ? group.rounds : ex.sets || ex.setNumber || 3,
+              reps: ex.reps || String(ex.targetReps || 10),
+              tempo: ex.tempo || '',
+              intensity: ex.intensity || '',
+              rest: ex.rest || '',
+              notes: ex.notes || '',
+            };
+          }),
+        };
+      });
     }
 
     res.json({ program });
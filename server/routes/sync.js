@@ -1,5 +1,5 @@
 import express from 'express';
-import { userDb, programDb, workoutDb, chatDb } from '../db/index.js';
+import { userDb, programDb, workoutDb, exerciseDb, draftDb, syncDb, chatDb } from '../db/index.js';
 
 const router = express.Router();
 
@@ -31,77 +31,59 @@ router.get('/user', (req, res) => {
   res.json({ user: { id: req.user.id, deviceId: req.user.device_id } });
 });
 
-// ============ PROGRAMS ============
-
-// Get all programs for user
-router.get('/programs', async (req, res) => {
+// Save user settings (merged into the stored settings)
+router.post('/settings', async (req, res) => {
   try {
-    const programs = await programDb.findByUserId(req.user.id);
-    res.json({ programs });
-  } catch (error) {
-    console.error('Get programs error:', error);
-    res.status(500).json({ error: 'Failed to fetch programs' });
-  }
-});
+    const { settings } = req.body;
 
-// Save/update a program
-router.post('/programs', async (req, res) => {
-  try {
-    const { program } = req.body;
-    
-    if (!program || !program.id || !program.name) {
-      return res.status(400).json({ error: 'Invalid program data' });
+    if (!settings || typeof settings !== 'object' || Array.isArray(settings)) {
+      return res.status(400).json({ error: 'Invalid settings data' });
     }
 
-    await programDb.upsert(req.user.id, program);
-    res.json({ success: true });
+    const saved = await userDb.updateSettings(req.user.id, settings);
+    res.json({ success: true, settings: saved });
   } catch (error) {
-    console.error('Save program error:', error);
-    res.status(500).json({ error: 'Failed to save program' });
+    console.error('Save settings error:', error);
+    res.status(500).json({ error: 'Failed to save settings' });
   }
 });
 
-// Bulk save programs (for initial sync)
-router.post('/programs/bulk', async (req, res) => {
-  try {
-    const { programs } = req.body;
-    
-    if (!Array.isArray(programs)) {
-      return res.status(400).json({ error: 'Programs must be an array' });
-    }
-
-    for (const program of programs) {
-      if (program.id && program.name) {
-        await programDb.upsert(req.user.id, program);
-      }
-    }
+// ============ EXERCISE LIBRARY ============
 
-    res.json({ success: true, count: programs.length });
+// Get the user's exercise library
+router.get('/exercises', async (req, res) => {
+  try {
+    const exercises = await exerciseDb.findByUserId(req.user.id);
+    res.json({ exercises });
   } catch (error) {
-    console.error('Bulk save programs error:', error);
-    res.status(500).json({ error: 'Failed to save programs' });
+    console.error('Get exercises error:', error);
+    res.status(500).json({ error: 'Failed to fetch exercises' });
   }
 });
 
-// Delete a program
-router.delete('/programs/:id', async (req, res) => {
+// ============ PROGRAMS ============
+
+// Get all programs for user
+router.get('/programs', async (req, res) => {
   try {
-    const deleted = await programDb.delete(req.user.id, req.params.id);
-    if (!deleted) {
-      return res.status(404).json({ error: 'Program not found' });
-    }
-    res.json({ success: true });
+    const programs = await programDb.findByUserId(req.user.id);
+    res.json({ programs });
   } catch (error) {
-    console.error('Delete program error:', error);
-    res.status(500).json({ error: 'Failed to delete program' });
+    console.error('Get programs error:', error);
+    res.status(500).json({ error: 'Failed to fetch programs' });
   }
 });
 
 // Set active program
 router.post('/programs/active', async (req, res) => {
   try {
-    const { programId } = req.body;
-    await programDb.setActive(req.user.id, programId || null);
+    const { programId, startDate } = req.body;
+
+    if (startDate && !/^\d{4}-\d{2}-\d{2}$/.test(startDate)) {
+      return res.status(400).json({ error: 'Invalid start date' });
+    }
+
+    await programDb.setActive(req.user.id, programId || null, startDate || null);
     res.json({ success: true });
   } catch (error) {
     console.error('Set active program error:', error);
@@ -123,56 +105,113 @@ router.get('/workouts', async (req, res) => {
   }
 });
 
-// Save/update a workout
-router.post('/workouts', async (req, res) => {
+// ============ CHANGE LOG ============
+
+const CHANGES_PAGE_SIZE = 500;
+
+function isValidChange(change) {
+  return (
+    change &&
+    syncDb.isEntityType(change.entityType) &&
+    typeof change.entityId === 'string' &&
+    typeof change.hlc === 'string' &&
+    (change.op === 'delete' || (change.op === 'upsert' && change.data?.id === change.entityId))
+  );
+}
+
+// Get changes after a position in the log, oldest first
+router.get('/changes', async (req, res) => {
   try {
-    const { workout } = req.body;
-    
-    if (!workout || !workout.id) {
-      return res.status(400).json({ error: 'Invalid workout data' });
+    const since = Math.max(parseInt(req.query.since) || 0, 0);
+    if (since === 0) {
+      await syncDb.backfill(req.user.id);
     }
 
-    await workoutDb.upsert(req.user.id, workout);
-    res.json({ success: true });
+    const changes = await syncDb.findChanges(req.user.id, since, CHANGES_PAGE_SIZE + 1);
+    const page = changes.slice(0, CHANGES_PAGE_SIZE);
+    res.json({
+      changes: page,
+      cursor: page.length > 0 ? page[page.length - 1].seq : since,
+      hasMore: changes.length > CHANGES_PAGE_SIZE,
+    });
   } catch (error) {
-    console.error('Save workout error:', error);
-    res.status(500).json({ error: 'Failed to save workout' });
+    console.error('Get changes error:', error);
+    res.status(500).json({ error: 'Failed to fetch changes' });
   }
 });
 
-// Bulk save workouts (for initial sync)
-router.post('/workouts/bulk', async (req, res) => {
+// Push changes; each is applied only if it's newer than the server's version.
+// Rejected changes lost to a newer one (or were invalid); failed ones can be retried.
+router.post('/changes', async (req, res) => {
   try {
-    const { workouts } = req.body;
-    
-    if (!Array.isArray(workouts)) {
-      return res.status(400).json({ error: 'Workouts must be an array' });
+    const { changes, clientId } = req.body;
+
+    if (!Array.isArray(changes)) {
+      return res.status(400).json({ error: 'Changes must be an array' });
     }
 
-    for (const workout of workouts) {
-      if (workout.id) {
-        await workoutDb.upsert(req.user.id, workout);
+    const applied = [];
+    const rejected = [];
+    const failed = [];
+    for (const change of changes) {
+      if (!isValidChange(change)) {
+        rejected.push(change?.hlc);
+        continue;
+      }
+      try {
+        const logged = await syncDb.apply(req.user.id, change, clientId);
+        (logged ? applied : rejected).push(change.hlc);
+      } catch (error) {
+        console.error('Apply change error:', error);
+        failed.push(change.hlc);
       }
     }
 
-    res.json({ success: true, count: workouts.length });
+    res.json({ success: true, applied, rejected, failed });
   } catch (error) {
-    console.error('Bulk save workouts error:', error);
-    res.status(500).json({ error: 'Failed to save workouts' });
+    console.error('Push changes error:', error);
+    res.status(500).json({ error: 'Failed to save changes' });
   }
 });
 
-// Delete a workout
-router.delete('/workouts/:id', async (req, res) => {
+// ============ WORKOUT DRAFT ============
+
+// Get the in-progress workout, if any
+router.get('/draft', async (req, res) => {
   try {
-    const deleted = await workoutDb.delete(req.user.id, req.params.id);
-    if (!deleted) {
-      return res.status(404).json({ error: 'Workout not found' });
+    const draft = await draftDb.findByUserId(req.user.id);
+    res.json({ draft });
+  } catch (error) {
+    console.error('Get draft error:', error);
+    res.status(500).json({ error: 'Failed to fetch workout draft' });
+  }
+});
+
+// Autosave the in-progress workout
+router.post('/draft', async (req, res) => {
+  try {
+    const { workout, clientId } = req.body;
+
+    if (!workout || !workout.id || !Array.isArray(workout.sets)) {
+      return res.status(400).json({ error: 'Invalid workout data' });
     }
+
+    await draftDb.upsert(req.user.id, workout, clientId);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Save draft error:', error);
+    res.status(500).json({ error: 'Failed to save workout draft' });
+  }
+});
+
+// Clear the draft once its workout is finished or discarded
+router.delete('/draft/:workoutId', async (req, res) => {
+  try {
+    await draftDb.delete(req.user.id, req.params.workoutId);
     res.json({ success: true });
   } catch (error) {
-    console.error('Delete workout error:', error);
-    res.status(500).json({ error: 'Failed to delete workout' });
+    console.error('Delete draft error:', error);
+    res.status(500).json({ error: 'Failed to delete workout draft' });
   }
 });
 
@@ -220,23 +259,24 @@ router.delete('/chat', async (req, res) => {
 
 // ============ FULL SYNC ============
 
-// Get all data for user (initial sync)
+// Get everything synced outside the change log: settings, chat, the active
+// program and the workout draft. Programs, workouts and exercises come from /changes.
 router.get('/all', async (req, res) => {
   try {
-    const [programs, workouts, chatMessages] = await Promise.all([
-      programDb.findByUserId(req.user.id),
-      workoutDb.findByUserId(req.user.id, 500),
+    const [activeProgramId, chatMessages, programSchedule, workoutDraft] = await Promise.all([
+      programDb.findActiveId(req.user.id),
       chatDb.findByUserId(req.user.id, 100),
+      programDb.findSchedule(req.user.id),
+      draftDb.findByUserId(req.user.id),
     ]);
 
-    const activeProgram = programs.find(p => p.isActive) || null;
-
     res.json({
       user: { id: req.user.id },
-      programs,
-      activeProgram,
-      workouts,
+      activeProgramId,
+      programSchedule,
       chatMessages,
+      workoutDraft,
+      settings: req.user.settings || {},
     });
   } catch (error) {
     console.error('Full sync error:', error);
@@ -244,39 +284,4 @@ router.get('/all', async (req, res) => {
   }
 });
 
-// Push all data from client (full sync)
-router.post('/all', async (req, res) => {
-  try {
-    const { programs, workouts, activeProgram } = req.body;
-
-    // Save programs
-    if (Array.isArray(programs)) {
-      for (const program of programs) {
-        if (program.id && program.name) {
-          await programDb.upsert(req.user.id, program);
-        }
-      }
-    }
-
-    // Save workouts
-    if (Array.isArray(workouts)) {
-      for (const workout of workouts) {
-        if (workout.id) {
-          await workoutDb.upsert(req.user.id, workout);
-        }
-      }
-    }
-
-    // Set active program
-    if (activeProgram?.id) {
-      await programDb.setActive(req.user.id, activeProgram.id);
-    }
-
-    res.json({ success: true });
-  } catch (error) {
-    console.error('Full sync push error:', error);
-    res.status(500).json({ error: 'Failed to sync data' });
-  }
-});
-
 export default router;
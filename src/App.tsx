@@ -10,6 +10,7 @@ const ProgramBuilder = lazy(() => import('./pages/ProgramBuilder'));
 const Tracker = lazy(() => import('./pages/Tracker'));
 const Coach = lazy(() => import('./pages/Coach'));
 const History = lazy(() => import('./pages/History'));
+const Settings = lazy(() => import('./pages/Settings'));
 
 function PageLoader() {
   return (
@@ -39,6 +40,7 @@ function App() {
             <Route path="tracker" element={<Tracker />} />
             <Route path="coach" element={<Coach />} />
             <Route path="history" element={<History />} />
+            <Route path="settings" element={<Settings />} />
             <Route path="*" element={<Navigate to="/" replace />} />
           </Route>
         </Routes>
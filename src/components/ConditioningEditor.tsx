@@ -0,0 +1,225 @@
+import { Plus, Trash2, Timer } from 'lucide-react';
+import { useStore } from '../store/useStore';
+import type { ConditioningBlock, ConditioningFormat, ConditioningMovement } from '../types';
+import {
+  CONDITIONING_FORMAT_LABELS,
+  createConditioningMovement,
+  describeBlock,
+} from '../utils/conditioning';
+import { findExerciseByName } from '../utils/exerciseLibrary';
+
+const inputClass =
+  'px-2 py-1.5 bg-gray-700/50 rounded-lg text-sm focus:outline-none focus-visible:ring-1 focus-visible:ring-primary-500';
+
+/** Builder card for authoring one AMRAP / EMOM / For Time / Intervals block */
+export default function ConditioningEditor({
+  block,
+  onChange,
+  onRemove,
+}: {
+  block: ConditioningBlock;
+  onChange: (updates: Partial<ConditioningBlock>) => void;
+  onRemove: () => void;
+}) {
+  const { exerciseLibrary, settings } = useStore();
+  const listId = `conditioning-movements-${block.id}`;
+
+  const updateMovement = (id: string, updates: Partial<ConditioningMovement>) => {
+    if (updates.exerciseName !== undefined) {
+      updates = {
+        ...updates,
+        exerciseId: findExerciseByName(exerciseLibrary, updates.exerciseName)?.id || '',
+      };
+    }
+    onChange({ movements: block.movements.map((m) => (m.id === id ? { ...m, ...updates } : m)) });
+  };
+
+  const minutesField = (label: string) => (
+    <label className="flex items-center gap-1 text-sm text-gray-500">
+      <input
+        type="number"
+        value={Math.round(block.timeCap / 60)}
+        onChange={(e) => onChange({ timeCap: Math.max(0, parseInt(e.target.value) || 0) * 60 })}
+        min={0}
+        className={`w-16 text-center ${inputClass}`}
+        aria-label={label}
+      />
+      {label}
+    </label>
+  );
+
+  const secondsField = (label: string, field: 'interval' | 'rest') => (
+    <label className="flex items-center gap-1 text-sm text-gray-500">
+      <input
+        type="number"
+        value={block[field] || 0}
+        onChange={(e) => onChange({ [field]: Math.max(0, parseInt(e.target.value) || 0) })}
+        min={0}
+        className={`w-16 text-center ${inputClass}`}
+        aria-label={label}
+      />
+      {label}
+    </label>
+  );
+
+  const roundsField = (
+    <label className="flex items-center gap-1 text-sm text-gray-500">
+      <input
+        type="number"
+        value={block.rounds || 1}
+        onChange={(e) => onChange({ rounds: Math.max(1, parseInt(e.target.value) || 1) })}
+        min={1}
+        className={`w-14 text-center ${inputClass}`}
+        aria-label="Rounds"
+      />
+      rounds
+    </label>
+  );
+
+  return (
+    <div className="p-3 bg-gray-800/50 rounded-lg space-y-3 border-l-2 border-orange-500/50">
+      <div className="flex flex-wrap items-center gap-2">
+        <Timer className="w-4 h-4 text-orange-400" />
+        <input
+          type="text"
+          value={block.name}
+          onChange={(e) => onChange({ name: e.target.value })}
+          placeholder="Block name (e.g. Fran)"
+          className={`flex-1 min-w-[8rem] font-medium ${inputClass}`}
+          aria-label="Conditioning block name"
+        />
+        <select
+          value={block.format}
+          onChange={(e) => onChange({ format: e.target.value as ConditioningFormat })}
+          className="text-sm bg-gray-700 border-0 rounded-lg px-2 py-1.5 focus:outline-none"
+          aria-label="Conditioning format"
+        >
+          {Object.entries(CONDITIONING_FORMAT_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+        <button
+          onClick={onRemove}
+          className="p-2 text-red-400 hover:bg-red-500/20 rounded-lg transition-colors"
+          aria-label="Remove conditioning block"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* Format-specific timing */}
+      <div className="flex flex-wrap items-center gap-3">
+        {block.format === 'amrap' && minutesField('min')}
+        {block.format === 'emom' && (
+          <>
+            {minutesField('min total')}
+            {secondsField('sec per interval', 'interval')}
+          </>
+        )}
+        {block.format === 'for-time' && (
+          <>
+            {roundsField}
+            {minutesField('min cap')}
+          </>
+        )}
+        {block.format === 'intervals' && (
+          <>
+            {roundsField}
+            {secondsField('sec work', 'interval')}
+            {secondsField('sec rest', 'rest')}
+          </>
+        )}
+        <span className="text-xs text-orange-400">{describeBlock(block)}</span>
+      </div>
+
+      {/* Movements */}
+      <datalist id={listId}>
+        {exerciseLibrary.map((ex) => (
+          <option key={ex.id} value={ex.name} />
+        ))}
+      </datalist>
+      <div className="space-y-2">
+        {block.movements.map((movement) => (
+          <div key={movement.id} className="grid grid-cols-2 md:grid-cols-6 gap-2 items-center">
+            <input
+              type="text"
+              value={movement.exerciseName}
+              onChange={(e) => updateMovement(movement.id, { exerciseName: e.target.value })}
+              placeholder="Movement"
+              list={listId}
+              className={`col-span-2 ${inputClass}`}
+              aria-label="Movement name"
+            />
+            <input
+              type="number"
+              value={movement.reps || ''}
+              onChange={(e) => updateMovement(movement.id, { reps: parseInt(e.target.value) || undefined })}
+              placeholder="Reps"
+              min={0}
+              className={`text-center ${inputClass}`}
+              aria-label="Reps"
+            />
+            <input
+              type="number"
+              value={movement.calories || ''}
+              onChange={(e) => updateMovement(movement.id, { calories: parseInt(e.target.value) || undefined })}
+              placeholder="Cal"
+              min={0}
+              className={`text-center ${inputClass}`}
+              aria-label="Calories"
+            />
+            <input
+              type="number"
+              value={movement.distance || ''}
+              onChange={(e) => updateMovement(movement.id, { distance: parseInt(e.target.value) || undefined })}
+              placeholder="Meters"
+              min={0}
+              className={`text-center ${inputClass}`}
+              aria-label="Distance in meters"
+            />
+            <div className="flex items-center gap-1">
+              <input
+                type="number"
+                step="any"
+                value={movement.weight || ''}
+                onChange={(e) =>
+                  updateMovement(movement.id, {
+                    weight: parseFloat(e.target.value) || undefined,
+                    unit: movement.unit || settings.weightUnit,
+                  })
+                }
+                placeholder={movement.unit || settings.weightUnit}
+                min={0}
+                className={`w-full text-center ${inputClass}`}
+                aria-label="Load"
+              />
+              <button
+                onClick={() => onChange({ movements: block.movements.filter((m) => m.id !== movement.id) })}
+                className="p-1.5 text-red-400 hover:bg-red-500/20 rounded-lg transition-colors"
+                aria-label="Remove movement"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          </div>
+        ))}
+        <button
+          onClick={() => onChange({ movements: [...block.movements, createConditioningMovement()] })}
+          className="flex items-center gap-1 text-sm text-gray-400 hover:text-white transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          Add Movement
+        </button>
+      </div>
+
+      <input
+        type="text"
+        value={block.notes || ''}
+        onChange={(e) => onChange({ notes: e.target.value })}
+        placeholder="Notes (scaling, standards)"
+        className={`w-full text-xs text-gray-400 placeholder:text-gray-600 ${inputClass}`}
+        aria-label="Conditioning notes"
+      />
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { Outlet, NavLink } from 'react-router-dom';
+import { Outlet, NavLink, useLocation, useNavigate } from 'react-router-dom';
 import {
   LayoutDashboard,
   Dumbbell,
@@ -10,9 +10,18 @@ import {
   Cloud,
   CloudOff,
   RefreshCw,
+  Settings,
+  Timer,
+  Smartphone,
 } from 'lucide-react';
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useStore } from '../store/useStore';
+import { useRestRemaining } from '../hooks/useRestRemaining';
+import { keepScreenAwake, notify } from '../utils/notifications';
+import { formatClock } from '../utils/conditioning';
+import { playBeep } from '../utils/audio';
+import { isWorkoutPaused } from '../utils/workoutTime';
+import { onBackgroundSync } from '../utils/backgroundSync';
 
 const navItems = [
   { path: '/', icon: LayoutDashboard, label: 'Dashboard' },
@@ -20,16 +29,19 @@ const navItems = [
   { path: '/tracker', icon: Dumbbell, label: 'Tracker' },
   { path: '/coach', icon: MessageCircle, label: 'AI Coach' },
   { path: '/history', icon: History, label: 'History' },
+  { path: '/settings', icon: Settings, label: 'Settings' },
 ];
 
 function SyncStatus() {
-  const { syncEnabled, isSyncing, lastSynced, syncFromServer } = useStore();
+  const { syncEnabled, isSyncing, lastSynced, syncError, syncFromServer, pendingChanges, pendingCalls } = useStore();
+  const pending = pendingChanges.length + pendingCalls.length;
 
   if (!syncEnabled) {
+    // Having synced before means the server is just unreachable, and changes are waiting for it
     return (
       <div className="flex items-center gap-2 text-gray-500 text-xs">
         <CloudOff className="w-4 h-4" />
-        <span>Local only</span>
+        <span>{lastSynced && pending > 0 ? `Offline · ${pending} pending` : 'Local only'}</span>
       </div>
     );
   }
@@ -43,11 +55,15 @@ function SyncStatus() {
       {isSyncing ? (
         <RefreshCw className="w-4 h-4 animate-spin" />
       ) : (
-        <Cloud className="w-4 h-4 text-green-500" />
+        <Cloud className={`w-4 h-4 ${syncError ? 'text-red-400' : 'text-green-500'}`} />
       )}
       <span>
         {isSyncing
           ? 'Syncing...'
+          : syncError
+          ? syncError
+          : pending > 0
+          ? `${pending} pending`
           : lastSynced
           ? `Synced ${new Date(lastSynced).toLocaleTimeString()}`
           : 'Cloud sync enabled'}
@@ -56,11 +72,139 @@ function SyncStatus() {
   );
 }
 
+/**
+ * App-wide workout side effects: alert when rest is over (wherever the user
+ * is in the app), keep the screen awake while a workout is running, and
+ * autosave it to the server.
+ */
+function WorkoutWatcher() {
+  const { restTimer, stopRestTimer, currentWorkout, syncEnabled, saveWorkoutDraft } = useStore();
+  // A paused workout lets the screen sleep
+  const workoutActive = !!currentWorkout && !isWorkoutPaused(currentWorkout);
+
+  useEffect(() => {
+    if (!restTimer) return;
+    const fire = () => {
+      // Rest that ended long ago (app was closed) is cleared quietly
+      if (Date.now() - restTimer.endsAt < 60000) {
+        playBeep(1320, 0.4);
+        notify('Rest over', restTimer.label ? `Next up: ${restTimer.label}` : 'Time for your next set');
+      }
+      stopRestTimer();
+    };
+    const timeout = setTimeout(fire, Math.max(0, restTimer.endsAt - Date.now()));
+    return () => clearTimeout(timeout);
+  }, [restTimer, stopRestTimer]);
+
+  useEffect(() => {
+    if (!workoutActive) return;
+    return keepScreenAwake();
+  }, [workoutActive]);
+
+  // Saved shortly after each change, and right away when the app is hidden in case it isn't reopened
+  useEffect(() => {
+    if (!currentWorkout || !syncEnabled) return;
+    const timeout = setTimeout(saveWorkoutDraft, 3000);
+    return () => clearTimeout(timeout);
+  }, [currentWorkout, syncEnabled, saveWorkoutDraft]);
+
+  useEffect(() => {
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') saveWorkoutDraft();
+    };
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', onVisibilityChange);
+  }, [saveWorkoutDraft]);
+
+  return null;
+}
+
+/** Sends queued sync calls when the connection comes back, or when the service worker's background sync fires */
+function SyncWatcher() {
+  const { flushSyncQueue } = useStore();
+
+  useEffect(() => {
+    const onOnline = () => flushSyncQueue().catch(console.error);
+    window.addEventListener('online', onOnline);
+    const stopBackgroundSync = onBackgroundSync(flushSyncQueue);
+    return () => {
+      window.removeEventListener('online', onOnline);
+      stopBackgroundSync();
+    };
+  }, [flushSyncQueue]);
+
+  return null;
+}
+
+/** Offers to carry on a workout that was autosaved from another device */
+function RemoteDraftPrompt() {
+  const { remoteDraft, currentWorkout, resumeRemoteDraft, discardRemoteDraft } = useStore();
+  const navigate = useNavigate();
+  if (!remoteDraft) return null;
+
+  const done = remoteDraft.sets.filter((s) => s.completed).length;
+  const handleResume = () => {
+    if (
+      currentWorkout &&
+      currentWorkout.id !== remoteDraft.id &&
+      !confirm('Resuming replaces the workout in progress on this device. Continue?')
+    ) {
+      return;
+    }
+    resumeRemoteDraft();
+    navigate('/tracker');
+  };
+
+  return (
+    <div className="fixed bottom-4 left-4 right-4 lg:left-72 z-40 flex flex-wrap items-center gap-3 p-4 glass rounded-2xl border border-primary-500/40 shadow-lg">
+      <Smartphone className="w-5 h-5 text-primary-400" />
+      <p className="flex-1 min-w-[12rem] text-sm">
+        A workout started {new Date(remoteDraft.date).toLocaleString()} is in progress on another device
+        <span className="text-gray-400"> ({done}/{remoteDraft.sets.length} sets done)</span>
+      </p>
+      <button
+        onClick={discardRemoteDraft}
+        className="px-3 py-1.5 text-sm text-gray-400 hover:bg-gray-800 rounded-lg transition-colors"
+      >
+        Discard
+      </button>
+      <button
+        onClick={handleResume}
+        className="px-3 py-1.5 text-sm bg-primary-500/20 text-primary-400 rounded-lg hover:bg-primary-500/30 transition-colors"
+      >
+        Resume on this device
+      </button>
+    </div>
+  );
+}
+
+/** Rest countdown shown on other pages so the timer isn't lost by navigating away */
+function RestTimerPill() {
+  const remaining = useRestRemaining();
+  const { pathname } = useLocation();
+  if (remaining === null || remaining <= 0 || pathname === '/tracker') return null;
+
+  return (
+    <NavLink
+      to="/tracker"
+      className="fixed bottom-4 right-4 z-40 flex items-center gap-2 px-4 py-2 glass rounded-full border border-yellow-500/40 text-yellow-400 font-mono shadow-lg"
+    >
+      <Timer className="w-4 h-4" />
+      Rest {formatClock(remaining)}
+    </NavLink>
+  );
+}
+
 export default function Layout() {
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
 
   return (
     <div className="min-h-screen bg-gray-950">
+      <WorkoutWatcher />
+      <SyncWatcher />
+      <RestTimerPill />
+      <RemoteDraftPrompt />
+
       {/* Mobile header */}
       <header className="lg:hidden fixed top-0 left-0 right-0 z-50 glass border-b border-gray-800">
         <div className="flex items-center justify-between px-4 py-3">
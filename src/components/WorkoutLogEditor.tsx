@@ -0,0 +1,241 @@
+import { useState } from 'react';
+import { Plus, Trash2, Save, X } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { v4 as uuidv4 } from 'uuid';
+import { useStore } from '../store/useStore';
+import type { WorkoutLog, WorkoutSet } from '../types';
+import { weightUnitLabel } from '../types';
+import { findExerciseByName, getSetMetric } from '../utils/exerciseLibrary';
+import { isLoadMetric, parseDuration } from '../utils/setMetrics';
+import { formatClock } from '../utils/conditioning';
+
+const inputClass =
+  'px-2 py-1.5 bg-gray-700/50 rounded-lg text-sm focus:outline-none focus-visible:ring-1 focus-visible:ring-primary-500';
+
+/** Form for correcting a logged workout: date, duration, notes, rating and every set */
+export default function WorkoutLogEditor({
+  log,
+  onSave,
+  onCancel,
+}: {
+  log: WorkoutLog;
+  onSave: (log: WorkoutLog) => void;
+  onCancel: () => void;
+}) {
+  const { exerciseLibrary, settings } = useStore();
+  const [draft, setDraft] = useState<WorkoutLog>(log);
+  const listId = `log-exercises-${log.id}`;
+
+  const updateSet = (id: string, updates: Partial<WorkoutSet>) => {
+    // A retyped name re-points the set at its library entry, like in the tracker
+    if (updates.exerciseName !== undefined) {
+      const match = findExerciseByName(exerciseLibrary, updates.exerciseName);
+      updates = { ...updates, exerciseId: match?.id || '', metric: match?.metric || 'weight' };
+    }
+    setDraft((d) => ({ ...d, sets: d.sets.map((s) => (s.id === id ? { ...s, ...updates } : s)) }));
+  };
+
+  const setDate = (value: string) => {
+    // A future date would rank as the latest workout
+    if (value && new Date(value) <= new Date()) setDraft((d) => ({ ...d, date: new Date(value).toISOString() }));
+  };
+
+  const addSet = () => {
+    const last = draft.sets[draft.sets.length - 1];
+    const set: WorkoutSet = {
+      id: uuidv4(),
+      exerciseId: last?.exerciseId || '',
+      exerciseName: last?.exerciseName || '',
+      setNumber: (last?.setNumber || 0) + 1,
+      targetReps: last?.actualReps ?? last?.targetReps ?? 10,
+      targetWeight: last?.actualWeight ?? last?.targetWeight ?? 0,
+      actualReps: last?.actualReps,
+      actualWeight: last?.actualWeight,
+      unit: last?.unit || settings.weightUnit,
+      metric: last?.metric,
+      completed: true,
+    };
+    setDraft((d) => ({ ...d, sets: [...d.sets, set] }));
+  };
+
+  const removeSet = (id: string) =>
+    setDraft((d) => ({ ...d, sets: d.sets.filter((s) => s.id !== id && s.parentSetId !== id) }));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3 text-sm text-gray-400">
+        <label className="flex items-center gap-2">
+          Date
+          <input
+            type="datetime-local"
+            value={format(parseISO(draft.date), "yyyy-MM-dd'T'HH:mm")}
+            max={format(new Date(), "yyyy-MM-dd'T'HH:mm")}
+            onChange={(e) => setDate(e.target.value)}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="number"
+            value={draft.duration}
+            onChange={(e) => setDraft({ ...draft, duration: Math.max(0, parseInt(e.target.value) || 0) })}
+            min={0}
+            className={`w-20 text-center ${inputClass}`}
+            aria-label="Duration in minutes"
+          />
+          min
+        </label>
+        <select
+          value={draft.rating || ''}
+          onChange={(e) => setDraft({ ...draft, rating: parseInt(e.target.value) || undefined })}
+          className={inputClass}
+          aria-label="Rating"
+        >
+          <option value="">No rating</option>
+          {[1, 2, 3, 4, 5].map((star) => (
+            <option key={star} value={star}>
+              {'★'.repeat(star)}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <datalist id={listId}>
+        {exerciseLibrary.map((ex) => (
+          <option key={ex.id} value={ex.name} />
+        ))}
+      </datalist>
+
+      <div className="space-y-2">
+        {draft.sets.map((set) => {
+          const metric = getSetMetric(exerciseLibrary, set);
+          return (
+            <div key={set.id} className={`flex flex-wrap items-center gap-2 ${set.parentSetId ? 'pl-6' : ''}`}>
+              <input
+                type="checkbox"
+                checked={set.completed}
+                onChange={(e) => updateSet(set.id, { completed: e.target.checked })}
+                className="accent-primary-500"
+                aria-label="Set completed"
+              />
+              <input
+                type="text"
+                value={set.exerciseName}
+                onChange={(e) => updateSet(set.id, { exerciseName: e.target.value })}
+                list={listId}
+                placeholder="Exercise"
+                className={`flex-1 min-w-[10rem] ${inputClass}`}
+                aria-label="Exercise name"
+              />
+              {isLoadMetric(metric) ? (
+                <>
+                  <input
+                    type="number"
+                    value={set.actualReps ?? ''}
+                    onChange={(e) => updateSet(set.id, { actualReps: parseInt(e.target.value) || 0, segments: undefined })}
+                    min={0}
+                    className={`w-16 text-center ${inputClass}`}
+                    aria-label="Reps"
+                  />
+                  <span className="text-xs text-gray-500">{metric === 'weight' ? '×' : metric === 'bodyweight' ? '+' : '−'}</span>
+                  <input
+                    type="number"
+                    step="any"
+                    value={set.actualWeight ?? ''}
+                    onChange={(e) => updateSet(set.id, { actualWeight: parseFloat(e.target.value) || 0 })}
+                    min={0}
+                    className={`w-20 text-center ${inputClass}`}
+                    aria-label="Weight"
+                  />
+                  <span className="text-xs text-gray-500">{weightUnitLabel(set.unit || 'lb')}</span>
+                </>
+              ) : metric === 'duration' ? (
+                <input
+                  type="text"
+                  defaultValue={formatClock(set.actualDuration || 0)}
+                  onBlur={(e) => updateSet(set.id, { actualDuration: parseDuration(e.target.value) })}
+                  placeholder="m:ss"
+                  className={`w-20 text-center ${inputClass}`}
+                  aria-label="Time (m:ss)"
+                />
+              ) : (
+                <>
+                  <input
+                    type="number"
+                    value={(metric === 'distance' ? set.actualDistance : set.actualCalories) ?? ''}
+                    onChange={(e) =>
+                      updateSet(
+                        set.id,
+                        metric === 'distance'
+                          ? { actualDistance: parseInt(e.target.value) || 0 }
+                          : { actualCalories: parseInt(e.target.value) || 0 }
+                      )
+                    }
+                    min={0}
+                    className={`w-20 text-center ${inputClass}`}
+                    aria-label={metric === 'distance' ? 'Distance in meters' : 'Calories'}
+                  />
+                  <span className="text-xs text-gray-500">{metric === 'distance' ? 'm' : 'cal'}</span>
+                </>
+              )}
+              <select
+                value={set.rpe || ''}
+                onChange={(e) => updateSet(set.id, { rpe: e.target.value ? parseFloat(e.target.value) : undefined })}
+                className={inputClass}
+                aria-label="RPE"
+              >
+                <option value="">RPE</option>
+                {[6, 6.5, 7, 7.5, 8, 8.5, 9, 9.5, 10].map((rpe) => (
+                  <option key={rpe} value={rpe}>
+                    {rpe}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() => removeSet(set.id)}
+                className="p-1.5 text-red-400 hover:bg-red-500/20 rounded-lg transition-colors"
+                aria-label="Remove set"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          );
+        })}
+        <button
+          onClick={addSet}
+          className="flex items-center gap-1 px-3 py-1.5 text-sm text-primary-400 hover:bg-primary-500/20 rounded-lg transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          Add set
+        </button>
+      </div>
+
+      <textarea
+        value={draft.notes || ''}
+        onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+        placeholder="Notes"
+        rows={2}
+        className={`w-full resize-none ${inputClass}`}
+        aria-label="Workout notes"
+      />
+
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={onCancel}
+          className="flex items-center gap-1 px-4 py-2 text-sm text-gray-400 hover:bg-gray-700 rounded-lg transition-colors"
+        >
+          <X className="w-4 h-4" />
+          Cancel
+        </button>
+        <button
+          onClick={() => onSave(draft)}
+          disabled={draft.sets.some((s) => !s.exerciseName.trim())}
+          className="flex items-center gap-1 px-4 py-2 text-sm bg-primary-500/20 text-primary-400 rounded-lg hover:bg-primary-500/30 transition-colors disabled:opacity-50"
+        >
+          <Save className="w-4 h-4" />
+          Save
+        </button>
+      </div>
+    </div>
+  );
+}
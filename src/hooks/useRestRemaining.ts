@@ -0,0 +1,17 @@
+import { useEffect, useState } from 'react';
+import { useStore } from '../store/useStore';
+
+/** Seconds left on the rest timer, ticking while it runs; null when no rest is running */
+export function useRestRemaining(): number | null {
+  const restTimer = useStore((state) => state.restTimer);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!restTimer) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [restTimer]);
+
+  return restTimer ? Math.max(0, Math.ceil((restTimer.endsAt - now) / 1000)) : null;
+}
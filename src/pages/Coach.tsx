@@ -4,6 +4,7 @@ import ReactMarkdown from 'react-markdown';
 import { useStore } from '../store/useStore';
 import { format, parseISO } from 'date-fns';
 import { sendMessage } from '../services/api';
+import { formatRecordValue, recordLabel } from '../utils/personalRecords';
 
 const SUGGESTED_PROMPTS = [
   'Create a 4-day upper/lower split for hypertrophy',
@@ -60,10 +61,24 @@ export default function Coach() {
           totalWorkouts: stats.totalWorkouts,
           currentStreak: stats.currentStreak,
           weeklyWorkouts: stats.weeklyWorkouts,
-          personalRecords: stats.personalRecords.slice(0, 5),
+          // Most recent PRs first, described the way History shows them
+          personalRecords: stats.personalRecords
+            .slice()
+            .sort((a, b) => b.date.localeCompare(a.date))
+            .slice(0, 20)
+            .map((pr) => ({
+              exerciseName: pr.exerciseName,
+              record: recordLabel(pr),
+              value: formatRecordValue(pr),
+              date: pr.date.slice(0, 10),
+            })),
         },
         activeProgram: activeProgram?.name,
-        recentWorkouts: workoutLogs.slice(-3).map((w) => ({
+        recentWorkouts: [...workoutLogs]
+          // Back-dated logs are appended, so order by date rather than position
+          .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+          .slice(-3)
+          .map((w) => ({
           date: w.date,
           setsCompleted: w.sets.filter((s) => s.completed).length,
           duration: w.duration,
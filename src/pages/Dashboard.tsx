@@ -13,20 +13,34 @@ import {
 } from 'lucide-react';
 import { useStore } from '../store/useStore';
 import { format, isToday, parseISO } from 'date-fns';
-import { calcVolume } from '../types';
+import { calcVolume, weightUnitLabel } from '../types';
+import { getAdherence, getProgramPosition } from '../utils/programSchedule';
+import { formatRecordValue, recordLabel } from '../utils/personalRecords';
 
 export default function Dashboard() {
-  const { activeProgram, workoutLogs, currentWorkout, getStats } = useStore();
+  const { activeProgram, programSchedule, workoutLogs, currentWorkout, settings, getStats } = useStore();
   const stats = getStats();
+  const unitLabel = weightUnitLabel(settings.weightUnit);
   
   const recentWorkouts = workoutLogs
     .filter((l) => l.completed)
     .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
     .slice(0, 5);
 
-  const todayWorkout = activeProgram?.workoutDays.find(
-    (d) => d.dayOfWeek === new Date().getDay()
-  );
+  // PRs are recorded on each log as they happen
+  const recentRecords = workoutLogs
+    .filter((l) => l.completed)
+    .flatMap((l) => l.personalRecords || [])
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+    .slice(0, 6);
+
+  const position = activeProgram && programSchedule
+    ? getProgramPosition(activeProgram, programSchedule.startDate)
+    : null;
+  const adherence = activeProgram && programSchedule
+    ? getAdherence(activeProgram, programSchedule.startDate, workoutLogs)
+    : null;
+  const todayWorkout = position?.today;
 
   return (
     <div className="space-y-6 animate-fadeIn">
@@ -93,7 +107,7 @@ export default function Dashboard() {
               ? `${(stats.totalVolume / 1000).toFixed(0)}k`
               : stats.totalVolume}
           </p>
-          <p className="text-sm text-gray-400">Total Volume (lbs)</p>
+          <p className="text-sm text-gray-400">Total Volume ({unitLabel})</p>
         </div>
 
         <div className="glass rounded-2xl p-4 lg:p-6">
@@ -118,13 +132,21 @@ export default function Dashboard() {
             {activeProgram && (
               <span className="text-xs px-2 py-1 bg-primary-500/20 text-primary-400 rounded-full">
                 {activeProgram.name}
+                {position?.started && !position.finished && ` · Week ${position.week}/${position.totalWeeks}`}
               </span>
             )}
           </div>
 
           {activeProgram && todayWorkout ? (
             <div className="space-y-3">
-              <h3 className="font-medium text-lg">{todayWorkout.name}</h3>
+              <div>
+                <h3 className="font-medium text-lg">{todayWorkout.name}</h3>
+                {position && (
+                  <p className="text-sm text-gray-500">
+                    Week {position.week} of {position.totalWeeks}, day {position.dayNumber}
+                  </p>
+                )}
+              </div>
               <div className="space-y-2">
                 {todayWorkout.exercises.slice(0, 4).map((exercise, idx) => (
                   <div
@@ -141,7 +163,7 @@ export default function Dashboard() {
                     </div>
                     <span className="text-sm text-gray-500">
                       {exercise.reps || exercise.targetReps} × {exercise.targetWeight || 'BW'}
-                      {exercise.targetWeight ? 'lbs' : ''}
+                      {exercise.targetWeight ? weightUnitLabel(exercise.unit || 'lb') : ''}
                     </span>
                   </div>
                 ))}
@@ -163,9 +185,13 @@ export default function Dashboard() {
             <div className="text-center py-8">
               <Target className="w-12 h-12 text-gray-600 mx-auto mb-3" />
               <p className="text-gray-400 mb-4">
-                {activeProgram
-                  ? 'Rest day - no workout scheduled'
-                  : 'No active program selected'}
+                {!activeProgram
+                  ? 'No active program selected'
+                  : position && !position.started
+                  ? `Program starts ${format(parseISO(programSchedule!.startDate), 'EEEE, MMM d')}`
+                  : position?.finished
+                  ? 'Program complete - time to pick the next block'
+                  : 'Rest day - no workout scheduled'}
               </p>
               <Link
                 to="/programs"
@@ -175,6 +201,23 @@ export default function Dashboard() {
               </Link>
             </div>
           )}
+
+          {adherence && adherence.planned > 0 && (
+            <div className="mt-4 pt-4 border-t border-gray-800">
+              <div className="flex items-center justify-between text-sm mb-2">
+                <span className="text-gray-400">Adherence</span>
+                <span className="text-gray-300">
+                  {adherence.completed}/{adherence.planned} sessions ({adherence.rate}%)
+                </span>
+              </div>
+              <div className="h-2 bg-gray-800 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-gradient-to-r from-primary-500 to-accent-500"
+                  style={{ width: `${adherence.rate}%` }}
+                />
+              </div>
+            </div>
+          )}
         </div>
 
         {/* Recent Workouts */}
@@ -208,7 +251,7 @@ export default function Dashboard() {
                   </div>
                   <div className="text-right">
                     <p className="text-sm text-gray-400">
-                      {calcVolume(workout.sets).toLocaleString()} lbs
+                      {calcVolume(workout.sets, settings.weightUnit).toLocaleString()} {unitLabel}
                     </p>
                     {workout.rating && (
                       <div className="flex gap-0.5 justify-end">
@@ -236,6 +279,30 @@ export default function Dashboard() {
         </div>
       </div>
 
+      {/* Recent PRs */}
+      {recentRecords.length > 0 && (
+        <div className="glass rounded-2xl p-6">
+          <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+            <Trophy className="w-5 h-5 text-yellow-400" />
+            Recent PRs
+          </h2>
+          <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-3">
+            {recentRecords.map((record, idx) => (
+              <div key={idx} className="p-3 bg-gray-800/50 rounded-xl">
+                <p className="font-medium truncate">{record.exerciseName}</p>
+                <p className="text-sm">
+                  <span className="text-gray-400">{recordLabel(record)}</span>{' '}
+                  <span className="text-yellow-400">{formatRecordValue(record)}</span>
+                </p>
+                <p className="text-xs text-gray-500 mt-1">
+                  {isToday(parseISO(record.date)) ? 'Today' : format(parseISO(record.date), 'MMM d')}
+                </p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Quick Actions */}
       <div className="glass rounded-2xl p-6">
         <h2 className="text-lg font-semibold mb-4">Quick Actions</h2>
@@ -11,10 +11,33 @@ import {
   Download,
   Upload,
   Search,
+  Timer,
+  Pencil,
+  Trash2,
+  CalendarPlus,
+  RotateCcw,
+  BookmarkPlus,
 } from 'lucide-react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { v4 as uuidv4 } from 'uuid';
 import { useStore } from '../store/useStore';
-import { format, parseISO, startOfWeek, isWithinInterval, subWeeks } from 'date-fns';
-import { calcVolume } from '../types';
+import WorkoutLogEditor from '../components/WorkoutLogEditor';
+import { format, parseISO, startOfWeek, isWithinInterval, subWeeks, subDays } from 'date-fns';
+import type { PersonalRecord, PRCategory, WorkoutLog } from '../types';
+import { calcVolume, weightUnitLabel } from '../types';
+import { getExerciseName, getSetMetric } from '../utils/exerciseLibrary';
+import { formatSetResult, hasSetResult, scoreSet } from '../utils/setMetrics';
+import { SET_TYPE_LABELS, SET_TYPE_TAGS, addPrescribedDrops, getRecordReps } from '../utils/setTypes';
+import { expandDaySets } from '../utils/exerciseGroups';
+import { getExerciseTimes } from '../utils/workoutTime';
+import {
+  E1RM_FORMULA_LABELS,
+  estimateOneRepMax,
+  formatRecordValue,
+  getRecordHistory,
+  recordLabel,
+} from '../utils/personalRecords';
+import { blockKey, describeBlock, formatClock, formatScore, scoreUnitLabel, scoreValue } from '../utils/conditioning';
 import {
   LineChart,
   Line,
@@ -30,48 +53,216 @@ import {
 type TimeFilter = 'all' | 'week' | 'month' | '3months';
 
 export default function History() {
-  const { workoutLogs, getPersonalRecords, exportData, importData } = useStore();
+  const {
+    workoutLogs,
+    exerciseLibrary,
+    settings,
+    getPersonalRecords,
+    exportData,
+    importData,
+    updateWorkoutLog,
+    deleteWorkoutLog,
+    currentWorkout,
+    repeatWorkout,
+  } = useStore();
+  const location = useLocation();
+  const navigate = useNavigate();
   const [expandedLog, setExpandedLog] = useState<string | null>(null);
+  const [editingLog, setEditingLog] = useState<string | null>(null);
+  const [savingLog, setSavingLog] = useState<string | null>(null);
+  // The tracker's "Log a past workout" link opens the form straight away
+  const [loggingPast, setLoggingPast] = useState(
+    !!(location.state as { logPast?: boolean } | null)?.logPast
+  );
   const [timeFilter, setTimeFilter] = useState<TimeFilter>('month');
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [selectedExercise, setSelectedExercise] = useState<string>('');
+  const [selectedBlock, setSelectedBlock] = useState<string>('');
+
+  // Recomputed only when the logs, library or settings the records depend on change
+  const personalRecords = useMemo(
+    () => getPersonalRecords(),
+    [getPersonalRecords, workoutLogs, exerciseLibrary, settings]
+  );
 
-  const personalRecords = getPersonalRecords();
+  const expandedTimes = useMemo(() => {
+    const log = workoutLogs.find((l) => l.id === expandedLog);
+    return log ? getExerciseTimes(log) : [];
+  }, [workoutLogs, expandedLog]);
 
-  // Get unique exercise names from all workout logs
-  const allExerciseNames = useMemo(() => {
-    const names = new Set<string>();
+  // Records grouped per exercise, most recently improved first
+  const recordsByExercise = useMemo(() => {
+    const order: PRCategory[] = ['e1rm', 'rep-max', 'volume', 'best'];
+    const groups = new Map<string, { key: string; name: string; latest: string; records: PersonalRecord[] }>();
+    for (const pr of personalRecords) {
+      const key = pr.exerciseId || pr.exerciseName;
+      const group = groups.get(key) || { key, name: pr.exerciseName, latest: pr.date, records: [] };
+      group.records.push(pr);
+      if (pr.date > group.latest) group.latest = pr.date;
+      groups.set(key, group);
+    }
+    return Array.from(groups.values())
+      .map((group) => ({
+        ...group,
+        records: group.records.sort(
+          (a, b) => order.indexOf(a.category) - order.indexOf(b.category) || a.reps - b.reps
+        ),
+      }))
+      .sort((a, b) => b.latest.localeCompare(a.latest));
+  }, [personalRecords]);
+  const unit = settings.weightUnit;
+  const unitLabel = weightUnitLabel(unit);
+
+  // Get unique logged exercises, keyed by library ID
+  const loggedExercises = useMemo(() => {
+    const exercises = new Map<string, string>();
     workoutLogs.forEach((log) => {
       log.sets.forEach((set) => {
-        if (set.completed && set.exerciseName) names.add(set.exerciseName);
+        if (set.completed && set.exerciseId) {
+          exercises.set(set.exerciseId, getExerciseName(exerciseLibrary, set));
+        }
       });
     });
-    return Array.from(names).sort();
-  }, [workoutLogs]);
+    return Array.from(exercises, ([id, name]) => ({ id, name })).sort((a, b) =>
+      a.name.localeCompare(b.name)
+    );
+  }, [workoutLogs, exerciseLibrary]);
+  const selectedExerciseName =
+    loggedExercises.find((e) => e.id === selectedExercise)?.name || '';
+
+  const selectedMetric = useMemo(() => {
+    for (const log of workoutLogs) {
+      const set = log.sets.find((s) => s.exerciseId === selectedExercise);
+      if (set) return getSetMetric(exerciseLibrary, set);
+    }
+    return 'weight';
+  }, [selectedExercise, workoutLogs, exerciseLibrary]);
 
-  // Build exercise-specific chart data
+  // Chart labels for the selected exercise's metric
+  const metricCharts = {
+    weight: {
+      best: `Weight (${unitLabel})`,
+      bestTitle: 'Best Weight per Session',
+      total: `Volume (${unitLabel})`,
+      totalTitle: 'Best Set Volume per Session',
+    },
+    bodyweight: {
+      best: `Added Load (${unitLabel})`,
+      bestTitle: 'Heaviest Added Load per Session',
+      total: 'Reps',
+      totalTitle: 'Total Reps per Session',
+    },
+    assisted: {
+      best: `Assistance (${unitLabel})`,
+      bestTitle: 'Least Assistance per Session',
+      total: 'Reps',
+      totalTitle: 'Total Reps per Session',
+    },
+    duration: {
+      best: 'Seconds',
+      bestTitle: 'Longest Set per Session',
+      total: 'Seconds',
+      totalTitle: 'Total Time per Session',
+    },
+    distance: {
+      best: 'Meters',
+      bestTitle: 'Longest Set per Session',
+      total: 'Meters',
+      totalTitle: 'Total Distance per Session',
+    },
+    calories: {
+      best: 'Calories',
+      bestTitle: 'Most Calories in a Set',
+      total: 'Calories',
+      totalTitle: 'Total Calories per Session',
+    },
+  }[selectedMetric];
+
+  // Build exercise-specific chart data: a best-set line and a session-total line per metric
   const exerciseChartData = useMemo(() => {
     if (!selectedExercise) return [];
     return workoutLogs
       .filter((log) => log.completed)
       .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
-      .reduce<{ date: string; bestWeight: number; bestVolume: number }[]>((acc, log) => {
+      .reduce<{ date: string; best: number; total: number; e1rm?: number }[]>((acc, log) => {
         const matching = log.sets.filter(
-          (s) => s.completed && s.exerciseName === selectedExercise && s.actualWeight
+          (s) => s.exerciseId === selectedExercise && s.setType !== 'warmup' && hasSetResult(s, selectedMetric)
         );
         if (matching.length === 0) return acc;
-        const bestWeight = Math.max(...matching.map((s) => s.actualWeight || 0));
-        const bestVolume = Math.max(
-          ...matching.map((s) => (s.actualWeight || 0) * (s.actualReps || 0))
-        );
+        const scores = matching.map((s) => scoreSet(s, selectedMetric, unit));
+        let best: number;
+        let total: number;
+        let e1rm: number | undefined;
+        switch (selectedMetric) {
+          case 'weight':
+            best = Math.max(...scores.map((sc) => sc.weight));
+            total = Math.round(Math.max(...scores.map((sc) => sc.weight * sc.reps)));
+            e1rm = Math.round(
+              Math.max(
+                ...scores.map((sc, i) => estimateOneRepMax(sc.weight, getRecordReps(matching[i]), settings.e1rmFormula))
+              )
+            ) || undefined;
+            break;
+          case 'bodyweight':
+          case 'assisted': {
+            const loads = scores.map((sc) => sc.weight);
+            best = selectedMetric === 'assisted' ? Math.min(...loads) : Math.max(...loads);
+            total = scores.reduce((sum, sc) => sum + sc.reps, 0);
+            break;
+          }
+          default:
+            best = Math.max(...scores.map((sc) => sc.value));
+            total = scores.reduce((sum, sc) => sum + sc.value, 0);
+        }
         acc.push({
           date: format(parseISO(log.date), 'MMM d'),
-          bestWeight,
-          bestVolume,
+          best,
+          total,
+          e1rm,
         });
         return acc;
       }, []);
-  }, [selectedExercise, workoutLogs]);
+  }, [selectedExercise, selectedMetric, workoutLogs, unit, settings.e1rmFormula]);
+
+  // Every PR the selected exercise has set, newest first
+  const recordTimeline = useMemo(() => {
+    if (!selectedExercise) return [];
+    return getRecordHistory(workoutLogs, exerciseLibrary, unit, settings.e1rmFormula, selectedExercise).reverse();
+  }, [selectedExercise, workoutLogs, exerciseLibrary, unit, settings.e1rmFormula]);
+
+  // Scored conditioning blocks, grouped by name + format so benchmarks chart together
+  const loggedBlocks = useMemo(() => {
+    const blocks = new Map<string, string>();
+    workoutLogs.forEach((log) => {
+      log.conditioning?.forEach((block) => {
+        if (block.score) blocks.set(blockKey(block), `${block.name || describeBlock(block)} (${describeBlock(block)})`);
+      });
+    });
+    return Array.from(blocks, ([key, name]) => ({ key, name })).sort((a, b) => a.name.localeCompare(b.name));
+  }, [workoutLogs]);
+
+  const conditioningChart = useMemo(() => {
+    if (!selectedBlock) return null;
+    let unitName = '';
+    const data = workoutLogs
+      .filter((log) => log.completed)
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+      .reduce<{ date: string; score: number; label: string }[]>((acc, log) => {
+        for (const block of log.conditioning || []) {
+          if (!block.score || blockKey(block) !== selectedBlock) continue;
+          const value = scoreValue(block, block.score);
+          if (value === null) continue;
+          unitName = scoreUnitLabel(block);
+          acc.push({
+            date: format(parseISO(log.date), 'MMM d'),
+            score: value,
+            label: formatScore(block, block.score),
+          });
+        }
+        return acc;
+      }, []);
+    return { data, unitName };
+  }, [selectedBlock, workoutLogs]);
 
   // Filter logs based on time period
   const filteredLogs = workoutLogs
@@ -108,7 +299,7 @@ export default function History() {
     .reverse()
     .map((log) => ({
       date: format(parseISO(log.date), 'MMM d'),
-      volume: calcVolume(log.sets),
+      volume: calcVolume(log.sets, unit),
     }));
 
   const weeklyChartData = (() => {
@@ -208,8 +399,8 @@ export default function History() {
           icon={<TrendingUp className="w-5 h-5" />}
           label="Total Volume"
           value={`${(
-            filteredLogs.reduce((acc, log) => acc + calcVolume(log.sets), 0) / 1000
-          ).toFixed(0)}k lbs`}
+            filteredLogs.reduce((acc, log) => acc + calcVolume(log.sets, unit), 0) / 1000
+          ).toFixed(0)}k ${unitLabel}`}
           color="green"
         />
         <StatCard
@@ -287,7 +478,7 @@ export default function History() {
       )}
 
       {/* Exercise Progress */}
-      {allExerciseNames.length > 0 && (
+      {loggedExercises.length > 0 && (
         <div className="glass rounded-2xl p-6">
           <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
             <Search className="w-5 h-5 text-primary-400" />
@@ -301,9 +492,9 @@ export default function History() {
               className="w-full md:w-64 bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-primary-500"
             >
               <option value="">Select an exercise...</option>
-              {allExerciseNames.map((name) => (
-                <option key={name} value={name}>
-                  {name}
+              {loggedExercises.map((exercise) => (
+                <option key={exercise.id} value={exercise.id}>
+                  {exercise.name}
                 </option>
               ))}
             </select>
@@ -311,7 +502,7 @@ export default function History() {
           {selectedExercise && exerciseChartData.length > 0 ? (
             <div className="grid lg:grid-cols-2 gap-6">
               <div>
-                <h3 className="text-sm text-gray-400 mb-2">Best Weight per Session</h3>
+                <h3 className="text-sm text-gray-400 mb-2">{metricCharts.bestTitle}</h3>
                 <div className="h-56">
                   <ResponsiveContainer width="100%" height="100%">
                     <LineChart data={exerciseChartData}>
@@ -328,18 +519,29 @@ export default function History() {
                       />
                       <Line
                         type="monotone"
-                        dataKey="bestWeight"
+                        dataKey="best"
                         stroke="#22c55e"
                         strokeWidth={2}
                         dot={{ fill: '#22c55e', strokeWidth: 2 }}
-                        name="Weight (lbs)"
+                        name={metricCharts.best}
                       />
+                      {selectedMetric === 'weight' && (
+                        <Line
+                          type="monotone"
+                          dataKey="e1rm"
+                          stroke="#eab308"
+                          strokeWidth={2}
+                          strokeDasharray="4 4"
+                          dot={false}
+                          name={`Est. 1RM (${unitLabel})`}
+                        />
+                      )}
                     </LineChart>
                   </ResponsiveContainer>
                 </div>
               </div>
               <div>
-                <h3 className="text-sm text-gray-400 mb-2">Best Set Volume per Session</h3>
+                <h3 className="text-sm text-gray-400 mb-2">{metricCharts.totalTitle}</h3>
                 <div className="h-56">
                   <ResponsiveContainer width="100%" height="100%">
                     <LineChart data={exerciseChartData}>
@@ -356,11 +558,11 @@ export default function History() {
                       />
                       <Line
                         type="monotone"
-                        dataKey="bestVolume"
+                        dataKey="total"
                         stroke="#f59e0b"
                         strokeWidth={2}
                         dot={{ fill: '#f59e0b', strokeWidth: 2 }}
-                        name="Volume (lbs)"
+                        name={metricCharts.total}
                       />
                     </LineChart>
                   </ResponsiveContainer>
@@ -368,37 +570,110 @@ export default function History() {
               </div>
             </div>
           ) : selectedExercise ? (
-            <p className="text-gray-500 text-sm">No data found for {selectedExercise} in logged workouts.</p>
+            <p className="text-gray-500 text-sm">No data found for {selectedExerciseName} in logged workouts.</p>
           ) : null}
+          {recordTimeline.length > 0 && (
+            <div className="mt-6">
+              <h3 className="text-sm text-gray-400 mb-2 flex items-center gap-2">
+                <Trophy className="w-4 h-4 text-yellow-400" />
+                PR Timeline
+              </h3>
+              <div className="max-h-64 overflow-y-auto space-y-1 pr-1">
+                {recordTimeline.map((pr, idx) => (
+                  <div
+                    key={idx}
+                    className="flex items-center justify-between py-1.5 px-3 bg-gray-800/30 rounded-lg text-sm"
+                  >
+                    <span className="text-gray-500 w-24">{format(parseISO(pr.date), 'MMM d, yyyy')}</span>
+                    <span className="flex-1 text-gray-300">{recordLabel(pr)}</span>
+                    <span className="font-medium text-yellow-400">{formatRecordValue(pr)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
       )}
 
-      {/* Personal Records */}
-      {personalRecords.length > 0 && (
+      {/* Conditioning Scores */}
+      {loggedBlocks.length > 0 && (
         <div className="glass rounded-2xl p-6">
           <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+            <Timer className="w-5 h-5 text-orange-400" />
+            Conditioning Scores
+          </h2>
+          <div className="mb-4">
+            <select
+              value={selectedBlock}
+              onChange={(e) => setSelectedBlock(e.target.value)}
+              aria-label="Select conditioning workout to track"
+              className="w-full md:w-64 bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-primary-500"
+            >
+              <option value="">Select a workout...</option>
+              {loggedBlocks.map((block) => (
+                <option key={block.key} value={block.key}>
+                  {block.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          {conditioningChart && conditioningChart.data.length > 0 ? (
+            <div className="h-56">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={conditioningChart.data}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                  <XAxis dataKey="date" stroke="#9CA3AF" fontSize={12} />
+                  <YAxis stroke="#9CA3AF" fontSize={12} />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: '#1F2937',
+                      border: '1px solid #374151',
+                      borderRadius: '8px',
+                    }}
+                    labelStyle={{ color: '#9CA3AF' }}
+                    formatter={(_value, name, item) => [item.payload.label, name]}
+                  />
+                  <Line
+                    type="monotone"
+                    dataKey="score"
+                    stroke="#f97316"
+                    strokeWidth={2}
+                    dot={{ fill: '#f97316', strokeWidth: 2 }}
+                    name={conditioningChart.unitName}
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          ) : selectedBlock ? (
+            <p className="text-gray-500 text-sm">No comparable scores yet (capped For Time efforts aren't charted).</p>
+          ) : null}
+        </div>
+      )}
+
+      {/* Personal Records */}
+      {recordsByExercise.length > 0 && (
+        <div className="glass rounded-2xl p-6">
+          <h2 className="text-lg font-semibold mb-1 flex items-center gap-2">
             <Trophy className="w-5 h-5 text-yellow-400" />
             Personal Records
           </h2>
+          <p className="text-xs text-gray-500 mb-4">
+            Est. 1RM uses the {E1RM_FORMULA_LABELS[settings.e1rmFormula]} formula (change it in Settings)
+          </p>
           <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-3">
-            {personalRecords.slice(0, 9).map((pr, idx) => (
-              <div
-                key={idx}
-                className="flex items-center justify-between p-3 bg-gray-800/30 rounded-lg"
-              >
-                <div>
-                  <p className="font-medium">{pr.exerciseName}</p>
-                  <p className="text-sm text-gray-500">
-                    {format(parseISO(pr.date), 'MMM d, yyyy')}
-                  </p>
-                </div>
-                <div className="text-right">
-                  <p className="font-semibold text-yellow-400">
-                    {pr.weight} × {pr.reps}
-                  </p>
-                  <p className="text-xs text-gray-500">
-                    {(pr.weight * pr.reps).toLocaleString()} lbs
-                  </p>
+            {recordsByExercise.slice(0, 9).map(({ key, name, records }) => (
+              <div key={key} className="p-3 bg-gray-800/30 rounded-lg">
+                <p className="font-medium mb-2">{name}</p>
+                <div className="space-y-1">
+                  {records.map((pr) => (
+                    <div key={`${pr.category}-${pr.reps}`} className="flex items-center justify-between text-sm">
+                      <span className="text-gray-400">{recordLabel(pr)}</span>
+                      <span>
+                        <span className="font-semibold text-yellow-400">{formatRecordValue(pr)}</span>
+                        <span className="text-xs text-gray-500 ml-2">{format(parseISO(pr.date), 'MMM d')}</span>
+                      </span>
+                    </div>
+                  ))}
                 </div>
               </div>
             ))}
@@ -408,7 +683,20 @@ export default function History() {
 
       {/* Workout Logs */}
       <div className="glass rounded-2xl p-6">
-        <h2 className="text-lg font-semibold mb-4">Workout Log</h2>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold">Workout Log</h2>
+          {!loggingPast && (
+            <button
+              onClick={() => setLoggingPast(true)}
+              className="flex items-center gap-1 px-3 py-1.5 text-sm text-primary-400 hover:bg-primary-500/20 rounded-lg transition-colors"
+            >
+              <CalendarPlus className="w-4 h-4" />
+              Log past workout
+            </button>
+          )}
+        </div>
+
+        {loggingPast && <PastWorkoutForm onDone={() => setLoggingPast(false)} />}
 
         {filteredLogs.length > 0 ? (
           <div className="space-y-3">
@@ -439,13 +727,16 @@ export default function History() {
                       <p className="text-sm text-gray-500">
                         {log.sets.filter((s) => s.completed).length} sets •{' '}
                         {log.duration} min
+                        {log.intervals && log.intervals.length > 1 && (
+                          <span title="Active time; paused time is left out"> • paused {log.intervals.length - 1}×</span>
+                        )}
                       </p>
                     </div>
                   </div>
                   <div className="flex items-center gap-4">
                     <div className="text-right hidden md:block">
                       <p className="font-medium">
-                        {calcVolume(log.sets).toLocaleString()} lbs
+                        {calcVolume(log.sets, unit).toLocaleString()} {unitLabel}
                       </p>
                       {log.rating && (
                         <div className="flex gap-0.5 justify-end">
@@ -470,31 +761,139 @@ export default function History() {
                   </div>
                 </div>
 
-                {expandedLog === log.id && (
+                {expandedLog === log.id && editingLog === log.id && (
+                  <div className="p-4 border-t border-gray-700/50">
+                    <WorkoutLogEditor
+                      log={log}
+                      onSave={(edited) => {
+                        updateWorkoutLog(log.id, edited);
+                        setEditingLog(null);
+                      }}
+                      onCancel={() => setEditingLog(null)}
+                    />
+                  </div>
+                )}
+
+                {expandedLog === log.id && editingLog !== log.id && (
                   <div className="px-4 pb-4 border-t border-gray-700/50">
-                    <div className="pt-4 space-y-2">
+                    <div className="pt-3 flex flex-wrap justify-end gap-2">
+                      <button
+                        onClick={() => {
+                          if (currentWorkout && !confirm('Replace the workout in progress?')) return;
+                          repeatWorkout(log.id);
+                          navigate('/tracker');
+                        }}
+                        className="flex items-center gap-1 px-3 py-1.5 text-sm text-primary-400 hover:bg-primary-500/20 rounded-lg transition-colors"
+                      >
+                        <RotateCcw className="w-4 h-4" />
+                        Repeat
+                      </button>
+                      <button
+                        onClick={() => setSavingLog(savingLog === log.id ? null : log.id)}
+                        className="flex items-center gap-1 px-3 py-1.5 text-sm text-gray-400 hover:text-white hover:bg-gray-700 rounded-lg transition-colors"
+                      >
+                        <BookmarkPlus className="w-4 h-4" />
+                        Save as template
+                      </button>
+                      <button
+                        onClick={() => setEditingLog(log.id)}
+                        className="flex items-center gap-1 px-3 py-1.5 text-sm text-gray-400 hover:text-white hover:bg-gray-700 rounded-lg transition-colors"
+                      >
+                        <Pencil className="w-4 h-4" />
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => {
+                          if (confirm('Delete this workout? This cannot be undone.')) {
+                            deleteWorkoutLog(log.id);
+                            setExpandedLog(null);
+                          }
+                        }}
+                        className="flex items-center gap-1 px-3 py-1.5 text-sm text-red-400 hover:bg-red-500/20 rounded-lg transition-colors"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                        Delete
+                      </button>
+                    </div>
+                    {savingLog === log.id && (
+                      <SaveTemplateForm
+                        logId={log.id}
+                        defaultName={`${format(parseISO(log.date), 'EEEE')} workout`}
+                        onCancel={() => setSavingLog(null)}
+                      />
+                    )}
+                    <div className="pt-1 space-y-2">
                       {log.sets
                         .filter((s) => s.completed)
                         .map((set, idx) => (
                           <div
                             key={idx}
-                            className="flex items-center justify-between py-2 text-sm"
+                            className={`flex items-center justify-between py-2 text-sm ${set.parentSetId ? 'pl-6' : ''}`}
                           >
                             <div className="flex items-center gap-2">
-                              <span className="text-gray-300">{set.exerciseName}</span>
+                              <span className="text-gray-300">
+                                {set.parentSetId ? '↳ ' : ''}
+                                {getExerciseName(exerciseLibrary, set)}
+                              </span>
+                              {set.setType && set.setType !== 'working' && (
+                                <span
+                                  className="text-xs px-1.5 py-0.5 bg-accent-500/20 text-accent-400 rounded"
+                                  title={SET_TYPE_LABELS[set.setType]}
+                                >
+                                  {SET_TYPE_TAGS[set.setType]}
+                                </span>
+                              )}
                               {set.tempo && (
                                 <span className="text-xs px-1.5 py-0.5 bg-cyan-500/20 text-cyan-400 rounded">
                                   {set.tempo}
                                 </span>
                               )}
+                              {set.swappedFrom && (
+                                <span className="text-xs px-1.5 py-0.5 bg-primary-500/20 text-primary-400 rounded">
+                                  In place of {set.swappedFrom.exerciseName}
+                                </span>
+                              )}
+                              {set.adjustmentReason && (
+                                <span
+                                  className="text-xs px-1.5 py-0.5 bg-orange-500/20 text-orange-400 rounded"
+                                  title={set.adjustmentReason}
+                                >
+                                  Adjusted
+                                </span>
+                              )}
                             </div>
                             <span className="text-gray-500">
-                              {set.actualReps} × {set.actualWeight} lbs
+                              {formatSetResult(set, getSetMetric(exerciseLibrary, set))}
                               {set.rpe && ` @ RPE ${set.rpe}`}
+                              {set.timeUnderTension ? ` · TUT ${formatClock(set.timeUnderTension)}` : ''}
                             </span>
                           </div>
                         ))}
                     </div>
+                    {log.conditioning?.map((block) => (
+                      <div
+                        key={block.id}
+                        className="flex items-center justify-between py-2 text-sm border-t border-gray-700/50"
+                      >
+                        <span className="text-gray-300">
+                          {block.name || describeBlock(block)}
+                          <span className="ml-2 text-xs text-orange-400">{describeBlock(block)}</span>
+                        </span>
+                        <span className="text-gray-500">
+                          {block.score ? formatScore(block, block.score) : 'Not scored'}
+                        </span>
+                      </div>
+                    ))}
+                    {expandedTimes.length > 0 && (
+                      <div className="mt-2 pt-2 border-t border-gray-700/50 flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-500">
+                        <span>Time per exercise:</span>
+                        {expandedTimes.map((time) => (
+                          <span key={time.exerciseId || time.exerciseName}>
+                            {time.exerciseName} <span className="text-gray-300">{formatClock(time.seconds)}</span>
+                          </span>
+                        ))}
+                      </div>
+                    )}
                     {log.notes && (
                       <div className="mt-4 pt-4 border-t border-gray-700/50">
                         <p className="text-sm text-gray-400">{log.notes}</p>
@@ -519,6 +918,137 @@ export default function History() {
   );
 }
 
+/**
+ * Manual entry for a workout done without the tracker: pick a program day (or
+ * start empty), then correct the date, duration and sets before saving.
+ */
+function PastWorkoutForm({ onDone }: { onDone: () => void }) {
+  const { activeProgram, settings, logPastWorkout } = useStore();
+  const [dayId, setDayId] = useState('');
+
+  // Rebuilt whenever the day changes; the day's targets start out as what was done
+  const draft = useMemo<WorkoutLog>(() => {
+    const day = activeProgram?.workoutDays.find((d) => d.id === dayId);
+    const sets = day
+      ? addPrescribedDrops(
+          expandDaySets(day).map((s) => ({ ...s, id: uuidv4() })),
+          settings.loadIncrements
+        ).map((s) => ({
+          ...s,
+          unit: s.unit || settings.weightUnit,
+          actualReps: s.targetReps,
+          actualWeight: s.targetWeight,
+          actualDuration: s.targetDuration,
+          actualDistance: s.targetDistance,
+          actualCalories: s.targetCalories,
+          completed: true,
+        }))
+      : [];
+    const date = subDays(new Date(), 1);
+    date.setSeconds(0, 0);
+    return {
+      id: uuidv4(),
+      programId: day ? activeProgram?.id : undefined,
+      workoutDayId: day?.id,
+      date: date.toISOString(),
+      duration: 60,
+      sets,
+      groups: day?.groups?.length ? day.groups : undefined,
+      completed: true,
+    };
+  }, [activeProgram, dayId, settings.loadIncrements, settings.weightUnit]);
+
+  return (
+    <div className="mb-4 p-4 bg-gray-800/30 rounded-xl space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <h3 className="font-medium">Log a past workout</h3>
+        <select
+          value={dayId}
+          onChange={(e) => setDayId(e.target.value)}
+          className="px-2 py-1.5 bg-gray-700/50 rounded-lg text-sm focus:outline-none focus-visible:ring-1 focus-visible:ring-primary-500"
+          aria-label="Program day"
+        >
+          <option value="">Empty workout</option>
+          {activeProgram?.workoutDays.map((day) => (
+            <option key={day.id} value={day.id}>
+              {day.name}
+            </option>
+          ))}
+        </select>
+      </div>
+      <WorkoutLogEditor
+        key={draft.id}
+        log={draft}
+        onSave={(workout) => {
+          logPastWorkout(workout);
+          onDone();
+        }}
+        onCancel={onDone}
+      />
+    </div>
+  );
+}
+
+/** Saves a log as a program day, in a new program or at the end of an existing one's first week */
+function SaveTemplateForm({
+  logId,
+  defaultName,
+  onCancel,
+}: {
+  logId: string;
+  defaultName: string;
+  onCancel: () => void;
+}) {
+  const { programs, saveLogAsWorkoutDay } = useStore();
+  const navigate = useNavigate();
+  const [name, setName] = useState(defaultName);
+  const [programId, setProgramId] = useState('');
+
+  const handleSave = () => {
+    const program = saveLogAsWorkoutDay(logId, name.trim(), programId || undefined);
+    if (program) navigate(`/programs/${program.id}`);
+  };
+
+  return (
+    <div className="mt-3 p-3 bg-gray-800/50 rounded-xl flex flex-wrap items-center gap-2 text-sm">
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="Day name"
+        className="flex-1 min-w-[10rem] px-2 py-1.5 bg-gray-700/50 rounded-lg focus:outline-none focus-visible:ring-1 focus-visible:ring-primary-500"
+        aria-label="Day name"
+      />
+      <select
+        value={programId}
+        onChange={(e) => setProgramId(e.target.value)}
+        className="px-2 py-1.5 bg-gray-700/50 rounded-lg focus:outline-none focus-visible:ring-1 focus-visible:ring-primary-500"
+        aria-label="Program"
+      >
+        <option value="">New program</option>
+        {programs.map((program) => (
+          <option key={program.id} value={program.id}>
+            Add to {program.name}
+          </option>
+        ))}
+      </select>
+      <button
+        onClick={onCancel}
+        className="px-3 py-1.5 text-gray-400 hover:bg-gray-700 rounded-lg transition-colors"
+      >
+        Cancel
+      </button>
+      <button
+        onClick={handleSave}
+        disabled={!name.trim()}
+        className="px-3 py-1.5 bg-primary-500/20 text-primary-400 rounded-lg hover:bg-primary-500/30 transition-colors disabled:opacity-50"
+      >
+        Save
+      </button>
+    </div>
+  );
+}
+
 function StatCard({
   icon,
   label,
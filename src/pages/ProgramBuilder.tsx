@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback } from 'react';
+import { Fragment, useState, useEffect, useCallback } from 'react';
 import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
 import {
   Save,
@@ -11,12 +11,51 @@ import {
   Loader2,
   Copy,
   ArrowLeft,
+  Link2,
+  Unlink,
+  Timer,
 } from 'lucide-react';
 import { v4 as uuidv4 } from 'uuid';
 import { useStore } from '../store/useStore';
-import type { Program, WorkoutDay, WorkoutSet } from '../types';
-import { MUSCLE_GROUPS, TRAINING_STYLES } from '../types';
+import type {
+  ConditioningBlock,
+  ConditioningFormat,
+  Exercise,
+  ExerciseGroup,
+  ExerciseGroupType,
+  Program,
+  ProgressionType,
+  SetMetric,
+  SetType,
+  WeightUnit,
+  WorkoutDay,
+  WorkoutSet,
+} from '../types';
+import { TRAINING_STYLES, convertWeight, roundWeight, weightUnitLabel } from '../types';
 import { generateProgram } from '../services/api';
+import { findExerciseByName, getSetMetric } from '../utils/exerciseLibrary';
+import { SET_METRIC_LABELS, isLoadMetric } from '../utils/setMetrics';
+import { PROGRESSION_LABELS, defaultProgression } from '../utils/progression';
+import { DROP_PERCENT, SET_TYPE_LABELS } from '../utils/setTypes';
+import { resolvePercentTarget } from '../utils/trainingMax';
+import {
+  GROUP_TYPE_LABELS,
+  findGroup,
+  getMemberLabel,
+  groupTypeForSize,
+  nextGroupLabel,
+  pruneGroups,
+} from '../utils/exerciseGroups';
+import { CONDITIONING_FORMAT_LABELS, createConditioningBlock } from '../utils/conditioning';
+import ConditioningEditor from '../components/ConditioningEditor';
+import {
+  copyWeek,
+  getAuthoredWeeks,
+  getDayWeek,
+  getDaysForWeek,
+  getScheduledDays,
+  normalizeWorkoutDays,
+} from '../utils/programSchedule';
 
 const DAYS_OF_WEEK = [
   'Sunday',
@@ -32,7 +71,8 @@ interface TemplateExercise {
   exerciseName: string;
   setNumber: number;
   targetReps: number;
-  targetWeight: number;
+  targetWeight: number; // lb; converted to the user's unit when the template is loaded
+  targetDuration?: number; // seconds, for timed holds
   tempo?: string;
   intensity?: string;
   rest?: string;
@@ -108,7 +148,7 @@ const PROGRAM_TEMPLATES: Record<string, { name: string; description: string; goa
         { exerciseName: 'Romanian Deadlift', setNumber: 3, targetReps: 8, targetWeight: 185, tempo: '3110', intensity: '2 RIR', rest: '2 min' },
         { exerciseName: 'Leg Press', setNumber: 3, targetReps: 10, targetWeight: 315, tempo: '3010', intensity: '1 RIR', rest: '90 sec' },
         { exerciseName: 'Leg Curls', setNumber: 3, targetReps: 10, targetWeight: 80, tempo: '3010', intensity: '1 RIR', rest: '60 sec' },
-        { exerciseName: 'Planks', setNumber: 3, targetReps: 60, targetWeight: 0, rest: '60 sec', notes: '60 seconds hold' },
+        { exerciseName: 'Planks', setNumber: 3, targetReps: 1, targetWeight: 0, targetDuration: 60, rest: '60 sec', notes: '60 seconds hold' },
       ]},
       { name: 'Upper B', dayOfWeek: 4, exercises: [
         { exerciseName: 'Overhead Press', setNumber: 5, targetReps: 5, targetWeight: 105, tempo: '20X0', intensity: '2 RIR', rest: '3-5 min' },
@@ -179,7 +219,7 @@ const PROGRAM_TEMPLATES: Record<string, { name: string; description: string; goa
         { exerciseName: 'Incline Dumbbell Press', setNumber: 3, targetReps: 10, targetWeight: 45, tempo: '3111', intensity: '2 RIR', rest: '90 sec' },
         { exerciseName: 'Lat Pulldown', setNumber: 3, targetReps: 10, targetWeight: 100, tempo: '3010', intensity: '2 RIR', rest: '90 sec' },
         { exerciseName: 'Lunges', setNumber: 3, targetReps: 10, targetWeight: 30, tempo: '2010', intensity: '2 RIR', rest: '90 sec' },
-        { exerciseName: 'Planks', setNumber: 3, targetReps: 45, targetWeight: 0, rest: '60 sec', notes: '45 seconds hold' },
+        { exerciseName: 'Planks', setNumber: 3, targetReps: 1, targetWeight: 0, targetDuration: 45, rest: '60 sec', notes: '45 seconds hold' },
       ]},
       { name: 'Full Body C', dayOfWeek: 5, exercises: [
         { exerciseName: 'Front Squat', setNumber: 3, targetReps: 10, targetWeight: 135, tempo: '31X1', intensity: '2 RIR', rest: '2 min' },
@@ -192,24 +232,36 @@ const PROGRAM_TEMPLATES: Record<string, { name: string; description: string; goa
   },
 };
 
-function templateToWorkoutDays(template: typeof PROGRAM_TEMPLATES[string]): WorkoutDay[] {
-  return template.days.map((day) => ({
+function templateToWorkoutDays(
+  template: typeof PROGRAM_TEMPLATES[string],
+  library: Exercise[],
+  unit: WeightUnit
+): WorkoutDay[] {
+  return template.days.map((day, i) => ({
     id: uuidv4(),
     name: day.name,
     dayOfWeek: day.dayOfWeek,
-    exercises: day.exercises.map((ex) => ({
-      id: uuidv4(),
-      exerciseId: uuidv4(),
-      exerciseName: ex.exerciseName,
-      setNumber: ex.setNumber,
-      targetReps: ex.targetReps,
-      targetWeight: ex.targetWeight,
-      completed: false,
-      tempo: ex.tempo || '',
-      intensity: ex.intensity || '',
-      rest: ex.rest || '',
-      notes: ex.notes || '',
-    })),
+    weekNumber: 1,
+    dayNumber: i + 1,
+    exercises: day.exercises.map((ex) => {
+      const match = findExerciseByName(library, ex.exerciseName);
+      return {
+        id: uuidv4(),
+        exerciseId: match?.id || '',
+        exerciseName: ex.exerciseName,
+        setNumber: ex.setNumber,
+        targetReps: ex.targetReps,
+        targetWeight: roundWeight(convertWeight(ex.targetWeight, 'lb', unit), unit),
+        targetDuration: ex.targetDuration,
+        metric: match?.metric,
+        unit,
+        completed: false,
+        tempo: ex.tempo || '',
+        intensity: ex.intensity || '',
+        rest: ex.rest || '',
+        notes: ex.notes || '',
+      };
+    }),
   }));
 }
 
@@ -217,7 +269,7 @@ export default function ProgramBuilder() {
   const navigate = useNavigate();
   const { id } = useParams();
   const [searchParams] = useSearchParams();
-  const { programs, addProgram, updateProgram } = useStore();
+  const { programs, exerciseLibrary, settings, addProgram, updateProgram, linkExercises } = useStore();
 
   const existingProgram = id ? programs.find((p) => p.id === id) : null;
   const templateKey = searchParams.get('template');
@@ -228,12 +280,13 @@ export default function ProgramBuilder() {
   const [duration, setDuration] = useState(existingProgram?.duration || template?.duration || 8);
   const [goal, setGoal] = useState<Program['goal']>(existingProgram?.goal || template?.goal || 'hypertrophy');
   const [workoutDays, setWorkoutDays] = useState<WorkoutDay[]>(
-    existingProgram?.workoutDays || (template ? templateToWorkoutDays(template) : [])
+    existingProgram?.workoutDays || (template ? templateToWorkoutDays(template, exerciseLibrary, settings.weightUnit) : [])
   );
   const [daysPerWeek, setDaysPerWeek] = useState(existingProgram?.daysPerWeek || template?.days.length || 4);
   const [experienceLevel, setExperienceLevel] = useState('intermediate');
   const [trainingStyle, setTrainingStyle] = useState('Functional Bodybuilding');
   const [injuries, setInjuries] = useState('');
+  const [selectedWeek, setSelectedWeek] = useState(1);
   const [expandedDay, setExpandedDay] = useState<string | null>(null);
   const [isDirty, setIsDirty] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
@@ -251,11 +304,19 @@ export default function ProgramBuilder() {
     return () => window.removeEventListener('beforeunload', handleBeforeUnload);
   }, [isDirty]);
 
+  const weekCount = Math.max(duration, getAuthoredWeeks(workoutDays));
+  const weekDays = getDaysForWeek(workoutDays, selectedWeek);
+  // Empty weeks repeat the closest earlier authored week
+  const repeatedDay = weekDays.length === 0 ? getScheduledDays(workoutDays, selectedWeek)[0] : undefined;
+  const repeatedWeek = repeatedDay ? getDayWeek(repeatedDay) : undefined;
+
   const addWorkoutDay = () => {
     const newDay: WorkoutDay = {
       id: uuidv4(),
-      name: `Day ${workoutDays.length + 1}`,
-      dayOfWeek: workoutDays.length % 7,
+      name: `Day ${weekDays.length + 1}`,
+      dayOfWeek: weekDays.length % 7,
+      weekNumber: selectedWeek,
+      dayNumber: weekDays.length + 1,
       exercises: [],
     };
     setWorkoutDays([...workoutDays, newDay]);
@@ -287,14 +348,56 @@ export default function ProgramBuilder() {
     markDirty();
   };
 
+  const addConditioning = (dayId: string, format: ConditioningFormat) => {
+    setWorkoutDays(
+      workoutDays.map((d) =>
+        d.id === dayId ? { ...d, conditioning: [...(d.conditioning || []), createConditioningBlock(format)] } : d
+      )
+    );
+    markDirty();
+  };
+
+  const updateConditioning = (dayId: string, blockId: string, updates: Partial<ConditioningBlock>) => {
+    setWorkoutDays(
+      workoutDays.map((d) =>
+        d.id === dayId
+          ? { ...d, conditioning: (d.conditioning || []).map((b) => (b.id === blockId ? { ...b, ...updates } : b)) }
+          : d
+      )
+    );
+    markDirty();
+  };
+
+  const removeConditioning = (dayId: string, blockId: string) => {
+    setWorkoutDays(
+      workoutDays.map((d) =>
+        d.id === dayId ? { ...d, conditioning: (d.conditioning || []).filter((b) => b.id !== blockId) } : d
+      )
+    );
+    markDirty();
+  };
+
+  const copyWeekTo = (fromWeek: number, toWeek: number) => {
+    if (
+      getDaysForWeek(workoutDays, toWeek).length > 0 &&
+      !confirm(`Replace the days in Week ${toWeek} with a copy of Week ${fromWeek}?`)
+    ) {
+      return;
+    }
+    setWorkoutDays(copyWeek(workoutDays, fromWeek, toWeek, uuidv4));
+    setSelectedWeek(toWeek);
+    markDirty();
+  };
+
   const addExercise = (dayId: string) => {
     const newSet: WorkoutSet = {
       id: uuidv4(),
-      exerciseId: uuidv4(),
+      exerciseId: '',
       exerciseName: '',
       setNumber: 1,
       targetReps: 10,
       targetWeight: 0,
+      unit: settings.weightUnit,
       completed: false,
       tempo: '',
       intensity: '',
@@ -311,14 +414,29 @@ export default function ProgramBuilder() {
   };
 
   const updateExercise = (dayId: string, setId: string, updates: Partial<WorkoutSet>) => {
+    if (updates.exerciseName !== undefined) {
+      const match = findExerciseByName(exerciseLibrary, updates.exerciseName);
+      updates = {
+        ...updates,
+        exerciseId: match?.id || '',
+        metric: match?.metric || 'weight',
+      };
+    }
     setWorkoutDays(
       workoutDays.map((d) =>
         d.id === dayId
           ? {
               ...d,
-              exercises: d.exercises.map((e) =>
-                e.id === setId ? { ...e, ...updates } : e
-              ),
+              exercises: d.exercises.map((e) => {
+                if (e.id !== setId) return e;
+                const next = { ...e, ...updates };
+                // Percentage intensities become loads when the exercise has a training max
+                if ('intensity' in updates || 'exerciseName' in updates || 'unit' in updates) {
+                  const resolved = resolvePercentTarget(next, exerciseLibrary, settings.loadIncrements);
+                  if (resolved) next.targetWeight = resolved.targetWeight;
+                }
+                return next;
+              }),
             }
           : d
       )
@@ -330,13 +448,75 @@ export default function ProgramBuilder() {
     setWorkoutDays(
       workoutDays.map((d) =>
         d.id === dayId
-          ? { ...d, exercises: d.exercises.filter((e) => e.id !== setId) }
+          ? { ...d, ...pruneGroups(d.exercises.filter((e) => e.id !== setId), d.groups) }
           : d
       )
     );
     markDirty();
   };
 
+  // Pair an exercise with the one after it, starting a new group or growing its current one
+  const groupWithNext = (dayId: string, index: number) => {
+    setWorkoutDays(
+      workoutDays.map((d) => {
+        if (d.id !== dayId) return d;
+        const exercise = d.exercises[index];
+        const next = d.exercises[index + 1];
+        if (!exercise || !next) return d;
+
+        const groups = d.groups || [];
+        const group: ExerciseGroup = findGroup(groups, exercise.groupId) || {
+          id: uuidv4(),
+          type: 'superset',
+          label: nextGroupLabel(groups),
+          rounds: exercise.setNumber || 3,
+          rest: exercise.rest || '',
+        };
+        const groupId = group.id;
+        const exercises = d.exercises.map((e, i) =>
+          i === index || i === index + 1 || e.groupId === groupId
+            ? { ...e, groupId, setNumber: group.rounds }
+            : e
+        );
+        const size = exercises.filter((e) => e.groupId === groupId).length;
+        const updated = { ...group, type: groupTypeForSize(size, group.type) };
+        return {
+          ...d,
+          ...pruneGroups(exercises, [...groups.filter((g) => g.id !== groupId), updated]),
+        };
+      })
+    );
+    markDirty();
+  };
+
+  const ungroup = (dayId: string, groupId: string) => {
+    setWorkoutDays(
+      workoutDays.map((d) =>
+        d.id === dayId
+          ? { ...d, ...pruneGroups(d.exercises, (d.groups || []).filter((g) => g.id !== groupId)) }
+          : d
+      )
+    );
+    markDirty();
+  };
+
+  const updateGroup = (dayId: string, groupId: string, updates: Partial<ExerciseGroup>) => {
+    setWorkoutDays(
+      workoutDays.map((d) => {
+        if (d.id !== dayId) return d;
+        return {
+          ...d,
+          groups: (d.groups || []).map((g) => (g.id === groupId ? { ...g, ...updates } : g)),
+          // Every member is performed once per round
+          exercises: updates.rounds
+            ? d.exercises.map((e) => (e.groupId === groupId ? { ...e, setNumber: updates.rounds! } : e))
+            : d.exercises,
+        };
+      })
+    );
+    markDirty();
+  };
+
   const duplicateSet = (dayId: string, exercise: WorkoutSet) => {
     const newSet: WorkoutSet = {
       ...exercise,
@@ -362,35 +542,64 @@ export default function ProgramBuilder() {
       const result = await generateProgram({
         goal,
         daysPerWeek,
+        weeks: duration,
         experienceLevel,
         equipment: ['Barbell', 'Dumbbell', 'Cable Machine', 'Machine'],
         trainingStyle,
         injuries: injuries || undefined,
+        exerciseNames: exerciseLibrary.map((e) => e.name),
+        unit: settings.weightUnit,
       });
       setName(result.name || name);
       setDescription(result.description || description);
       if (result.workoutDays?.length) {
-        setWorkoutDays(
-          result.workoutDays.map((day) => ({
-            id: uuidv4(),
-            name: day.name,
-            dayOfWeek: day.dayOfWeek,
-            exercises: day.exercises.map((ex) => ({
+        setWorkoutDays(normalizeWorkoutDays(
+          result.workoutDays.map((day) => {
+            const groups: ExerciseGroup[] = (day.groups || []).map((g) => ({
               id: uuidv4(),
-              exerciseId: uuidv4(),
-              exerciseName: ex.exerciseName,
-              setNumber: ex.setNumber || ex.sets || 3,
-              targetReps: ex.targetReps || parseInt(String(ex.reps)) || 10,
-              targetWeight: ex.targetWeight || 0,
-              completed: false,
-              tempo: ex.tempo || '',
-              intensity: ex.intensity || '',
-              rest: ex.rest || '',
-              reps: ex.reps || '',
-              notes: ex.notes || '',
-            })),
-          }))
-        );
+              type: g.type,
+              label: g.label,
+              rounds: g.rounds,
+              rest: g.rest || '',
+            }));
+            // Resolve generated names through the library (unknown names become custom entries)
+            const exercises = linkExercises(day.exercises.map((ex) => {
+              const group = groups.find((g) => g.label === ex.group);
+              return {
+                id: uuidv4(),
+                exerciseId: '',
+                exerciseName: ex.exerciseName,
+                setNumber: group?.rounds || ex.setNumber || ex.sets || 3,
+                targetReps: ex.targetReps || parseInt(String(ex.reps)) || 10,
+                targetWeight: ex.targetWeight || 0,
+                unit: ex.unit || settings.weightUnit,
+                completed: false,
+                tempo: ex.tempo || '',
+                intensity: ex.intensity || '',
+                rest: ex.rest || '',
+                reps: ex.reps || '',
+                notes: ex.notes || '',
+                groupId: group?.id,
+              };
+            }));
+            return {
+              id: uuidv4(),
+              name: day.name,
+              dayOfWeek: day.dayOfWeek,
+              weekNumber: day.weekNumber || 1,
+              ...pruneGroups(exercises, groups),
+              conditioning: (day.conditioning || []).map((block) => ({
+                ...createConditioningBlock(block.format),
+                ...block,
+                id: uuidv4(),
+                movements: linkExercises(
+                  (block.movements || []).map((m) => ({ ...m, id: uuidv4(), exerciseId: '' }))
+                ),
+              })),
+            };
+          })
+        ));
+        setSelectedWeek(1);
         markDirty();
       }
     } catch {
@@ -406,13 +615,22 @@ export default function ProgramBuilder() {
       return;
     }
 
+    const extraWeeks = workoutDays.filter((d) => getDayWeek(d) > duration);
+    if (
+      extraWeeks.length > 0 &&
+      !confirm(`Days in weeks after Week ${duration} will be removed. Save anyway?`)
+    ) {
+      return;
+    }
+    const days = normalizeWorkoutDays(workoutDays.filter((d) => getDayWeek(d) <= duration));
+
     const programData = {
       name,
       description,
       duration,
-      daysPerWeek: workoutDays.length,
+      daysPerWeek: Math.max(0, ...days.map((d) => d.dayNumber || 0)),
       goal,
-      workoutDays,
+      workoutDays: days,
     };
 
     if (existingProgram) {
@@ -517,7 +735,12 @@ export default function ProgramBuilder() {
               id="program-duration"
               type="number"
               value={duration}
-              onChange={(e) => { setDuration(Math.min(52, Math.max(1, parseInt(e.target.value) || 1))); markDirty(); }}
+              onChange={(e) => {
+                const weeks = Math.min(52, Math.max(1, parseInt(e.target.value) || 1));
+                setDuration(weeks);
+                setSelectedWeek((week) => Math.min(week, Math.max(weeks, getAuthoredWeeks(workoutDays))));
+                markDirty();
+              }}
               min={1}
               max={52}
               className="w-full px-4 py-3 bg-gray-800/50 border border-gray-700 rounded-xl focus:outline-none focus:border-primary-500 transition-colors"
@@ -583,23 +806,73 @@ export default function ProgramBuilder() {
       <div className="glass rounded-2xl p-6">
         <div className="flex items-center justify-between mb-4">
           <h2 className="text-lg font-semibold">Workout Days</h2>
-          <button
-            onClick={addWorkoutDay}
-            className="flex items-center gap-2 px-3 py-2 bg-primary-500/20 text-primary-400 rounded-lg hover:bg-primary-500/30 transition-colors"
-          >
-            <Plus className="w-4 h-4" />
-            Add Day
-          </button>
+          <div className="flex gap-2">
+            {selectedWeek < weekCount && weekDays.length > 0 && (
+              <button
+                onClick={() => copyWeekTo(selectedWeek, selectedWeek + 1)}
+                className="flex items-center gap-2 px-3 py-2 bg-gray-700/50 text-gray-300 rounded-lg hover:bg-gray-700 transition-colors"
+              >
+                <Copy className="w-4 h-4" />
+                <span className="hidden sm:inline">Copy to Week {selectedWeek + 1}</span>
+              </button>
+            )}
+            <button
+              onClick={addWorkoutDay}
+              className="flex items-center gap-2 px-3 py-2 bg-primary-500/20 text-primary-400 rounded-lg hover:bg-primary-500/30 transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              Add Day
+            </button>
+          </div>
         </div>
 
-        {workoutDays.length === 0 ? (
+        {/* Week Selector */}
+        {weekCount > 1 && (
+          <div className="flex gap-2 overflow-x-auto pb-2 mb-4" role="tablist" aria-label="Program week">
+            {Array.from({ length: weekCount }, (_, i) => i + 1).map((week) => (
+              <button
+                key={week}
+                role="tab"
+                aria-selected={selectedWeek === week}
+                onClick={() => setSelectedWeek(week)}
+                className={`px-3 py-1.5 rounded-lg text-sm whitespace-nowrap transition-colors ${
+                  selectedWeek === week
+                    ? 'bg-primary-500/20 text-primary-400'
+                    : getDaysForWeek(workoutDays, week).length > 0
+                    ? 'bg-gray-800/50 text-gray-300 hover:bg-gray-800'
+                    : 'bg-gray-800/30 text-gray-500 hover:bg-gray-800'
+                } ${week > duration ? 'line-through' : ''}`}
+              >
+                Week {week}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {weekDays.length === 0 ? (
           <div className="text-center py-8 text-gray-400">
-            <p>No workout days added yet.</p>
-            <p className="text-sm">Click "Add Day" to start building your program.</p>
+            {repeatedWeek ? (
+              <>
+                <p>Week {selectedWeek} repeats Week {repeatedWeek}.</p>
+                <p className="text-sm mb-4">Copy it to give this week its own prescriptions, or add days from scratch.</p>
+                <button
+                  onClick={() => copyWeekTo(repeatedWeek, selectedWeek)}
+                  className="inline-flex items-center gap-2 px-4 py-2 bg-primary-500/20 text-primary-400 rounded-lg hover:bg-primary-500/30 transition-colors"
+                >
+                  <Copy className="w-4 h-4" />
+                  Copy Week {repeatedWeek}
+                </button>
+              </>
+            ) : (
+              <>
+                <p>No workout days added yet.</p>
+                <p className="text-sm">Click "Add Day" to start building your program.</p>
+              </>
+            )}
           </div>
         ) : (
           <div className="space-y-3">
-            {workoutDays.map((day) => (
+            {weekDays.map((day) => (
               <div
                 key={day.id}
                 className="bg-gray-800/30 rounded-xl border border-gray-700/50 overflow-hidden"
@@ -685,147 +958,375 @@ export default function ProgramBuilder() {
                   <div className="p-4 pt-0 border-t border-gray-700/50">
                     {/* Exercises */}
                     <div className="space-y-3">
-                      {day.exercises.map((exercise, idx) => (
-                        <div
-                          key={exercise.id}
-                          className="p-3 bg-gray-800/50 rounded-lg space-y-2"
-                        >
-                          {/* Row 1: Name, Sets, Reps, Weight, Actions */}
-                          <div className="flex items-center gap-3">
-                            <span className="text-sm text-gray-500 w-6">
-                              {idx + 1}.
-                            </span>
-                            <div className="flex-1 grid grid-cols-2 md:grid-cols-4 gap-2">
-                              <input
-                                type="text"
-                                value={exercise.exerciseName}
-                                onChange={(e) =>
-                                  updateExercise(day.id, exercise.id, {
-                                    exerciseName: e.target.value,
-                                  })
-                                }
-                                placeholder="Exercise name"
-                                className="col-span-2 md:col-span-1 px-3 py-2 bg-gray-700/50 rounded-lg text-sm focus:outline-none focus-visible:ring-1 focus-visible:ring-primary-500"
-                                list={`exercises-${day.id}`}
-                                aria-label="Exercise name"
-                              />
-                              <datalist id={`exercises-${day.id}`}>
-                                {MUSCLE_GROUPS.flatMap((g) => g.exercises).map(
-                                  (ex) => (
-                                    <option key={ex} value={ex} />
-                                  )
-                                )}
-                              </datalist>
-                              <div className="flex items-center gap-1">
-                                <input
-                                  type="number"
-                                  value={exercise.setNumber}
+                      {day.exercises.map((exercise, idx) => {
+                        const group = findGroup(day.groups, exercise.groupId);
+                        const metric = getSetMetric(exerciseLibrary, exercise);
+                        const isFirstInGroup =
+                          group && day.exercises.findIndex((e) => e.groupId === group.id) === idx;
+                        const next = day.exercises[idx + 1];
+                        const canGroupWithNext =
+                          next && !(exercise.groupId && next.groupId === exercise.groupId);
+                        return (
+                          <Fragment key={exercise.id}>
+                            {group && isFirstInGroup && (
+                              <div className="flex flex-wrap items-center gap-2 px-3 py-2 bg-accent-500/10 rounded-lg">
+                                <span className="text-sm font-semibold text-accent-400 w-6">{group.label}</span>
+                                <select
+                                  value={group.type}
                                   onChange={(e) =>
-                                    updateExercise(day.id, exercise.id, {
-                                      setNumber: parseInt(e.target.value) || 1,
-                                    })
+                                    updateGroup(day.id, group.id, { type: e.target.value as ExerciseGroupType })
                                   }
-                                  min={1}
-                                  className="w-16 px-2 py-2 bg-gray-700/50 rounded-lg text-sm text-center focus:outline-none focus-visible:ring-1 focus-visible:ring-primary-500"
-                                  aria-label="Number of sets"
-                                />
-                                <span className="text-sm text-gray-500">sets</span>
-                              </div>
-                              <div className="flex items-center gap-1">
+                                  className="text-sm bg-gray-700 border-0 rounded-lg px-2 py-1 focus:outline-none"
+                                  aria-label="Group type"
+                                >
+                                  {Object.entries(GROUP_TYPE_LABELS).map(([value, label]) => (
+                                    <option key={value} value={value}>{label}</option>
+                                  ))}
+                                </select>
+                                <div className="flex items-center gap-1">
+                                  <input
+                                    type="number"
+                                    value={group.rounds}
+                                    onChange={(e) =>
+                                      updateGroup(day.id, group.id, { rounds: Math.max(1, parseInt(e.target.value) || 1) })
+                                    }
+                                    min={1}
+                                    className="w-14 px-2 py-1 bg-gray-700/50 rounded-lg text-sm text-center focus:outline-none focus-visible:ring-1 focus-visible:ring-primary-500"
+                                    aria-label="Rounds"
+                                  />
+                                  <span className="text-sm text-gray-500">rounds</span>
+                                </div>
                                 <input
                                   type="text"
-                                  value={exercise.reps || String(exercise.targetReps)}
+                                  value={group.rest || ''}
+                                  onChange={(e) => updateGroup(day.id, group.id, { rest: e.target.value })}
+                                  placeholder="Rest / round"
+                                  className="w-28 px-2 py-1 bg-gray-700/30 rounded-lg text-xs focus:outline-none focus-visible:ring-1 focus-visible:ring-primary-500 text-yellow-400 placeholder:text-gray-600"
+                                  aria-label="Rest after each round"
+                                />
+                                <button
+                                  onClick={() => ungroup(day.id, group.id)}
+                                  className="ml-auto flex items-center gap-1 px-2 py-1 text-xs text-gray-400 hover:text-white hover:bg-gray-700 rounded-lg transition-colors"
+                                >
+                                  <Unlink className="w-3 h-3" />
+                                  Ungroup
+                                </button>
+                              </div>
+                            )}
+                            <div
+                              className={`p-3 bg-gray-800/50 rounded-lg space-y-2 ${
+                                group ? 'border-l-2 border-accent-500/50' : ''
+                              }`}
+                            >
+                              {/* Row 1: Name, Sets, Reps, Weight, Actions */}
+                              <div className="flex items-center gap-3">
+                                <span className={`text-sm w-6 ${group ? 'text-accent-400 font-medium' : 'text-gray-500'}`}>
+                                  {group ? getMemberLabel(group, day.exercises, exercise) : `${idx + 1}.`}
+                                </span>
+                                <div className="flex-1 grid grid-cols-2 md:grid-cols-4 gap-2">
+                                  <input
+                                    type="text"
+                                    value={exercise.exerciseName}
+                                    onChange={(e) =>
+                                      updateExercise(day.id, exercise.id, {
+                                        exerciseName: e.target.value,
+                                      })
+                                    }
+                                    placeholder="Exercise name"
+                                    className="col-span-2 md:col-span-1 px-3 py-2 bg-gray-700/50 rounded-lg text-sm focus:outline-none focus-visible:ring-1 focus-visible:ring-primary-500"
+                                    list={`exercises-${day.id}`}
+                                    aria-label="Exercise name"
+                                  />
+                                  <datalist id={`exercises-${day.id}`}>
+                                    {exerciseLibrary.map((ex) => (
+                                      <option key={ex.id} value={ex.name} />
+                                    ))}
+                                  </datalist>
+                                  <div className="flex items-center gap-1">
+                                    <input
+                                      type="number"
+                                      value={exercise.setNumber}
+                                      onChange={(e) =>
+                                        updateExercise(day.id, exercise.id, {
+                                          setNumber: parseInt(e.target.value) || 1,
+                                        })
+                                      }
+                                      min={1}
+                                      disabled={!!group}
+                                      title={group ? 'Set by the group\'s rounds' : undefined}
+                                      className="w-16 px-2 py-2 bg-gray-700/50 rounded-lg text-sm text-center focus:outline-none focus-visible:ring-1 focus-visible:ring-primary-500 disabled:opacity-50"
+                                      aria-label="Number of sets"
+                                    />
+                                    <span className="text-sm text-gray-500">sets</span>
+                                  </div>
+                                  {isLoadMetric(metric) ? (
+                                    <>
+                                    <div className="flex items-center gap-1">
+                                      <input
+                                        type="text"
+                                        value={exercise.reps || String(exercise.targetReps)}
+                                        onChange={(e) => {
+                                          const val = e.target.value;
+                                          updateExercise(day.id, exercise.id, {
+                                            reps: val,
+                                            targetReps: parseInt(val) || exercise.targetReps,
+                                          });
+                                        }}
+                                        placeholder="8-10"
+                                        className="w-16 px-2 py-2 bg-gray-700/50 rounded-lg text-sm text-center focus:outline-none focus-visible:ring-1 focus-visible:ring-primary-500"
+                                        aria-label="Target reps"
+                                      />
+                                      <span className="text-sm text-gray-500">reps</span>
+                                    </div>
+                                    <div className="flex items-center gap-1">
+                                      <input
+                                        type="number"
+                                        value={exercise.targetWeight}
+                                        onChange={(e) =>
+                                          updateExercise(day.id, exercise.id, {
+                                            targetWeight: parseFloat(e.target.value) || 0,
+                                          })
+                                        }
+                                        min={0}
+                                        step="any"
+                                        title={resolvePercentTarget(exercise, exerciseLibrary, settings.loadIncrements)?.note}
+                                        className="w-20 px-2 py-2 bg-gray-700/50 rounded-lg text-sm text-center focus:outline-none focus-visible:ring-1 focus-visible:ring-primary-500"
+                                        aria-label="Target weight"
+                                      />
+                                      <span className="text-sm text-gray-500">
+                                        {metric === 'bodyweight' ? '+' : metric === 'assisted' ? '−' : ''}
+                                        {weightUnitLabel(exercise.unit || 'lb')}
+                                      </span>
+                                    </div>
+                                    </>
+                                  ) : (
+                                    <div className="flex items-center gap-1">
+                                      <input
+                                        type="number"
+                                        value={
+                                          (metric === 'duration'
+                                            ? exercise.targetDuration
+                                            : metric === 'distance'
+                                            ? exercise.targetDistance
+                                            : exercise.targetCalories) || 0
+                                        }
+                                        onChange={(e) => {
+                                          const value = parseInt(e.target.value) || 0;
+                                          updateExercise(
+                                            day.id,
+                                            exercise.id,
+                                            metric === 'duration'
+                                              ? { targetDuration: value }
+                                              : metric === 'distance'
+                                              ? { targetDistance: value }
+                                              : { targetCalories: value }
+                                          );
+                                        }}
+                                        min={0}
+                                        className="w-20 px-2 py-2 bg-gray-700/50 rounded-lg text-sm text-center focus:outline-none focus-visible:ring-1 focus-visible:ring-primary-500"
+                                        aria-label={`Target ${metric}`}
+                                      />
+                                      <span className="text-sm text-gray-500">
+                                        {metric === 'duration' ? 'sec' : metric === 'distance' ? 'm' : 'cal'}
+                                      </span>
+                                    </div>
+                                  )}
+                                </div>
+                                <div className="flex gap-1">
+                                  {canGroupWithNext && (
+                                    <button
+                                      onClick={() => groupWithNext(day.id, idx)}
+                                      className="p-2 text-gray-400 hover:text-accent-400 hover:bg-gray-700 rounded-lg transition-colors"
+                                      aria-label="Superset with next exercise"
+                                      title="Superset with next exercise"
+                                    >
+                                      <Link2 className="w-4 h-4" />
+                                    </button>
+                                  )}
+                                  <button
+                                    onClick={() => duplicateSet(day.id, exercise)}
+                                    className="p-2 text-gray-400 hover:text-white hover:bg-gray-700 rounded-lg transition-colors"
+                                    aria-label="Duplicate set"
+                                  >
+                                    <Plus className="w-4 h-4" />
+                                  </button>
+                                  <button
+                                    onClick={() => removeExercise(day.id, exercise.id)}
+                                    className="p-2 text-red-400 hover:bg-red-500/20 rounded-lg transition-colors"
+                                    aria-label="Remove exercise"
+                                  >
+                                    <Trash2 className="w-4 h-4" />
+                                  </button>
+                                </div>
+                              </div>
+                              {/* Row 2: Metric, Set type, Progression, Tempo, Intensity, Rest, Notes */}
+                              <div className="ml-9 grid grid-cols-2 md:grid-cols-7 gap-2">
+                                <select
+                                  value={metric}
+                                  onChange={(e) =>
+                                    updateExercise(day.id, exercise.id, { metric: e.target.value as SetMetric })
+                                  }
+                                  className="px-2 py-1.5 bg-gray-700/30 rounded-lg text-xs focus:outline-none focus-visible:ring-1 focus-visible:ring-primary-500 text-gray-400"
+                                  aria-label="What this exercise measures"
+                                >
+                                  {Object.entries(SET_METRIC_LABELS).map(([value, label]) => (
+                                    <option key={value} value={value}>{label}</option>
+                                  ))}
+                                </select>
+                                <select
+                                  value={exercise.setType || 'working'}
                                   onChange={(e) => {
-                                    const val = e.target.value;
+                                    const setType = e.target.value as SetType;
                                     updateExercise(day.id, exercise.id, {
-                                      reps: val,
-                                      targetReps: parseInt(val) || exercise.targetReps,
+                                      setType,
+                                      drops: setType === 'drop' ? exercise.drops || 1 : undefined,
                                     });
                                   }}
-                                  placeholder="8-10"
-                                  className="w-16 px-2 py-2 bg-gray-700/50 rounded-lg text-sm text-center focus:outline-none focus-visible:ring-1 focus-visible:ring-primary-500"
-                                  aria-label="Target reps"
-                                />
-                                <span className="text-sm text-gray-500">reps</span>
-                              </div>
-                              <div className="flex items-center gap-1">
-                                <input
-                                  type="number"
-                                  value={exercise.targetWeight}
+                                  className="px-2 py-1.5 bg-gray-700/30 rounded-lg text-xs focus:outline-none focus-visible:ring-1 focus-visible:ring-primary-500 text-accent-400"
+                                  aria-label="Set type"
+                                >
+                                  {Object.entries(SET_TYPE_LABELS).map(([value, label]) => (
+                                    <option key={value} value={value}>{label}</option>
+                                  ))}
+                                </select>
+                                <select
+                                  value={exercise.progression?.type || ''}
                                   onChange={(e) =>
                                     updateExercise(day.id, exercise.id, {
-                                      targetWeight: parseInt(e.target.value) || 0,
+                                      progression: e.target.value
+                                        ? defaultProgression(e.target.value as ProgressionType, exercise.unit || 'lb')
+                                        : undefined,
                                     })
                                   }
-                                  min={0}
-                                  className="w-20 px-2 py-2 bg-gray-700/50 rounded-lg text-sm text-center focus:outline-none focus-visible:ring-1 focus-visible:ring-primary-500"
-                                  aria-label="Target weight"
+                                  disabled={!isLoadMetric(metric)}
+                                  className="px-2 py-1.5 bg-gray-700/30 rounded-lg text-xs focus:outline-none focus-visible:ring-1 focus-visible:ring-primary-500 text-green-400 disabled:opacity-50"
+                                  aria-label="Load progression"
+                                >
+                                  <option value="">No progression</option>
+                                  {Object.entries(PROGRESSION_LABELS).map(([value, label]) => (
+                                    <option key={value} value={value}>{label}</option>
+                                  ))}
+                                </select>
+                                <input
+                                  type="text"
+                                  value={exercise.tempo || ''}
+                                  onChange={(e) =>
+                                    updateExercise(day.id, exercise.id, { tempo: e.target.value })
+                                  }
+                                  placeholder="Tempo (31X1)"
+                                  className="px-2 py-1.5 bg-gray-700/30 rounded-lg text-xs focus:outline-none focus-visible:ring-1 focus-visible:ring-primary-500 text-cyan-400 placeholder:text-gray-600"
+                                  aria-label="Tempo"
+                                />
+                                <input
+                                  type="text"
+                                  value={exercise.intensity || ''}
+                                  onChange={(e) =>
+                                    updateExercise(day.id, exercise.id, { intensity: e.target.value })
+                                  }
+                                  placeholder="Intensity (2 RIR)"
+                                  className="px-2 py-1.5 bg-gray-700/30 rounded-lg text-xs focus:outline-none focus-visible:ring-1 focus-visible:ring-primary-500 text-orange-400 placeholder:text-gray-600"
+                                  aria-label="Intensity"
+                                />
+                                <input
+                                  type="text"
+                                  value={exercise.rest || ''}
+                                  onChange={(e) =>
+                                    updateExercise(day.id, exercise.id, { rest: e.target.value })
+                                  }
+                                  placeholder="Rest (90 sec)"
+                                  className="px-2 py-1.5 bg-gray-700/30 rounded-lg text-xs focus:outline-none focus-visible:ring-1 focus-visible:ring-primary-500 text-yellow-400 placeholder:text-gray-600"
+                                  aria-label="Rest period"
+                                />
+                                <input
+                                  type="text"
+                                  value={exercise.notes || ''}
+                                  onChange={(e) =>
+                                    updateExercise(day.id, exercise.id, { notes: e.target.value })
+                                  }
+                                  placeholder="Notes"
+                                  className="px-2 py-1.5 bg-gray-700/30 rounded-lg text-xs focus:outline-none focus-visible:ring-1 focus-visible:ring-primary-500 text-gray-400 placeholder:text-gray-600"
+                                  aria-label="Exercise notes"
                                 />
-                                <span className="text-sm text-gray-500">lbs</span>
                               </div>
+                              {exercise.setType === 'drop' && isLoadMetric(metric) && (
+                                <div className="ml-9 flex flex-wrap items-center gap-3 text-xs text-gray-500">
+                                  <label className="flex items-center gap-1">
+                                    <input
+                                      type="number"
+                                      value={exercise.drops || 1}
+                                      onChange={(e) =>
+                                        updateExercise(day.id, exercise.id, {
+                                          drops: Math.min(5, Math.max(1, parseInt(e.target.value) || 1)),
+                                        })
+                                      }
+                                      min={1}
+                                      max={5}
+                                      className="w-14 px-2 py-1 bg-gray-700/30 rounded-lg text-center focus:outline-none focus-visible:ring-1 focus-visible:ring-primary-500"
+                                      aria-label="Drops per set"
+                                    />
+                                    {exercise.drops === 1 || !exercise.drops ? 'drop' : 'drops'} after each set,{' '}
+                                    {DROP_PERCENT}% lighter each time
+                                  </label>
+                                </div>
+                              )}
+                              {exercise.progression && isLoadMetric(metric) && (
+                                <div className="ml-9 flex flex-wrap items-center gap-3 text-xs text-gray-500">
+                                  <label className="flex items-center gap-1">
+                                    {exercise.progression.type === 'rpe' ? 'Round to' : 'Add'}
+                                    <input
+                                      type="number"
+                                      value={exercise.progression.increment}
+                                      onChange={(e) =>
+                                        updateExercise(day.id, exercise.id, {
+                                          progression: {
+                                            ...exercise.progression!,
+                                            increment: Math.max(0, parseFloat(e.target.value) || 0),
+                                          },
+                                        })
+                                      }
+                                      min={0}
+                                      step="any"
+                                      className="w-16 px-2 py-1 bg-gray-700/30 rounded-lg text-center focus:outline-none focus-visible:ring-1 focus-visible:ring-primary-500"
+                                      aria-label="Progression increment"
+                                    />
+                                    {weightUnitLabel(exercise.unit || 'lb')}
+                                  </label>
+                                  {exercise.progression.type === 'rpe' && (
+                                    <label className="flex items-center gap-1">
+                                      Target RPE
+                                      <input
+                                        type="number"
+                                        value={exercise.progression.targetRpe ?? ''}
+                                        onChange={(e) =>
+                                          updateExercise(day.id, exercise.id, {
+                                            progression: {
+                                              ...exercise.progression!,
+                                              targetRpe: parseFloat(e.target.value) || undefined,
+                                            },
+                                          })
+                                        }
+                                        min={5}
+                                        max={10}
+                                        step={0.5}
+                                        placeholder="8"
+                                        className="w-14 px-2 py-1 bg-gray-700/30 rounded-lg text-center focus:outline-none focus-visible:ring-1 focus-visible:ring-primary-500"
+                                        aria-label="Target RPE"
+                                      />
+                                    </label>
+                                  )}
+                                  <span>
+                                    {exercise.progression.type === 'linear'
+                                      ? 'after a session where every set hits its reps'
+                                      : exercise.progression.type === 'double'
+                                      ? `once every set reaches the top of ${exercise.reps || 'the rep range'}`
+                                      : 'load moves toward the target RPE from last session'}
+                                  </span>
+                                </div>
+                              )}
                             </div>
-                            <div className="flex gap-1">
-                              <button
-                                onClick={() => duplicateSet(day.id, exercise)}
-                                className="p-2 text-gray-400 hover:text-white hover:bg-gray-700 rounded-lg transition-colors"
-                                aria-label="Duplicate set"
-                              >
-                                <Plus className="w-4 h-4" />
-                              </button>
-                              <button
-                                onClick={() => removeExercise(day.id, exercise.id)}
-                                className="p-2 text-red-400 hover:bg-red-500/20 rounded-lg transition-colors"
-                                aria-label="Remove exercise"
-                              >
-                                <Trash2 className="w-4 h-4" />
-                              </button>
-                            </div>
-                          </div>
-                          {/* Row 2: Tempo, Intensity, Rest, Notes */}
-                          <div className="ml-9 grid grid-cols-2 md:grid-cols-4 gap-2">
-                            <input
-                              type="text"
-                              value={exercise.tempo || ''}
-                              onChange={(e) =>
-                                updateExercise(day.id, exercise.id, { tempo: e.target.value })
-                              }
-                              placeholder="Tempo (31X1)"
-                              className="px-2 py-1.5 bg-gray-700/30 rounded-lg text-xs focus:outline-none focus-visible:ring-1 focus-visible:ring-primary-500 text-cyan-400 placeholder:text-gray-600"
-                              aria-label="Tempo"
-                            />
-                            <input
-                              type="text"
-                              value={exercise.intensity || ''}
-                              onChange={(e) =>
-                                updateExercise(day.id, exercise.id, { intensity: e.target.value })
-                              }
-                              placeholder="Intensity (2 RIR)"
-                              className="px-2 py-1.5 bg-gray-700/30 rounded-lg text-xs focus:outline-none focus-visible:ring-1 focus-visible:ring-primary-500 text-orange-400 placeholder:text-gray-600"
-                              aria-label="Intensity"
-                            />
-                            <input
-                              type="text"
-                              value={exercise.rest || ''}
-                              onChange={(e) =>
-                                updateExercise(day.id, exercise.id, { rest: e.target.value })
-                              }
-                              placeholder="Rest (90 sec)"
-                              className="px-2 py-1.5 bg-gray-700/30 rounded-lg text-xs focus:outline-none focus-visible:ring-1 focus-visible:ring-primary-500 text-yellow-400 placeholder:text-gray-600"
-                              aria-label="Rest period"
-                            />
-                            <input
-                              type="text"
-                              value={exercise.notes || ''}
-                              onChange={(e) =>
-                                updateExercise(day.id, exercise.id, { notes: e.target.value })
-                              }
-                              placeholder="Notes"
-                              className="px-2 py-1.5 bg-gray-700/30 rounded-lg text-xs focus:outline-none focus-visible:ring-1 focus-visible:ring-primary-500 text-gray-400 placeholder:text-gray-600"
-                              aria-label="Exercise notes"
-                            />
-                          </div>
-                        </div>
-                      ))}
+                          </Fragment>
+                        );
+                      })}
                     </div>
 
                     <button
@@ -835,6 +1336,33 @@ export default function ProgramBuilder() {
                       <Plus className="w-4 h-4" />
                       Add Exercise
                     </button>
+
+                    {/* Conditioning blocks */}
+                    <div className="mt-4 space-y-3">
+                      {(day.conditioning || []).map((block) => (
+                        <ConditioningEditor
+                          key={block.id}
+                          block={block}
+                          onChange={(updates) => updateConditioning(day.id, block.id, updates)}
+                          onRemove={() => removeConditioning(day.id, block.id)}
+                        />
+                      ))}
+                      <div className="flex flex-wrap items-center gap-2 text-sm">
+                        <span className="flex items-center gap-1 text-gray-500">
+                          <Timer className="w-4 h-4" />
+                          Add Conditioning:
+                        </span>
+                        {(Object.keys(CONDITIONING_FORMAT_LABELS) as ConditioningFormat[]).map((format) => (
+                          <button
+                            key={format}
+                            onClick={() => addConditioning(day.id, format)}
+                            className="px-3 py-1 bg-gray-700/30 text-gray-400 rounded-lg hover:bg-gray-700/50 hover:text-white transition-colors"
+                          >
+                            {CONDITIONING_FORMAT_LABELS[format]}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
                   </div>
                 )}
               </div>
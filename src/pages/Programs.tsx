@@ -7,12 +7,30 @@ import {
   Calendar,
   Target,
   ChevronRight,
+  CalendarClock,
 } from 'lucide-react';
 import { useStore } from '../store/useStore';
 import { format, parseISO } from 'date-fns';
+import { getAdherence, getProgramPosition } from '../utils/programSchedule';
 
 export default function Programs() {
-  const { programs, activeProgram, setActiveProgram, deleteProgram } = useStore();
+  const {
+    programs,
+    activeProgram,
+    programSchedule,
+    workoutLogs,
+    setActiveProgram,
+    setProgramStartDate,
+    shiftSchedule,
+    deleteProgram,
+  } = useStore();
+
+  const position = activeProgram && programSchedule
+    ? getProgramPosition(activeProgram, programSchedule.startDate)
+    : null;
+  const adherence = activeProgram && programSchedule
+    ? getAdherence(activeProgram, programSchedule.startDate, workoutLogs)
+    : null;
 
   const goalLabels: Record<string, string> = {
     strength: 'Strength',
@@ -61,6 +79,17 @@ export default function Programs() {
               <p className="text-gray-400 text-sm mt-1">
                 {activeProgram.daysPerWeek} days/week • {activeProgram.duration} weeks
               </p>
+              {position && (
+                <p className="text-sm text-gray-300 mt-1">
+                  {!position.started
+                    ? `Starts ${format(parseISO(programSchedule!.startDate), 'MMM d, yyyy')}`
+                    : position.finished
+                    ? 'Complete'
+                    : `Week ${position.week} of ${position.totalWeeks}${
+                        position.dayNumber ? `, day ${position.dayNumber}` : ' • rest day'
+                      }`}
+                </p>
+              )}
             </div>
             <Link
               to="/tracker"
@@ -70,6 +99,57 @@ export default function Programs() {
               Start Workout
             </Link>
           </div>
+
+          {programSchedule && (
+            <div className="mt-4 pt-4 border-t border-gray-800 grid sm:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="program-start-date" className="block text-sm text-gray-400 mb-2">
+                  Start Date
+                </label>
+                <input
+                  id="program-start-date"
+                  type="date"
+                  value={programSchedule.startDate}
+                  onChange={(e) => e.target.value && setProgramStartDate(e.target.value)}
+                  className="w-full px-4 py-2 bg-gray-800/50 border border-gray-700 rounded-xl focus:outline-none focus:border-primary-500 transition-colors"
+                />
+                <div className="flex gap-2 mt-2">
+                  <button
+                    onClick={() => shiftSchedule(1)}
+                    className="flex items-center gap-1 px-3 py-1.5 text-sm bg-gray-800 text-gray-300 rounded-lg hover:bg-gray-700 transition-colors"
+                  >
+                    <CalendarClock className="w-4 h-4" />
+                    Push back 1 day
+                  </button>
+                  <button
+                    onClick={() => shiftSchedule(7)}
+                    className="px-3 py-1.5 text-sm bg-gray-800 text-gray-300 rounded-lg hover:bg-gray-700 transition-colors"
+                  >
+                    1 week
+                  </button>
+                </div>
+              </div>
+              {adherence && (
+                <div>
+                  <p className="text-sm text-gray-400 mb-2">Adherence</p>
+                  <p className="text-2xl font-bold">
+                    {adherence.planned > 0 ? `${adherence.rate}%` : '—'}
+                  </p>
+                  <p className="text-sm text-gray-500">
+                    {adherence.completed} of {adherence.planned} planned sessions completed
+                  </p>
+                  {adherence.missed.length > 0 && (
+                    <p className="text-xs text-orange-400 mt-1">
+                      Missed: {adherence.missed
+                        .slice(-3)
+                        .map((m) => `${m.day.name} (${format(m.date, 'MMM d')})`)
+                        .join(', ')}
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
         </div>
       )}
 
@@ -0,0 +1,429 @@
+import { useMemo, useState } from 'react';
+import { Scale, Trophy, Target, RefreshCw, X, Plus, Dumbbell } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
+import { useStore } from '../store/useStore';
+import type { E1rmFormula, GymProfile, WeightUnit } from '../types';
+import { weightUnitLabel } from '../types';
+import { E1RM_FORMULA_LABELS, formatRecordValue } from '../utils/personalRecords';
+import { findExerciseByName } from '../utils/exerciseLibrary';
+import { getActiveGymProfile } from '../utils/plates';
+
+const WEIGHT_UNITS: { value: WeightUnit; label: string; description: string }[] = [
+  { value: 'lb', label: 'Pounds (lb)', description: 'Plates in 45 / 25 / 10 / 5 / 2.5' },
+  { value: 'kg', label: 'Kilograms (kg)', description: 'Plates in 25 / 20 / 15 / 10 / 5 / 2.5 / 1.25' },
+];
+
+const E1RM_FORMULAS: { value: E1rmFormula; description: string }[] = [
+  { value: 'epley', description: 'weight × (1 + reps / 30)' },
+  { value: 'brzycki', description: 'weight × 36 / (37 − reps); a little more conservative at higher reps' },
+];
+
+export default function Settings() {
+  const {
+    settings,
+    updateSettings,
+    exerciseLibrary,
+    workoutLogs,
+    updateLibraryExercise,
+    updateTrainingMaxesFromE1rm,
+    getPersonalRecords,
+  } = useStore();
+  const [newMaxName, setNewMaxName] = useState('');
+  const [newMaxWeight, setNewMaxWeight] = useState('');
+
+  const withMaxes = exerciseLibrary
+    .filter((e) => e.trainingMax)
+    .sort((a, b) => a.name.localeCompare(b.name));
+  const e1rms = useMemo(
+    () => getPersonalRecords().filter((r) => r.category === 'e1rm'),
+    // Recomputed only when the inputs to the records change
+    [getPersonalRecords, workoutLogs, exerciseLibrary, settings]
+  );
+  const unitLabel = weightUnitLabel(settings.weightUnit);
+
+  const activeGym = getActiveGymProfile(settings);
+
+  const updateGym = (id: string, updates: Partial<GymProfile>) =>
+    updateSettings({
+      gymProfiles: settings.gymProfiles.map((g) => (g.id === id ? { ...g, ...updates } : g)),
+    });
+
+  const addGym = () => {
+    const unit = settings.weightUnit;
+    const gym: GymProfile = {
+      id: uuidv4(),
+      name: 'Home gym',
+      unit,
+      barWeight: unit === 'kg' ? 20 : 45,
+      plates: (unit === 'kg' ? [20, 10, 5, 2.5, 1.25] : [45, 25, 10, 5, 2.5]).map((weight) => ({ weight, count: 2 })),
+    };
+    updateSettings({ gymProfiles: [...settings.gymProfiles, gym], activeGymProfileId: gym.id });
+  };
+
+  const removeGym = (id: string) =>
+    updateSettings({
+      gymProfiles: settings.gymProfiles.filter((g) => g.id !== id),
+      activeGymProfileId: settings.activeGymProfileId === id ? undefined : settings.activeGymProfileId,
+    });
+
+  const addTrainingMax = () => {
+    const exercise = findExerciseByName(exerciseLibrary, newMaxName);
+    const weight = parseFloat(newMaxWeight);
+    if (!exercise || !(weight > 0)) return;
+    updateLibraryExercise(exercise.id, {
+      trainingMax: { weight, unit: settings.weightUnit, updatedAt: new Date().toISOString() },
+    });
+    setNewMaxName('');
+    setNewMaxWeight('');
+  };
+
+  return (
+    <div className="space-y-6 animate-fadeIn max-w-3xl">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl lg:text-3xl font-bold">Settings</h1>
+        <p className="text-gray-400 mt-1">Preferences used across programs, tracking and history</p>
+      </div>
+
+      {/* Units */}
+      <div className="glass rounded-2xl p-6">
+        <h2 className="text-lg font-semibold mb-1 flex items-center gap-2">
+          <Scale className="w-5 h-5 text-primary-400" />
+          Weight Unit
+        </h2>
+        <p className="text-sm text-gray-400 mb-4">
+          New sets are logged in this unit. Sets keep the unit they were logged in; totals and
+          PRs are converted for display.
+        </p>
+        <div className="grid sm:grid-cols-2 gap-3" role="radiogroup" aria-label="Weight unit">
+          {WEIGHT_UNITS.map((unit) => (
+            <button
+              key={unit.value}
+              role="radio"
+              aria-checked={settings.weightUnit === unit.value}
+              onClick={() => updateSettings({ weightUnit: unit.value })}
+              className={`p-4 rounded-xl text-left border transition-colors ${
+                settings.weightUnit === unit.value
+                  ? 'bg-primary-500/20 border-primary-500/50 text-white'
+                  : 'bg-gray-800/50 border-gray-700 text-gray-400 hover:bg-gray-800'
+              }`}
+            >
+              <p className="font-medium">{unit.label}</p>
+              <p className="text-xs text-gray-500 mt-1">{unit.description}</p>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Estimated 1RM */}
+      <div className="glass rounded-2xl p-6">
+        <h2 className="text-lg font-semibold mb-1 flex items-center gap-2">
+          <Trophy className="w-5 h-5 text-yellow-400" />
+          Estimated 1RM Formula
+        </h2>
+        <p className="text-sm text-gray-400 mb-4">
+          Used for estimated 1RM PRs and charts. Sets above 15 reps aren't used for estimates.
+        </p>
+        <div className="grid sm:grid-cols-2 gap-3" role="radiogroup" aria-label="Estimated 1RM formula">
+          {E1RM_FORMULAS.map((formula) => (
+            <button
+              key={formula.value}
+              role="radio"
+              aria-checked={settings.e1rmFormula === formula.value}
+              onClick={() => updateSettings({ e1rmFormula: formula.value })}
+              className={`p-4 rounded-xl text-left border transition-colors ${
+                settings.e1rmFormula === formula.value
+                  ? 'bg-primary-500/20 border-primary-500/50 text-white'
+                  : 'bg-gray-800/50 border-gray-700 text-gray-400 hover:bg-gray-800'
+              }`}
+            >
+              <p className="font-medium">{E1RM_FORMULA_LABELS[formula.value]}</p>
+              <p className="text-xs text-gray-500 mt-1">{formula.description}</p>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Training maxes */}
+      <div className="glass rounded-2xl p-6">
+        <div className="flex items-start justify-between gap-4 mb-1">
+          <h2 className="text-lg font-semibold flex items-center gap-2">
+            <Target className="w-5 h-5 text-orange-400" />
+            Training Maxes
+          </h2>
+          {withMaxes.length > 0 && (
+            <button
+              onClick={() => updateTrainingMaxesFromE1rm(withMaxes.map((e) => e.id))}
+              className="flex items-center gap-1 text-sm px-3 py-1.5 bg-gray-800 text-gray-300 rounded-lg hover:bg-gray-700 transition-colors"
+            >
+              <RefreshCw className="w-4 h-4" />
+              All from e1RM
+            </button>
+          )}
+        </div>
+        <p className="text-sm text-gray-400 mb-4">
+          Percentage intensities like "85%" become target weights from these when you build a program
+          or start a workout.
+        </p>
+
+        <div className="flex flex-wrap gap-4 mb-4 text-sm text-gray-400">
+          <label className="flex items-center gap-2">
+            Training max =
+            <input
+              type="number"
+              value={settings.trainingMaxPercent}
+              onChange={(e) =>
+                updateSettings({ trainingMaxPercent: Math.min(100, Math.max(50, parseInt(e.target.value) || 90)) })
+              }
+              min={50}
+              max={100}
+              className="w-16 px-2 py-1.5 bg-gray-800/50 rounded-lg text-center focus:outline-none focus-visible:ring-1 focus-visible:ring-primary-500"
+              aria-label="Training max percentage of estimated 1RM"
+            />
+            % of e1RM
+          </label>
+          {(['lb', 'kg'] as WeightUnit[]).map((unit) => (
+            <label key={unit} className="flex items-center gap-2">
+              Round to
+              <input
+                type="number"
+                step="any"
+                value={settings.loadIncrements[unit]}
+                onChange={(e) =>
+                  updateSettings({
+                    loadIncrements: { ...settings.loadIncrements, [unit]: Math.max(0, parseFloat(e.target.value) || 0) },
+                  })
+                }
+                min={0}
+                className="w-16 px-2 py-1.5 bg-gray-800/50 rounded-lg text-center focus:outline-none focus-visible:ring-1 focus-visible:ring-primary-500"
+                aria-label={`Load increment in ${unit}`}
+              />
+              {weightUnitLabel(unit)}
+            </label>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          {withMaxes.map((exercise) => {
+            const trainingMax = exercise.trainingMax!;
+            const e1rm = e1rms.find((r) => r.exerciseId === exercise.id);
+            return (
+              <div key={exercise.id} className="flex flex-wrap items-center gap-3 p-3 bg-gray-800/50 rounded-lg">
+                <span className="flex-1 min-w-[8rem] font-medium">{exercise.name}</span>
+                <label className="flex items-center gap-1 text-sm text-gray-500">
+                  <input
+                    type="number"
+                    step="any"
+                    value={trainingMax.weight}
+                    onChange={(e) =>
+                      updateLibraryExercise(exercise.id, {
+                        trainingMax: {
+                          ...trainingMax,
+                          weight: parseFloat(e.target.value) || 0,
+                          updatedAt: new Date().toISOString(),
+                        },
+                      })
+                    }
+                    min={0}
+                    className="w-20 px-2 py-1.5 bg-gray-800/50 rounded-lg text-center text-white focus:outline-none focus-visible:ring-1 focus-visible:ring-primary-500"
+                    aria-label={`${exercise.name} training max`}
+                  />
+                  {weightUnitLabel(trainingMax.unit)}
+                </label>
+                {e1rm && (
+                  <button
+                    onClick={() => updateTrainingMaxesFromE1rm([exercise.id])}
+                    className="flex items-center gap-1 text-xs px-2 py-1 text-primary-400 hover:bg-primary-500/20 rounded-lg transition-colors"
+                    title={`${settings.trainingMaxPercent}% of your estimated 1RM`}
+                  >
+                    <RefreshCw className="w-3 h-3" />
+                    e1RM {formatRecordValue(e1rm)}
+                  </button>
+                )}
+                <button
+                  onClick={() => updateLibraryExercise(exercise.id, { trainingMax: undefined })}
+                  className="p-1.5 text-red-400 hover:bg-red-500/20 rounded-lg transition-colors"
+                  aria-label={`Remove ${exercise.name} training max`}
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 mt-3">
+          <input
+            type="text"
+            value={newMaxName}
+            onChange={(e) => setNewMaxName(e.target.value)}
+            placeholder="Exercise"
+            list="training-max-exercises"
+            className="flex-1 min-w-[10rem] px-3 py-2 bg-gray-800/50 rounded-lg text-sm focus:outline-none focus-visible:ring-1 focus-visible:ring-primary-500"
+            aria-label="Exercise for new training max"
+          />
+          <datalist id="training-max-exercises">
+            {exerciseLibrary.map((ex) => (
+              <option key={ex.id} value={ex.name} />
+            ))}
+          </datalist>
+          <input
+            type="number"
+            step="any"
+            value={newMaxWeight}
+            onChange={(e) => setNewMaxWeight(e.target.value)}
+            placeholder={unitLabel}
+            min={0}
+            className="w-24 px-3 py-2 bg-gray-800/50 rounded-lg text-sm text-center focus:outline-none focus-visible:ring-1 focus-visible:ring-primary-500"
+            aria-label="Training max weight"
+          />
+          <button
+            onClick={addTrainingMax}
+            disabled={!findExerciseByName(exerciseLibrary, newMaxName) || !(parseFloat(newMaxWeight) > 0)}
+            className="flex items-center gap-1 px-3 py-2 bg-primary-500/20 text-primary-400 rounded-lg text-sm hover:bg-primary-500/30 transition-colors disabled:opacity-50"
+          >
+            <Plus className="w-4 h-4" />
+            Add
+          </button>
+        </div>
+      </div>
+
+      {/* Gym profiles */}
+      <div className="glass rounded-2xl p-6">
+        <div className="flex items-start justify-between gap-4 mb-1">
+          <h2 className="text-lg font-semibold flex items-center gap-2">
+            <Dumbbell className="w-5 h-5 text-primary-400" />
+            Gym Profiles
+          </h2>
+          <button
+            onClick={addGym}
+            className="flex items-center gap-1 text-sm px-3 py-1.5 bg-gray-800 text-gray-300 rounded-lg hover:bg-gray-700 transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            Add gym
+          </button>
+        </div>
+        <p className="text-sm text-gray-400 mb-4">
+          The bar and plates you train with. Barbell sets show what to load per side, and warm-up sets
+          round to loads you can actually make.
+        </p>
+
+        {settings.gymProfiles.length > 0 && (
+          <label className="flex items-center gap-2 mb-4 text-sm text-gray-400">
+            Training at
+            <select
+              value={activeGym?.id || ''}
+              onChange={(e) => updateSettings({ activeGymProfileId: e.target.value })}
+              className="px-3 py-1.5 bg-gray-800/50 rounded-lg text-white focus:outline-none focus-visible:ring-1 focus-visible:ring-primary-500"
+            >
+              {settings.gymProfiles.map((gym) => (
+                <option key={gym.id} value={gym.id}>
+                  {gym.name}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+
+        <div className="space-y-3">
+          {settings.gymProfiles.map((gym) => (
+            <div
+              key={gym.id}
+              className={`p-4 rounded-lg bg-gray-800/50 ${gym.id === activeGym?.id ? 'ring-1 ring-primary-500/50' : ''}`}
+            >
+              <div className="flex flex-wrap items-center gap-3 mb-3">
+                <input
+                  type="text"
+                  value={gym.name}
+                  onChange={(e) => updateGym(gym.id, { name: e.target.value })}
+                  className="flex-1 min-w-[10rem] px-3 py-1.5 bg-gray-800/50 rounded-lg text-sm font-medium focus:outline-none focus-visible:ring-1 focus-visible:ring-primary-500"
+                  aria-label="Gym name"
+                />
+                <select
+                  value={gym.unit}
+                  onChange={(e) => updateGym(gym.id, { unit: e.target.value as WeightUnit })}
+                  className="px-2 py-1.5 bg-gray-800/50 rounded-lg text-sm focus:outline-none focus-visible:ring-1 focus-visible:ring-primary-500"
+                  aria-label={`${gym.name} unit`}
+                >
+                  <option value="lb">lb</option>
+                  <option value="kg">kg</option>
+                </select>
+                <label className="flex items-center gap-1 text-sm text-gray-500">
+                  Bar
+                  <input
+                    type="number"
+                    step="any"
+                    value={gym.barWeight}
+                    onChange={(e) => updateGym(gym.id, { barWeight: Math.max(0, parseFloat(e.target.value) || 0) })}
+                    min={0}
+                    className="w-16 px-2 py-1.5 bg-gray-800/50 rounded-lg text-center text-white focus:outline-none focus-visible:ring-1 focus-visible:ring-primary-500"
+                    aria-label={`${gym.name} bar weight`}
+                  />
+                  {weightUnitLabel(gym.unit)}
+                </label>
+                <button
+                  onClick={() => removeGym(gym.id)}
+                  className="p-1.5 text-red-400 hover:bg-red-500/20 rounded-lg transition-colors"
+                  aria-label={`Remove ${gym.name}`}
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-2">
+                {gym.plates.map((plate, i) => (
+                  <div key={i} className="flex items-center gap-1 px-2 py-1 bg-gray-700/30 rounded-lg text-xs text-gray-400">
+                    <input
+                      type="number"
+                      step="any"
+                      value={plate.weight}
+                      onChange={(e) =>
+                        updateGym(gym.id, {
+                          plates: gym.plates.map((p, j) =>
+                            j === i ? { ...p, weight: Math.max(0, parseFloat(e.target.value) || 0) } : p
+                          ),
+                        })
+                      }
+                      min={0}
+                      className="w-14 px-1 py-0.5 bg-transparent text-center text-white focus:outline-none"
+                      aria-label="Plate weight"
+                    />
+                    ×
+                    <input
+                      type="number"
+                      value={plate.count}
+                      onChange={(e) =>
+                        updateGym(gym.id, {
+                          plates: gym.plates.map((p, j) =>
+                            j === i ? { ...p, count: Math.max(0, parseInt(e.target.value) || 0) } : p
+                          ),
+                        })
+                      }
+                      min={0}
+                      className="w-10 px-1 py-0.5 bg-transparent text-center text-white focus:outline-none"
+                      aria-label="Plates owned"
+                    />
+                    <button
+                      onClick={() => updateGym(gym.id, { plates: gym.plates.filter((_, j) => j !== i) })}
+                      className="text-gray-500 hover:text-red-400 transition-colors"
+                      aria-label="Remove plate"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </div>
+                ))}
+                <button
+                  onClick={() => updateGym(gym.id, { plates: [...gym.plates, { weight: 0, count: 2 }] })}
+                  className="flex items-center gap-1 px-2 py-1 text-xs text-primary-400 hover:bg-primary-500/20 rounded-lg transition-colors"
+                >
+                  <Plus className="w-3 h-3" />
+                  Plate
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import {
   Play,
@@ -10,16 +10,60 @@ import {
   Clock,
   X,
   Save,
+  Timer,
+  Trophy,
+  Repeat,
+  Gauge,
+  Activity,
+  Volume2,
+  VolumeX,
+  ArrowLeftRight,
+  CalendarPlus,
 } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
 import { v4 as uuidv4 } from 'uuid';
 import { useStore } from '../store/useStore';
-import type { WorkoutSet } from '../types';
-import { MUSCLE_GROUPS, calcVolume } from '../types';
+import type {
+  ConditioningResult,
+  ConditioningScore,
+  Exercise,
+  ExerciseGroup,
+  PersonalRecord,
+  SetMetric,
+  SetType,
+  WorkoutSet,
+} from '../types';
+import { calcVolume, convertWeight, weightUnitLabel } from '../types';
+import { findExerciseById, findExerciseByName, getAlternatives, getSetMetric } from '../utils/exerciseLibrary';
+import { SET_METRIC_LABELS, formatSetResult, isLoadMetric, parseDuration } from '../utils/setMetrics';
+import { getProgramPosition, getScheduledDays } from '../utils/programSchedule';
+import { GROUP_TYPE_LABELS, expandDaySets, findGroup, getMemberLabel } from '../utils/exerciseGroups';
+import { describeBlock, describeMovement, formatClock, formatScore, getClockState } from '../utils/conditioning';
+import { detectVolumeRecords, formatRecordValue, recordLabel } from '../utils/personalRecords';
+import { getExercisePosition, getPreviousPerformance } from '../utils/previousPerformance';
+import { suggestLoadAdjustment, type LoadSuggestion } from '../utils/progression';
+import { resolvePercentTarget, roundToIncrement } from '../utils/trainingMax';
+import { getRepDuration, getTempoPosition, parseTempo } from '../utils/tempo';
+import { playBeep } from '../utils/audio';
+import { parseRestRange } from '../utils/restTimer';
+import { requestNotificationPermission } from '../utils/notifications';
+import { useRestRemaining } from '../hooks/useRestRemaining';
+import { getActiveGymProfile, getPlateBreakdown, isBarbellExercise } from '../utils/plates';
+import { generateWarmupSets } from '../utils/warmups';
+import { getActiveSeconds, getExerciseTimes, isWorkoutPaused } from '../utils/workoutTime';
+import { SET_TYPE_LABELS, createDropSet, hasSegments, parseSegments } from '../utils/setTypes';
+
+const inputClass =
+  'w-full px-2 py-2 bg-gray-800/50 rounded-lg text-sm text-center focus:outline-none focus-visible:ring-1 focus-visible:ring-primary-500';
 
 export default function Tracker() {
   const navigate = useNavigate();
   const {
+    settings,
+    exerciseLibrary,
+    workoutLogs,
     activeProgram,
+    programSchedule,
     currentWorkout,
     startWorkout,
     updateCurrentWorkout,
@@ -27,27 +71,38 @@ export default function Tracker() {
     uncompleteSet,
     finishWorkout,
     cancelWorkout,
+    restTimer,
+    startRestTimer,
+    extendRestTimer,
+    stopRestTimer,
+    pauseWorkout,
+    resumeWorkout,
   } = useStore();
 
   const [elapsedTime, setElapsedTime] = useState(0);
   const [showFinishModal, setShowFinishModal] = useState(false);
   const [notes, setNotes] = useState('');
   const [rating, setRating] = useState(0);
-  const [restTimer, setRestTimer] = useState(0);
-  const [restTimerActive, setRestTimerActive] = useState(false);
   const [restDuration, setRestDuration] = useState(90);
+  const restRemaining = useRestRemaining();
+  const [celebration, setCelebration] = useState<PersonalRecord[]>([]);
+  const [suggestion, setSuggestion] = useState<LoadSuggestion | null>(null);
+  const seenRecords = useRef(currentWorkout?.personalRecords?.length || 0);
+
+  const paused = !!currentWorkout && isWorkoutPaused(currentWorkout);
 
-  // Timer effect
+  // Timer effect: active time only, so it stands still while paused
   useEffect(() => {
     if (!currentWorkout) return;
 
-    const startTime = new Date(currentWorkout.date).getTime();
+    setElapsedTime(getActiveSeconds(currentWorkout));
+    if (paused) return;
     const interval = setInterval(() => {
-      setElapsedTime(Math.floor((Date.now() - startTime) / 1000));
+      setElapsedTime(getActiveSeconds(currentWorkout));
     }, 1000);
 
     return () => clearInterval(interval);
-  }, [currentWorkout]);
+  }, [currentWorkout, paused]);
 
   // Prevent accidental data loss during active workout
   useEffect(() => {
@@ -61,46 +116,28 @@ export default function Tracker() {
     return () => window.removeEventListener('beforeunload', handleBeforeUnload);
   }, [currentWorkout]);
 
-  // Rest timer countdown
+  // Celebrate records as completeSet finds them
   useEffect(() => {
-    if (!restTimerActive || restTimer <= 0) {
-      if (restTimerActive && restTimer <= 0) {
-        setRestTimerActive(false);
-      }
-      return;
+    const records = currentWorkout?.personalRecords || [];
+    if (records.length > seenRecords.current) {
+      setCelebration(records.slice(seenRecords.current));
     }
+    seenRecords.current = records.length;
+  }, [currentWorkout?.personalRecords]);
 
-    const interval = setInterval(() => {
-      setRestTimer((prev) => {
-        if (prev <= 1) {
-          setRestTimerActive(false);
-          return 0;
-        }
-        return prev - 1;
-      });
-    }, 1000);
-
-    return () => clearInterval(interval);
-  }, [restTimerActive, restTimer]);
-
-  /** Parse rest string like "2-3 min", "90 sec", "90s", "2 min" to seconds */
-  const parseRestDuration = (restStr: string): number => {
-    const s = restStr.toLowerCase().trim();
-    // "90 sec" or "90s"
-    const secMatch = s.match(/^(\d+)\s*s(ec)?/);
-    if (secMatch) return parseInt(secMatch[1]);
-    // "2-3 min" — take the lower bound
-    const rangeMinMatch = s.match(/^(\d+)-\d+\s*min/);
-    if (rangeMinMatch) return parseInt(rangeMinMatch[1]) * 60;
-    // "2 min" or "3min"
-    const minMatch = s.match(/^(\d+)\s*min/);
-    if (minMatch) return parseInt(minMatch[1]) * 60;
-    return 0;
-  };
+  useEffect(() => {
+    if (celebration.length === 0) return;
+    const timeout = setTimeout(() => setCelebration([]), 4000);
+    return () => clearTimeout(timeout);
+  }, [celebration]);
 
-  const startRestTimer = (customDuration?: number) => {
-    setRestTimer(customDuration || restDuration);
-    setRestTimerActive(true);
+  /** Start rest after a set from its prescription; ranges run to the lower bound */
+  const startPrescribedRest = (rest: string | undefined, after: WorkoutSet) => {
+    const range = parseRestRange(rest);
+    if (!range || range.min <= 0) return;
+    const next = currentWorkout?.sets.find((s) => !s.completed && s.id !== after.id);
+    requestNotificationPermission();
+    startRestTimer(range.min, range.max, next?.exerciseName);
   };
 
   const formatTime = (seconds: number) => {
@@ -114,10 +151,11 @@ export default function Tracker() {
   };
 
   const handleStartWorkout = (workoutDayId?: string) => {
-    const sets = workoutDayId
-      ? activeProgram?.workoutDays.find((d) => d.id === workoutDayId)?.exercises || []
-      : [];
-    startWorkout(activeProgram?.id, workoutDayId, sets);
+    const day = workoutDayId ? activeProgram?.workoutDays.find((d) => d.id === workoutDayId) : undefined;
+    startWorkout(activeProgram?.id, workoutDayId, day ? expandDaySets(day) : [], {
+      groups: day?.groups,
+      conditioning: day?.conditioning,
+    });
   };
 
   const handleAddSet = () => {
@@ -125,11 +163,12 @@ export default function Tracker() {
 
     const newSet: WorkoutSet = {
       id: uuidv4(),
-      exerciseId: uuidv4(),
+      exerciseId: '',
       exerciseName: '',
       setNumber: 1,
       targetReps: 10,
       targetWeight: 0,
+      unit: settings.weightUnit,
       completed: false,
     };
 
@@ -141,18 +180,141 @@ export default function Tracker() {
   const handleUpdateSet = (setId: string, updates: Partial<WorkoutSet>) => {
     if (!currentWorkout) return;
 
+    // Typing a name re-points the set at the matching library entry (unresolved names
+    // become custom exercises when the workout is saved)
+    if (updates.exerciseName !== undefined) {
+      const match = findExerciseByName(exerciseLibrary, updates.exerciseName);
+      updates = {
+        ...updates,
+        exerciseId: match?.id || '',
+        metric: match?.metric || 'weight',
+      };
+    }
+
     updateCurrentWorkout({
       sets: currentWorkout.sets.map((s) =>
         s.id === setId ? { ...s, ...updates } : s
       ),
     });
+
+    // RPE is often logged after the set is ticked off
+    const updated = currentWorkout.sets.find((s) => s.id === setId);
+    if (updates.rpe !== undefined && updated?.completed) {
+      checkAutoregulation({ ...updated, ...updates });
+    }
+  };
+
+  /** Offer new loads for an exercise's remaining sets when a set's RPE misses its prescription */
+  const checkAutoregulation = (set: WorkoutSet) => {
+    if (!currentWorkout) return;
+    const unit = set.unit || 'lb';
+    const next = suggestLoadAdjustment(
+      set,
+      getSetMetric(exerciseLibrary, set),
+      currentWorkout.sets,
+      settings.loadIncrements[unit]
+    );
+    if (next) setSuggestion(next);
+  };
+
+  const acceptSuggestion = () => {
+    if (!currentWorkout || !suggestion) return;
+    updateCurrentWorkout({
+      sets: currentWorkout.sets.map((s) => {
+        if (!suggestion.setIds.includes(s.id) || s.completed) return s;
+        const unit = s.unit || 'lb';
+        return {
+          ...s,
+          targetWeight: roundToIncrement(
+            convertWeight(suggestion.targetWeight, suggestion.unit, unit),
+            settings.loadIncrements[unit]
+          ),
+          actualWeight: undefined,
+          adjustmentReason: suggestion.reason,
+        };
+      }),
+    });
+    setSuggestion(null);
+  };
+
+  /** Insert a warm-up ramp before the first working set of the set's exercise */
+  const handleAddWarmups = (set: WorkoutSet) => {
+    if (!currentWorkout) return;
+    const gym = isBarbellExercise(exerciseLibrary, set) ? getActiveGymProfile(settings) : undefined;
+    const warmups = generateWarmupSets(set, settings.loadIncrements[set.unit || 'lb'], gym);
+    if (warmups.length === 0) return;
+
+    const at = currentWorkout.sets.findIndex((s) => s.id === set.id);
+    updateCurrentWorkout({
+      sets: [...currentWorkout.sets.slice(0, at), ...warmups, ...currentWorkout.sets.slice(at)],
+    });
+  };
+
+  /**
+   * Move the exercise's remaining sets to `exercise`, keeping reps, tempo,
+   * intensity and rest. Loads come from a percentage of the new exercise's
+   * training max, else its last session.
+   */
+  const handleSwapExercise = (set: WorkoutSet, exercise: Exercise) => {
+    if (!currentWorkout) return;
+    const isSwapped = (s: WorkoutSet) =>
+      !s.completed &&
+      s.groupId === set.groupId &&
+      (s.exerciseId ? s.exerciseId === set.exerciseId : s.exerciseName === set.exerciseName);
+
+    updateCurrentWorkout({
+      sets: currentWorkout.sets.map((s) => {
+        if (!isSwapped(s)) return s;
+        const swapped: WorkoutSet = {
+          ...s,
+          exerciseId: exercise.id,
+          exerciseName: exercise.name,
+          metric: exercise.metric || 'weight',
+          swappedFrom: s.swappedFrom || { exerciseId: s.exerciseId, exerciseName: s.exerciseName },
+          actualWeight: undefined,
+          progressionNote: undefined,
+          adjustmentReason: undefined,
+        };
+        if (swapped.swappedFrom?.exerciseId === exercise.id) swapped.swappedFrom = undefined;
+
+        const unit = s.unit || 'lb';
+        const percent = resolvePercentTarget(swapped, exerciseLibrary, settings.loadIncrements);
+        const previous = getPreviousPerformance(
+          workoutLogs,
+          swapped,
+          getExercisePosition(currentWorkout.sets, s),
+          currentWorkout.workoutDayId
+        )?.set;
+        swapped.targetWeight = percent
+          ? percent.targetWeight
+          : previous?.actualWeight
+          ? roundToIncrement(convertWeight(previous.actualWeight, previous.unit || 'lb', unit), settings.loadIncrements[unit])
+          : 0;
+        return swapped;
+      }),
+    });
+  };
+
+  /** Add a drop after the last set of the drop set `set` belongs to */
+  const handleAddDrop = (set: WorkoutSet) => {
+    if (!currentWorkout) return;
+    const topId = set.parentSetId || set.id;
+    const chain = currentWorkout.sets.filter((s) => s.id === topId || s.parentSetId === topId);
+    const last = chain[chain.length - 1];
+    const drop = createDropSet(last, topId, settings.loadIncrements[last.unit || 'lb']);
+
+    const at = currentWorkout.sets.findIndex((s) => s.id === last.id) + 1;
+    updateCurrentWorkout({
+      sets: [...currentWorkout.sets.slice(0, at), drop, ...currentWorkout.sets.slice(at)],
+    });
   };
 
   const handleRemoveSet = (setId: string) => {
     if (!currentWorkout) return;
 
+    // A drop set's drops go with its top set
     updateCurrentWorkout({
-      sets: currentWorkout.sets.filter((s) => s.id !== setId),
+      sets: currentWorkout.sets.filter((s) => s.id !== setId && s.parentSetId !== setId),
     });
   };
 
@@ -164,16 +326,48 @@ export default function Tracker() {
         set.id,
         set.actualReps || set.targetReps,
         set.actualWeight || set.targetWeight,
-        set.rpe
+        set.rpe,
+        {
+          actualDuration: set.actualDuration ?? set.targetDuration,
+          actualDistance: set.actualDistance ?? set.targetDistance,
+          actualCalories: set.actualCalories ?? set.targetCalories,
+        }
       );
-      // Auto-start rest timer with prescribed duration
-      if (set.rest) {
-        const dur = parseRestDuration(set.rest);
-        if (dur > 0) startRestTimer(dur);
+      checkAutoregulation({
+        ...set,
+        actualReps: set.actualReps || set.targetReps,
+        actualWeight: set.actualWeight || set.targetWeight,
+        completed: true,
+      });
+      // Grouped exercises rest once per round, after the last exercise of the round
+      const group = findGroup(currentWorkout?.groups, set.groupId);
+      if (group) {
+        const roundDone = currentWorkout!.sets.every(
+          (s) => s.groupId !== group.id || s.setNumber !== set.setNumber || s.completed || s.id === set.id
+        );
+        if (roundDone) startPrescribedRest(group.rest || set.rest, set);
+        return;
       }
+      // Drops follow their top set without rest; rest starts after the last one
+      const topId = set.parentSetId || set.id;
+      const dropsLeft = currentWorkout?.sets.some(
+        (s) => s.parentSetId === topId && s.id !== set.id && !s.completed
+      );
+      if (dropsLeft) return;
+      const top = set.parentSetId ? currentWorkout?.sets.find((s) => s.id === set.parentSetId) : set;
+      // Auto-start rest timer with prescribed duration
+      startPrescribedRest(top?.rest ?? set.rest, set);
     }
   };
 
+  const handleUpdateConditioning = (blockId: string, updates: Pick<ConditioningResult, 'score' | 'clock'>) => {
+    if (!currentWorkout?.conditioning) return;
+
+    updateCurrentWorkout({
+      conditioning: currentWorkout.conditioning.map((b) => (b.id === blockId ? { ...b, ...updates } : b)),
+    });
+  };
+
   const handleFinish = () => {
     finishWorkout(notes, rating);
     setShowFinishModal(false);
@@ -188,6 +382,10 @@ export default function Tracker() {
 
   // If no workout is active, show start options
   if (!currentWorkout) {
+    const position = activeProgram && programSchedule
+      ? getProgramPosition(activeProgram, programSchedule.startDate)
+      : null;
+    const programWeek = position?.week || 1;
     return (
       <div className="space-y-6 animate-fadeIn">
         <div>
@@ -209,22 +407,39 @@ export default function Tracker() {
               <Play className="w-5 h-5" />
               Start Empty Workout
             </button>
+            <button
+              onClick={() => navigate('/history', { state: { logPast: true } })}
+              className="w-full flex items-center justify-center gap-2 mt-3 py-2 text-sm text-gray-400 hover:text-white hover:bg-gray-800 rounded-xl transition-colors"
+            >
+              <CalendarPlus className="w-4 h-4" />
+              Log a past workout
+            </button>
           </div>
 
           {/* From Program */}
           {activeProgram && (
             <div className="glass rounded-2xl p-6">
               <h2 className="text-lg font-semibold mb-2">From Program</h2>
-              <p className="text-sm text-primary-400 mb-4">{activeProgram.name}</p>
+              <p className="text-sm text-primary-400 mb-4">
+                {activeProgram.name}
+                {activeProgram.duration > 1 && ` · Week ${programWeek} of ${activeProgram.duration}`}
+              </p>
               <div className="space-y-2 max-h-64 overflow-y-auto">
-                {activeProgram.workoutDays.map((day) => (
+                {getScheduledDays(activeProgram.workoutDays, programWeek).map((day) => (
                   <button
                     key={day.id}
                     onClick={() => handleStartWorkout(day.id)}
                     className="w-full flex items-center justify-between p-3 bg-gray-800/50 rounded-xl hover:bg-gray-800 transition-colors"
                   >
                     <div className="text-left">
-                      <p className="font-medium">{day.name}</p>
+                      <p className="font-medium">
+                        {day.name}
+                        {position?.today?.id === day.id && (
+                          <span className="ml-2 text-xs px-2 py-0.5 bg-primary-500/20 text-primary-400 rounded-full">
+                            Today
+                          </span>
+                        )}
+                      </p>
                       <p className="text-sm text-gray-500">
                         {day.exercises.length} exercises
                       </p>
@@ -243,16 +458,41 @@ export default function Tracker() {
   // Active workout view
   const completedSets = currentWorkout.sets.filter((s) => s.completed).length;
   const totalSets = currentWorkout.sets.length;
-  const totalVolume = calcVolume(currentWorkout.sets);
+  const unitLabel = weightUnitLabel(settings.weightUnit);
+  const totalVolume = calcVolume(currentWorkout.sets, settings.weightUnit);
+  // Session volume can only be judged once the workout is done, so it's previewed here
+  const sessionRecords = showFinishModal
+    ? [
+        ...(currentWorkout.personalRecords || []),
+        ...detectVolumeRecords(
+          currentWorkout,
+          workoutLogs,
+          exerciseLibrary,
+          settings.weightUnit,
+          settings.e1rmFormula
+        ),
+      ]
+    : [];
+  const exerciseTimes = showFinishModal ? getExerciseTimes(currentWorkout) : [];
 
-  // Group sets by exercise name for visual grouping
-  const exerciseGroups: { name: string; sets: (WorkoutSet & { originalIndex: number })[] }[] = [];
+  // Group sets for display: supersets/circuits by their group, everything else
+  // by consecutive sets of the same exercise
+  const exerciseGroups: {
+    key: string;
+    name: string;
+    group?: ExerciseGroup;
+    sets: (WorkoutSet & { originalIndex: number })[];
+  }[] = [];
   currentWorkout.sets.forEach((set, idx) => {
-    const lastGroup = exerciseGroups[exerciseGroups.length - 1];
-    if (lastGroup && lastGroup.name === set.exerciseName && set.exerciseName !== '') {
-      lastGroup.sets.push({ ...set, originalIndex: idx });
+    const group = findGroup(currentWorkout.groups, set.groupId);
+    const key = group ? `group-${group.id}` : set.exerciseId || set.exerciseName;
+    const existing = group
+      ? exerciseGroups.find((g) => g.key === key)
+      : exerciseGroups[exerciseGroups.length - 1];
+    if (existing && existing.key === key && key !== '') {
+      existing.sets.push({ ...set, originalIndex: idx });
     } else {
-      exerciseGroups.push({ name: set.exerciseName, sets: [{ ...set, originalIndex: idx }] });
+      exerciseGroups.push({ key, name: set.exerciseName, group, sets: [{ ...set, originalIndex: idx }] });
     }
   });
 
@@ -263,17 +503,26 @@ export default function Tracker() {
         <div className="flex items-center justify-between">
           <div className="flex items-center gap-4">
             <div className="flex items-center gap-2">
-              <Clock className="w-5 h-5 text-primary-400" />
-              <span className="text-2xl font-mono font-bold">
+              <Clock className={`w-5 h-5 ${paused ? 'text-gray-500' : 'text-primary-400'}`} />
+              <span className={`text-2xl font-mono font-bold ${paused ? 'text-gray-500' : ''}`}>
                 {formatTime(elapsedTime)}
               </span>
+              {paused && <span className="text-xs px-2 py-0.5 bg-gray-700 text-gray-300 rounded-full">Paused</span>}
             </div>
             <div className="flex items-center gap-4 text-sm text-gray-400">
               <span>{completedSets}/{totalSets} sets</span>
-              <span className="hidden sm:inline">{totalVolume.toLocaleString()} lbs</span>
+              <span className="hidden sm:inline">{totalVolume.toLocaleString()} {unitLabel}</span>
             </div>
           </div>
           <div className="flex gap-2">
+            <button
+              onClick={paused ? resumeWorkout : pauseWorkout}
+              className="p-2 text-gray-400 hover:text-white hover:bg-gray-700 rounded-lg transition-colors"
+              aria-label={paused ? 'Resume workout' : 'Pause workout'}
+              title={paused ? 'Resume workout' : 'Pause workout'}
+            >
+              {paused ? <Play className="w-5 h-5" /> : <Pause className="w-5 h-5" />}
+            </button>
             <button
               onClick={handleCancel}
               className="p-2 text-red-400 hover:bg-red-500/20 rounded-lg transition-colors"
@@ -303,13 +552,26 @@ export default function Tracker() {
 
         {/* Rest Timer */}
         <div className="mt-3 flex items-center gap-3">
-          {restTimerActive ? (
+          {restTimer && restRemaining !== null ? (
             <div className="flex items-center gap-2">
-              <span className={`text-lg font-mono font-bold ${restTimer <= 10 ? 'text-red-400 animate-pulse' : 'text-yellow-400'}`}>
-                Rest: {Math.floor(restTimer / 60)}:{(restTimer % 60).toString().padStart(2, '0')}
+              <span
+                className={`text-lg font-mono font-bold ${
+                  restRemaining <= 10 ? 'text-red-400 animate-pulse' : 'text-yellow-400'
+                }`}
+              >
+                Rest: {formatClock(restRemaining)}
               </span>
+              {restTimer.maxDuration && (
+                <span className="text-xs text-gray-500">up to {formatClock(restTimer.maxDuration)}</span>
+              )}
+              <button
+                onClick={() => extendRestTimer(30)}
+                className="text-xs px-2 py-1 bg-gray-800 text-gray-400 rounded hover:bg-gray-700 transition-colors"
+              >
+                +30s
+              </button>
               <button
-                onClick={() => { setRestTimerActive(false); setRestTimer(0); }}
+                onClick={stopRestTimer}
                 className="text-xs px-2 py-1 bg-gray-800 text-gray-400 rounded hover:bg-gray-700 transition-colors"
               >
                 Skip
@@ -318,7 +580,10 @@ export default function Tracker() {
           ) : (
             <div className="flex items-center gap-2">
               <button
-                onClick={() => startRestTimer()}
+                onClick={() => {
+                  requestNotificationPermission();
+                  startRestTimer(restDuration);
+                }}
                 className="flex items-center gap-1 text-sm px-3 py-1 bg-yellow-500/20 text-yellow-400 rounded-lg hover:bg-yellow-500/30 transition-colors"
               >
                 <Pause className="w-3 h-3" />
@@ -342,36 +607,89 @@ export default function Tracker() {
         </div>
       </div>
 
+      {/* Autoregulation suggestion */}
+      {suggestion && (
+        <div className="glass rounded-xl p-4 border border-orange-500/30 flex flex-col sm:flex-row sm:items-center gap-3" role="status">
+          <Gauge className="w-5 h-5 text-orange-400 shrink-0" />
+          <div className="flex-1">
+            <p className="font-medium">
+              Use {suggestion.targetWeight} {weightUnitLabel(suggestion.unit)} for the remaining{' '}
+              {suggestion.setIds.length} {suggestion.exerciseName} set{suggestion.setIds.length > 1 ? 's' : ''}?
+            </p>
+            <p className="text-sm text-gray-400">{suggestion.reason}</p>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setSuggestion(null)}
+              className="px-3 py-1.5 text-sm bg-gray-800 text-gray-400 rounded-lg hover:bg-gray-700 transition-colors"
+            >
+              Dismiss
+            </button>
+            <button
+              onClick={acceptSuggestion}
+              className="px-3 py-1.5 text-sm bg-orange-500/20 text-orange-400 rounded-lg hover:bg-orange-500/30 transition-colors"
+            >
+              Accept
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Shared datalist for exercise autocomplete (rendered once) */}
       <datalist id="all-exercises">
-        {MUSCLE_GROUPS.flatMap((g) => g.exercises).map((ex) => (
-          <option key={ex} value={ex} />
+        {exerciseLibrary.map((ex) => (
+          <option key={ex.id} value={ex.name} />
         ))}
       </datalist>
 
       {/* Sets List - grouped by exercise */}
       <div className="space-y-4">
-        {exerciseGroups.map((group, groupIdx) => (
-          <div key={groupIdx} className="space-y-2">
-            {group.name && group.sets.length > 1 && (
-              <h3 className="text-sm font-medium text-gray-400 px-1">
-                {group.name} — {group.sets.filter(s => s.completed).length}/{group.sets.length} sets
-              </h3>
-            )}
-            {group.sets.map((set) => (
-              <SetCard
-                key={set.id}
-                set={set}
-                index={set.originalIndex}
-                onUpdate={(updates) => handleUpdateSet(set.id, updates)}
-                onComplete={() => handleCompleteSet(set)}
-                onRemove={() => handleRemoveSet(set.id)}
-              />
-            ))}
-          </div>
-        ))}
+        {exerciseGroups.map((group, groupIdx) =>
+          group.group ? (
+            <ExerciseGroupBlock
+              key={group.key}
+              group={group.group}
+              sets={group.sets}
+              allSets={currentWorkout.sets}
+              onUpdate={handleUpdateSet}
+              onComplete={handleCompleteSet}
+              onRemove={handleRemoveSet}
+              onSwap={handleSwapExercise}
+            />
+          ) : (
+            <div key={groupIdx} className="space-y-2">
+              {group.name && group.sets.length > 1 && (
+                <h3 className="text-sm font-medium text-gray-400 px-1">
+                  {group.name} — {group.sets.filter(s => s.completed).length}/{group.sets.length} sets
+                </h3>
+              )}
+              {group.sets.map((set) => (
+                <SetCard
+                  key={set.id}
+                  set={set}
+                  index={set.originalIndex}
+                  onUpdate={(updates) => handleUpdateSet(set.id, updates)}
+                  onComplete={() => handleCompleteSet(set)}
+                  onRemove={() => handleRemoveSet(set.id)}
+                  onAddWarmups={() => handleAddWarmups(set)}
+                  onAddDrop={() => handleAddDrop(set)}
+                  onSwap={(exercise) => handleSwapExercise(set, exercise)}
+                />
+              ))}
+            </div>
+          )
+        )}
       </div>
 
+      {/* Conditioning blocks */}
+      {currentWorkout.conditioning?.map((block) => (
+        <ConditioningCard
+          key={block.id}
+          block={block}
+          onUpdate={(updates) => handleUpdateConditioning(block.id, updates)}
+        />
+      ))}
+
       {/* Add Set Button */}
       <button
         onClick={handleAddSet}
@@ -381,6 +699,24 @@ export default function Tracker() {
         Add Set
       </button>
 
+      {/* PR celebration */}
+      {celebration.length > 0 && (
+        <div
+          className="fixed bottom-24 lg:bottom-8 left-1/2 -translate-x-1/2 z-40 glass rounded-xl px-4 py-3 border border-yellow-500/40 shadow-lg animate-fadeIn"
+          role="status"
+        >
+          <p className="flex items-center gap-2 font-semibold text-yellow-400">
+            <Trophy className="w-5 h-5" />
+            New PR!
+          </p>
+          {celebration.map((record, idx) => (
+            <p key={idx} className="text-sm text-gray-300 mt-1">
+              {record.exerciseName} · {recordLabel(record)} {formatRecordValue(record)}
+            </p>
+          ))}
+        </div>
+      )}
+
       {/* Finish Modal */}
       {showFinishModal && (
         <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
@@ -390,7 +726,7 @@ export default function Tracker() {
             {/* Workout Summary */}
             <div className="mb-4 p-3 bg-gray-800/50 rounded-xl text-sm">
               <div className="flex justify-between mb-1">
-                <span className="text-gray-400">Duration</span>
+                <span className="text-gray-400">Active Time</span>
                 <span>{formatTime(elapsedTime)}</span>
               </div>
               <div className="flex justify-between mb-1">
@@ -399,10 +735,45 @@ export default function Tracker() {
               </div>
               <div className="flex justify-between">
                 <span className="text-gray-400">Total Volume</span>
-                <span>{totalVolume.toLocaleString()} lbs</span>
+                <span>{totalVolume.toLocaleString()} {unitLabel}</span>
               </div>
+              {currentWorkout.conditioning?.map((block) => (
+                <div key={block.id} className="flex justify-between mt-1">
+                  <span className="text-gray-400">{block.name || describeBlock(block)}</span>
+                  <span>{block.score ? formatScore(block, block.score) : 'Not scored'}</span>
+                </div>
+              ))}
             </div>
 
+            {exerciseTimes.length > 0 && (
+              <div className="mb-4 p-3 bg-gray-800/50 rounded-xl text-sm">
+                <p className="text-gray-400 mb-1">Time per exercise</p>
+                {exerciseTimes.map((time) => (
+                  <div key={time.exerciseId || time.exerciseName} className="flex justify-between gap-2 mt-1">
+                    <span className="text-gray-400 truncate">{time.exerciseName}</span>
+                    <span>{formatTime(time.seconds)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {sessionRecords.length > 0 && (
+              <div className="mb-4 p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-xl text-sm">
+                <p className="flex items-center gap-2 font-medium text-yellow-400 mb-2">
+                  <Trophy className="w-4 h-4" />
+                  {sessionRecords.length} new PR{sessionRecords.length > 1 ? 's' : ''}
+                </p>
+                {sessionRecords.map((record, idx) => (
+                  <div key={idx} className="flex justify-between gap-2 mt-1">
+                    <span className="text-gray-400 truncate">
+                      {record.exerciseName} · {recordLabel(record)}
+                    </span>
+                    <span>{formatRecordValue(record)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
             <div className="space-y-4">
               <div>
                 <label className="block text-sm text-gray-400 mb-2">
@@ -460,27 +831,375 @@ export default function Tracker() {
   );
 }
 
+/** A conditioning block: running clock for its format plus the score inputs */
+function ConditioningCard({
+  block,
+  onUpdate,
+}: {
+  block: ConditioningResult;
+  onUpdate: (updates: Pick<ConditioningResult, 'score' | 'clock'>) => void;
+}) {
+  // The clock lives on the block, so it keeps running while the tracker is closed
+  const startedAt = block.clock?.startedAt ? new Date(block.clock.startedAt).getTime() : null;
+  const banked = block.clock?.banked || 0;
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (startedAt === null) return;
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [startedAt]);
+
+  const elapsed = banked + (startedAt !== null ? Math.floor((now - startedAt) / 1000) : 0);
+  const clock = getClockState(block, elapsed);
+  const running = startedAt !== null && clock.phase !== 'done';
+  const score = block.score || {};
+
+  const toggleClock = () => {
+    if (running) {
+      onUpdate({ clock: { banked: elapsed } });
+    } else {
+      setNow(Date.now());
+      onUpdate({ clock: { startedAt: new Date().toISOString(), banked } });
+    }
+  };
+
+  const resetClock = () => onUpdate({ clock: { banked: 0 } });
+
+  const update = (updates: Partial<ConditioningScore>) => onUpdate({ score: { ...score, ...updates } });
+
+  const numberInput = (label: string, field: 'rounds' | 'reps' | 'calories') => (
+    <div>
+      <label className="text-xs text-gray-500 block mb-1">{label}</label>
+      <input
+        type="number"
+        value={score[field] ?? ''}
+        onChange={(e) => update({ [field]: e.target.value === '' ? undefined : parseInt(e.target.value) || 0 })}
+        min={0}
+        className="w-full px-2 py-2 bg-gray-800/50 rounded-lg text-sm text-center focus:outline-none focus-visible:ring-1 focus-visible:ring-primary-500"
+        aria-label={label}
+      />
+    </div>
+  );
+
+  return (
+    <div className="glass rounded-xl p-4 border-l-2 border-orange-500/50 space-y-3">
+      <div className="flex items-center gap-2">
+        <Timer className="w-5 h-5 text-orange-400" />
+        <div className="flex-1">
+          <h3 className="font-medium">{block.name || describeBlock(block)}</h3>
+          <p className="text-xs text-orange-400">{describeBlock(block)}</p>
+        </div>
+      </div>
+
+      {block.movements.length > 0 && (
+        <ul className="text-sm text-gray-300 space-y-0.5 pl-1">
+          {block.movements.map((m) => (
+            <li key={m.id}>{describeMovement(m)}</li>
+          ))}
+        </ul>
+      )}
+      {block.notes && <p className="text-xs text-gray-500 italic">{block.notes}</p>}
+
+      {/* Clock */}
+      <div className="flex items-center justify-between p-3 bg-gray-800/50 rounded-xl">
+        <div>
+          <p
+            className={`text-3xl font-mono font-bold ${
+              clock.phase === 'rest' ? 'text-yellow-400' : clock.phase === 'done' ? 'text-green-400' : ''
+            }`}
+            aria-live="polite"
+          >
+            {formatClock(clock.display)}
+          </p>
+          <p className="text-xs text-gray-500">
+            {clock.phase === 'done'
+              ? 'Time!'
+              : clock.round
+              ? `${clock.phase === 'rest' ? 'Rest' : 'Work'} · Round ${clock.round}/${clock.totalRounds}`
+              : block.format === 'amrap'
+              ? 'Remaining'
+              : 'Elapsed'}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={toggleClock}
+            disabled={clock.phase === 'done'}
+            className="p-3 bg-primary-500/20 text-primary-400 rounded-xl hover:bg-primary-500/30 transition-colors disabled:opacity-50"
+            aria-label={running ? 'Pause clock' : 'Start clock'}
+          >
+            {running ? <Pause className="w-5 h-5" /> : <Play className="w-5 h-5" />}
+          </button>
+          <button
+            onClick={resetClock}
+            className="p-3 bg-gray-800 rounded-xl hover:bg-gray-700 transition-colors"
+            aria-label="Reset clock"
+          >
+            <RotateCcw className="w-5 h-5" />
+          </button>
+          {block.format === 'for-time' && (
+            <button
+              onClick={() => {
+                onUpdate({ score: { ...score, time: elapsed, capped: false }, clock: { banked: elapsed } });
+              }}
+              disabled={elapsed === 0}
+              className="px-3 bg-green-500/20 text-green-400 rounded-xl hover:bg-green-500/30 transition-colors text-sm disabled:opacity-50"
+            >
+              Done
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Score */}
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+        {block.format === 'amrap' && (
+          <>
+            {numberInput('Rounds', 'rounds')}
+            {numberInput('Extra Reps', 'reps')}
+          </>
+        )}
+        {block.format === 'for-time' && (
+          <>
+            <div>
+              <label className="text-xs text-gray-500 block mb-1">Time (min : sec)</label>
+              <div className="flex items-center gap-1">
+                <input
+                  type="number"
+                  value={score.time ? Math.floor(score.time / 60) : ''}
+                  onChange={(e) => update({ time: (parseInt(e.target.value) || 0) * 60 + ((score.time || 0) % 60), capped: false })}
+                  min={0}
+                  disabled={score.capped}
+                  className="w-full px-2 py-2 bg-gray-800/50 rounded-lg text-sm text-center focus:outline-none focus-visible:ring-1 focus-visible:ring-primary-500 disabled:opacity-50"
+                  aria-label="Finish time minutes"
+                />
+                <span className="text-xs text-gray-500">:</span>
+                <input
+                  type="number"
+                  value={score.time ? score.time % 60 : ''}
+                  onChange={(e) =>
+                    update({
+                      time: Math.floor((score.time || 0) / 60) * 60 + Math.min(parseInt(e.target.value) || 0, 59),
+                      capped: false,
+                    })
+                  }
+                  min={0}
+                  max={59}
+                  disabled={score.capped}
+                  className="w-full px-2 py-2 bg-gray-800/50 rounded-lg text-sm text-center focus:outline-none focus-visible:ring-1 focus-visible:ring-primary-500 disabled:opacity-50"
+                  aria-label="Finish time seconds"
+                />
+              </div>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-400 pt-5">
+              <input
+                type="checkbox"
+                checked={!!score.capped}
+                onChange={(e) => update({ capped: e.target.checked, time: e.target.checked ? undefined : score.time })}
+              />
+              Time capped
+            </label>
+            {score.capped && numberInput('Reps Done', 'reps')}
+          </>
+        )}
+        {(block.format === 'emom' || block.format === 'intervals') && (
+          <>
+            {numberInput('Rounds', 'rounds')}
+            {numberInput('Total Reps', 'reps')}
+          </>
+        )}
+        {numberInput('Calories', 'calories')}
+      </div>
+
+      {block.score && (
+        <p className="text-sm text-gray-400">
+          Score: <span className="text-white font-medium">{formatScore(block, block.score)}</span>
+        </p>
+      )}
+    </div>
+  );
+}
+
+/** A superset/circuit: its sets laid out round by round, with the current round highlighted */
+function ExerciseGroupBlock({
+  group,
+  sets,
+  allSets,
+  onUpdate,
+  onComplete,
+  onRemove,
+  onSwap,
+}: {
+  group: ExerciseGroup;
+  sets: (WorkoutSet & { originalIndex: number })[];
+  allSets: WorkoutSet[];
+  onUpdate: (setId: string, updates: Partial<WorkoutSet>) => void;
+  onComplete: (set: WorkoutSet) => void;
+  onRemove: (setId: string) => void;
+  onSwap: (set: WorkoutSet, exercise: Exercise) => void;
+}) {
+  const rounds = Array.from(new Set(sets.map((s) => s.setNumber))).sort((a, b) => a - b);
+  const currentRound = rounds.find((round) => sets.some((s) => s.setNumber === round && !s.completed));
+
+  return (
+    <div className="space-y-2 pl-3 border-l-2 border-accent-500/50">
+      <h3 className="text-sm font-medium text-gray-400 px-1 flex items-center gap-2">
+        <span className="text-accent-400 font-semibold">{group.label}</span>
+        {GROUP_TYPE_LABELS[group.type]}
+        <span className="text-gray-500">
+          — {currentRound ? `Round ${currentRound}/${rounds.length}` : 'Done'}
+          {group.rest && ` · Rest ${group.rest} between rounds`}
+        </span>
+      </h3>
+      {rounds.map((round) => (
+        <div
+          key={round}
+          className={`space-y-2 ${round === currentRound ? '' : 'opacity-70'}`}
+        >
+          <p className="text-xs text-gray-500 px-1">Round {round}</p>
+          {sets
+            .filter((s) => s.setNumber === round)
+            .map((set) => (
+              <SetCard
+                key={set.id}
+                set={set}
+                index={set.originalIndex}
+                label={getMemberLabel(group, allSets, set)}
+                onUpdate={(updates) => onUpdate(set.id, updates)}
+                onComplete={() => onComplete(set)}
+                onRemove={() => onRemove(set.id)}
+                onSwap={(exercise) => onSwap(set, exercise)}
+              />
+            ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
 function SetCard({
   set,
   index,
+  label,
   onUpdate,
   onComplete,
   onRemove,
+  onAddWarmups,
+  onAddDrop,
+  onSwap,
 }: {
   set: WorkoutSet;
   index: number;
+  label?: string; // Group position ("A1") shown instead of the set number
   onUpdate: (updates: Partial<WorkoutSet>) => void;
   onComplete: () => void;
   onRemove: () => void;
+  onAddWarmups?: () => void; // Offered on an exercise's first working set until it has warm-ups
+  onAddDrop?: () => void;    // Offered on the last set of a drop set
+  onSwap?: (exercise: Exercise) => void; // Swaps this and the exercise's other remaining sets
 }) {
+  const { exerciseLibrary, currentWorkout, workoutLogs, settings } = useStore();
+  const isWarmup = set.setType === 'warmup';
+  const isDrop = !!set.parentSetId;
+  const unit = set.unit || 'lb';
+  const metric = getSetMetric(exerciseLibrary, set);
+  const records = set.isPR ? (currentWorkout?.personalRecords || []).filter((r) => r.setId === set.id) : [];
+  const loadLabel = metric === 'assisted' ? 'Assistance' : metric === 'bodyweight' ? 'Added Load' : 'Weight';
+
+  const position = currentWorkout ? getExercisePosition(currentWorkout.sets, set) : 0;
+  const workoutDayId = currentWorkout?.workoutDayId;
+  const previous = useMemo(
+    () => getPreviousPerformance(workoutLogs, set, position, workoutDayId),
+    // Keyed on the exercise rather than the whole set, so typing reps doesn't re-scan history
+    [workoutLogs, set.exerciseId, set.exerciseName, position, workoutDayId]
+  );
+
+  const [showTempoGuide, setShowTempoGuide] = useState(false);
+  const [showSwap, setShowSwap] = useState(false);
+  const current = findExerciseById(exerciseLibrary, set.exerciseId);
+  const alternatives = useMemo(
+    () => (showSwap && current ? getAlternatives(exerciseLibrary, current) : []),
+    [showSwap, current, exerciseLibrary]
+  );
+  // Mini-set reps as typed ("8+3+"), so a trailing separator survives re-renders
+  const [segmentText, setSegmentText] = useState(set.segments?.join('+') || '');
+
+  // Plates per side for barbell lifts, at the weight about to be lifted
+  const gym = getActiveGymProfile(settings);
+  const plates =
+    metric === 'weight' && gym && isBarbellExercise(exerciseLibrary, set)
+      ? getPlateBreakdown(set.actualWeight ?? set.targetWeight, unit, gym)
+      : null;
+
+  const sameExercise = (currentWorkout?.sets || []).filter(
+    (s) => !s.groupId && (s.exerciseId ? s.exerciseId === set.exerciseId : s.exerciseName === set.exerciseName)
+  );
+  const siblings = (currentWorkout?.sets || []).filter(
+    (s) => s.parentSetId && s.parentSetId === (set.parentSetId || set.id)
+  );
+  const dropNumber = siblings.findIndex((s) => s.id === set.id) + 1;
+  const canAddDrop =
+    !!onAddDrop &&
+    set.setType === 'drop' &&
+    isLoadMetric(metric) &&
+    (isDrop ? siblings[siblings.length - 1]?.id === set.id : siblings.length === 0);
+
+  const canAddWarmups =
+    !!onAddWarmups &&
+    !set.groupId &&
+    !isWarmup &&
+    !isDrop &&
+    !set.completed &&
+    metric === 'weight' &&
+    set.targetWeight > 0 &&
+    sameExercise[0]?.id === set.id;
+
+  // Prefill this set's actuals with last time's result, in this set's unit
+  const repeatLast = () => {
+    if (!previous) return;
+    const last = previous.set;
+    onUpdate({
+      actualReps: last.actualReps,
+      actualWeight:
+        last.actualWeight === undefined
+          ? undefined
+          : Math.round(convertWeight(last.actualWeight, last.unit || 'lb', unit) * 10) / 10,
+      actualDuration: last.actualDuration,
+      actualDistance: last.actualDistance,
+      actualCalories: last.actualCalories,
+      segments: last.segments,
+    });
+    setSegmentText(last.segments?.join('+') || '');
+  };
+
+  // Switching a set's unit converts its weights so the prescription stays the same load
+  const toggleUnit = () => {
+    const next = unit === 'lb' ? 'kg' : 'lb';
+    const convert = (value?: number) =>
+      value === undefined ? undefined : Math.round(convertWeight(value, unit, next) * 10) / 10;
+    onUpdate({
+      unit: next,
+      targetWeight: convert(set.targetWeight) || 0,
+      actualWeight: convert(set.actualWeight),
+    });
+  };
+
   return (
     <div
       className={`glass rounded-xl p-4 ${
         set.completed ? 'border-green-500/30 bg-green-500/5' : ''
-      }`}
+      } ${isWarmup ? 'border-dashed opacity-80' : ''} ${isDrop ? 'ml-6 border-l-2 border-l-accent-500/40' : ''}`}
     >
       <div className="flex items-center gap-3 mb-3">
-        <span className="text-sm text-gray-500 w-6">{index + 1}.</span>
+        <span
+          className={`text-sm w-6 ${
+            label || isDrop ? 'text-accent-400 font-medium' : isWarmup ? 'text-yellow-500 font-medium' : 'text-gray-500'
+          }`}
+          title={isWarmup ? 'Warm-up set: not counted in volume or PRs' : isDrop ? `Drop ${dropNumber}` : undefined}
+        >
+          {isWarmup ? 'W' : isDrop ? `↳${dropNumber}` : label || `${index + 1}.`}
+        </span>
         <input
           type="text"
           value={set.exerciseName}
@@ -490,6 +1209,50 @@ function SetCard({
           list="all-exercises"
           aria-label="Exercise name"
         />
+        {records.length > 0 && (
+          <span
+            className="flex items-center gap-1 text-xs px-2 py-1 bg-yellow-500/20 text-yellow-400 rounded-full"
+            title={records.map((r) => `${recordLabel(r)} ${formatRecordValue(r)}`).join(', ')}
+          >
+            <Trophy className="w-3 h-3" />
+            PR
+          </span>
+        )}
+        <select
+          value={metric}
+          onChange={(e) => onUpdate({ metric: e.target.value as SetMetric })}
+          className="text-xs bg-gray-800/50 rounded-lg px-2 py-1.5 text-gray-400 focus:outline-none focus-visible:ring-1 focus-visible:ring-primary-500"
+          aria-label="What this set measures"
+        >
+          {Object.entries(SET_METRIC_LABELS).map(([value, metricLabel]) => (
+            <option key={value} value={value}>{metricLabel}</option>
+          ))}
+        </select>
+        {onSwap && current && !set.completed && !isDrop && (
+          <button
+            onClick={() => setShowSwap(!showSwap)}
+            className={`p-2 rounded-lg transition-colors ${
+              showSwap ? 'text-primary-400 bg-primary-500/20' : 'text-gray-400 hover:text-white hover:bg-gray-700'
+            }`}
+            aria-label="Swap exercise"
+            aria-expanded={showSwap}
+            title="Swap exercise"
+          >
+            <ArrowLeftRight className="w-4 h-4" />
+          </button>
+        )}
+        {!isDrop && (
+          <select
+            value={set.setType || 'working'}
+            onChange={(e) => onUpdate({ setType: e.target.value as SetType })}
+            className="text-xs bg-gray-800/50 rounded-lg px-2 py-1.5 text-gray-400 focus:outline-none focus-visible:ring-1 focus-visible:ring-primary-500"
+            aria-label="Set type"
+          >
+            {Object.entries(SET_TYPE_LABELS).map(([value, typeLabel]) => (
+              <option key={value} value={value}>{typeLabel}</option>
+            ))}
+          </select>
+        )}
         <button
           onClick={onRemove}
           className="p-2 text-red-400 hover:bg-red-500/20 rounded-lg transition-colors"
@@ -499,56 +1262,185 @@ function SetCard({
         </button>
       </div>
 
-      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
-        <div>
-          <label className="text-xs text-gray-500 block mb-1">Target</label>
-          <div className="flex items-center gap-1">
-            <input
-              type="number"
-              value={set.targetReps}
-              onChange={(e) => onUpdate({ targetReps: parseInt(e.target.value) || 0 })}
-              className="w-full px-2 py-2 bg-gray-800/50 rounded-lg text-sm text-center focus:outline-none focus-visible:ring-1 focus-visible:ring-primary-500"
-              aria-label="Target reps"
-            />
-            <span className="text-xs text-gray-500">×</span>
-            <input
-              type="number"
-              value={set.targetWeight}
-              onChange={(e) => onUpdate({ targetWeight: parseInt(e.target.value) || 0 })}
-              className="w-full px-2 py-2 bg-gray-800/50 rounded-lg text-sm text-center focus:outline-none focus-visible:ring-1 focus-visible:ring-primary-500"
-              aria-label="Target weight"
-            />
-          </div>
+      {showSwap && onSwap && !set.completed && (
+        <div className="mb-3 p-3 bg-gray-800/50 rounded-lg">
+          <p className="text-xs text-gray-500 mb-2">
+            Swap the remaining sets of {set.exerciseName}; reps, tempo, intensity and rest carry over
+          </p>
+          {alternatives.length > 0 ? (
+            <div className="flex flex-wrap gap-2">
+              {alternatives.map((exercise) => (
+                <button
+                  key={exercise.id}
+                  onClick={() => {
+                    onSwap(exercise);
+                    setShowSwap(false);
+                  }}
+                  className="text-xs px-3 py-1.5 bg-gray-700/50 text-gray-300 rounded-lg hover:bg-primary-500/20 hover:text-primary-400 transition-colors"
+                >
+                  {exercise.name}
+                  <span className="ml-1 text-gray-500">{exercise.equipment}</span>
+                </button>
+              ))}
+            </div>
+          ) : (
+            <p className="text-xs text-gray-500">No alternatives in the library; type another exercise name instead.</p>
+          )}
         </div>
+      )}
 
-        <div>
-          <label className="text-xs text-gray-500 block mb-1">Actual Reps</label>
-          <input
-            type="number"
-            value={set.actualReps ?? set.targetReps}
-            onChange={(e) => onUpdate({ actualReps: parseInt(e.target.value) || 0 })}
-            className="w-full px-2 py-2 bg-gray-800/50 rounded-lg text-sm text-center focus:outline-none focus-visible:ring-1 focus-visible:ring-primary-500"
-            aria-label="Actual reps"
-          />
-        </div>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        {isLoadMetric(metric) ? (
+          <>
+            <div>
+              <label className="text-xs text-gray-500 block mb-1">
+                {set.setType === 'amrap' ? 'Target (min reps)' : 'Target'}
+              </label>
+              <div className="flex items-center gap-1">
+                <input
+                  type="number"
+                  value={set.targetReps}
+                  onChange={(e) => onUpdate({ targetReps: parseInt(e.target.value) || 0 })}
+                  className={inputClass}
+                  aria-label="Target reps"
+                />
+                <span className="text-xs text-gray-500">{metric === 'weight' ? '×' : metric === 'bodyweight' ? '+' : '−'}</span>
+                <input
+                  type="number"
+                  step="any"
+                  value={set.targetWeight}
+                  onChange={(e) => onUpdate({ targetWeight: parseFloat(e.target.value) || 0 })}
+                  className={inputClass}
+                  aria-label={`Target ${loadLabel.toLowerCase()}`}
+                />
+                <button
+                  onClick={toggleUnit}
+                  className="text-xs text-gray-500 hover:text-primary-400 transition-colors"
+                  aria-label={`Weight unit: ${weightUnitLabel(unit)}. Switch unit`}
+                  title="Switch unit"
+                >
+                  {weightUnitLabel(unit)}
+                </button>
+              </div>
+            </div>
 
-        <div>
-          <label className="text-xs text-gray-500 block mb-1">Actual Weight</label>
-          <input
-            type="number"
-            value={set.actualWeight ?? set.targetWeight}
-            onChange={(e) => onUpdate({ actualWeight: parseInt(e.target.value) || 0 })}
-            className="w-full px-2 py-2 bg-gray-800/50 rounded-lg text-sm text-center focus:outline-none focus-visible:ring-1 focus-visible:ring-primary-500"
-            aria-label="Actual weight"
-          />
-        </div>
+            {hasSegments(set.setType) ? (
+              <div>
+                <label className="text-xs text-gray-500 block mb-1">Mini-sets</label>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  value={segmentText}
+                  onChange={(e) => {
+                    const segments = parseSegments(e.target.value);
+                    setSegmentText(e.target.value);
+                    onUpdate({
+                      segments: segments.length ? segments : undefined,
+                      actualReps: segments.length ? segments.reduce((sum, reps) => sum + reps, 0) : undefined,
+                    });
+                  }}
+                  placeholder={set.reps?.includes('+') ? set.reps : '8+3+2'}
+                  className={inputClass}
+                  aria-label="Reps of each mini-set, separated by +"
+                />
+              </div>
+            ) : (
+              <div>
+                <label className="text-xs text-gray-500 block mb-1">Actual Reps</label>
+                <input
+                  type="number"
+                  value={set.actualReps ?? set.targetReps}
+                  onChange={(e) => onUpdate({ actualReps: parseInt(e.target.value) || 0 })}
+                  className={inputClass}
+                  aria-label="Actual reps"
+                />
+              </div>
+            )}
+
+            <div>
+              <label className="text-xs text-gray-500 block mb-1">
+                {metric === 'weight' ? 'Actual Weight' : loadLabel} ({weightUnitLabel(unit)})
+              </label>
+              <input
+                type="number"
+                step="any"
+                value={set.actualWeight ?? set.targetWeight}
+                onChange={(e) => onUpdate({ actualWeight: parseFloat(e.target.value) || 0 })}
+                className={inputClass}
+                aria-label={metric === 'weight' ? 'Actual weight' : `Actual ${loadLabel.toLowerCase()}`}
+              />
+            </div>
+          </>
+        ) : metric === 'duration' ? (
+          <>
+            <div>
+              <label className="text-xs text-gray-500 block mb-1">Target Time</label>
+              <DurationInput
+                value={set.targetDuration || 0}
+                onChange={(targetDuration) => onUpdate({ targetDuration })}
+                label="Target time"
+              />
+            </div>
+            <div className="sm:col-span-2">
+              <label className="text-xs text-gray-500 block mb-1">Actual Time (m:ss)</label>
+              <DurationInput
+                value={set.actualDuration ?? set.targetDuration ?? 0}
+                onChange={(actualDuration) => onUpdate({ actualDuration })}
+                label="Actual time"
+              />
+            </div>
+          </>
+        ) : (
+          <>
+            <div>
+              <label className="text-xs text-gray-500 block mb-1">
+                Target {metric === 'distance' ? '(m)' : '(cal)'}
+              </label>
+              <input
+                type="number"
+                value={(metric === 'distance' ? set.targetDistance : set.targetCalories) || 0}
+                onChange={(e) =>
+                  onUpdate(
+                    metric === 'distance'
+                      ? { targetDistance: parseInt(e.target.value) || 0 }
+                      : { targetCalories: parseInt(e.target.value) || 0 }
+                  )
+                }
+                className={inputClass}
+                aria-label={metric === 'distance' ? 'Target distance in meters' : 'Target calories'}
+              />
+            </div>
+            <div className="sm:col-span-2">
+              <label className="text-xs text-gray-500 block mb-1">
+                Actual {metric === 'distance' ? 'Distance (m)' : 'Calories'}
+              </label>
+              <input
+                type="number"
+                value={
+                  (metric === 'distance'
+                    ? set.actualDistance ?? set.targetDistance
+                    : set.actualCalories ?? set.targetCalories) || 0
+                }
+                onChange={(e) =>
+                  onUpdate(
+                    metric === 'distance'
+                      ? { actualDistance: parseInt(e.target.value) || 0 }
+                      : { actualCalories: parseInt(e.target.value) || 0 }
+                  )
+                }
+                className={inputClass}
+                aria-label={metric === 'distance' ? 'Actual distance in meters' : 'Actual calories'}
+              />
+            </div>
+          </>
+        )}
 
         <div>
           <label className="text-xs text-gray-500 block mb-1">RPE</label>
           <select
             value={set.rpe || ''}
-            onChange={(e) => onUpdate({ rpe: e.target.value ? parseInt(e.target.value) : undefined })}
-            className="w-full px-2 py-2 bg-gray-800/50 rounded-lg text-sm text-center focus:outline-none focus-visible:ring-1 focus-visible:ring-primary-500"
+            onChange={(e) => onUpdate({ rpe: e.target.value ? parseFloat(e.target.value) : undefined })}
+            className={inputClass}
             aria-label="RPE rating"
           >
             <option value="">-</option>
@@ -561,9 +1453,79 @@ function SetCard({
         </div>
       </div>
 
-      {/* Tempo / Intensity / Rest badges */}
-      {(set.tempo || set.intensity || set.rest) && (
+      {/* Plate breakdown */}
+      {plates && gym && (
+        <p className="mt-2 text-xs text-gray-500">
+          Per side:{' '}
+          <span className="text-gray-300">
+            {plates.perSide.length > 0 ? plates.perSide.join(' + ') : 'empty bar'} {weightUnitLabel(gym.unit)}
+          </span>
+          {!plates.exact && (
+            <span className="text-yellow-500"> (closest: {plates.total} {weightUnitLabel(unit)})</span>
+          )}
+        </p>
+      )}
+
+      {canAddDrop && (
+        <button
+          onClick={onAddDrop}
+          className="mt-2 flex items-center gap-1 text-xs text-accent-400 hover:text-accent-300 transition-colors"
+        >
+          <Plus className="w-3 h-3" />
+          Add drop
+        </button>
+      )}
+
+      {canAddWarmups && (
+        <button
+          onClick={onAddWarmups}
+          className="mt-2 flex items-center gap-1 text-xs text-yellow-500 hover:text-yellow-400 transition-colors"
+        >
+          <Plus className="w-3 h-3" />
+          Add warm-up sets
+        </button>
+      )}
+
+      {/* Last session */}
+      {previous && !isWarmup && !isDrop && (
+        <div className="mt-2 flex items-center justify-between gap-2 text-xs">
+          <span className="text-gray-500">
+            Last ({format(parseISO(previous.date), 'MMM d')}):{' '}
+            <span className="text-gray-300">
+              {formatSetResult(previous.set, getSetMetric(exerciseLibrary, previous.set))}
+              {previous.set.rpe ? ` @ RPE ${previous.set.rpe}` : ''}
+            </span>
+          </span>
+          {!set.completed && (
+            <button
+              onClick={repeatLast}
+              className="flex items-center gap-1 px-2 py-1 text-primary-400 hover:bg-primary-500/20 rounded-lg transition-colors"
+            >
+              <Repeat className="w-3 h-3" />
+              Repeat last
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Swap / Progression / Adjustment / Tempo / Intensity / Rest badges */}
+      {(set.tempo || set.intensity || set.rest || set.progressionNote || set.adjustmentReason || set.swappedFrom) && (
         <div className="mt-2 flex flex-wrap gap-1.5">
+          {set.swappedFrom && (
+            <span className="text-xs px-2 py-0.5 bg-primary-500/20 text-primary-400 rounded-full">
+              In place of {set.swappedFrom.exerciseName}
+            </span>
+          )}
+          {set.progressionNote && (
+            <span className="text-xs px-2 py-0.5 bg-green-500/20 text-green-400 rounded-full">
+              {set.progressionNote}
+            </span>
+          )}
+          {set.adjustmentReason && (
+            <span className="text-xs px-2 py-0.5 bg-orange-500/20 text-orange-400 rounded-full">
+              Adjusted: {set.adjustmentReason}
+            </span>
+          )}
           {set.tempo && (
             <span className="text-xs px-2 py-0.5 bg-cyan-500/20 text-cyan-400 rounded-full">
               {set.tempo}
@@ -582,6 +1544,28 @@ function SetCard({
         </div>
       )}
 
+      {set.tempo && !set.completed && (
+        <button
+          onClick={() => setShowTempoGuide(!showTempoGuide)}
+          className="mt-2 flex items-center gap-1 text-xs text-cyan-400 hover:text-cyan-300 transition-colors"
+          aria-expanded={showTempoGuide}
+        >
+          <Activity className="w-3 h-3" />
+          {showTempoGuide ? 'Hide tempo guide' : 'Tempo guide'}
+        </button>
+      )}
+      {showTempoGuide && !set.completed && (
+        <TempoGuide
+          tempo={set.tempo || ''}
+          reps={set.actualReps ?? set.targetReps}
+          onTempoChange={(tempo) => onUpdate({ tempo })}
+          onFinish={(reps, timeUnderTension) => onUpdate({ actualReps: reps, timeUnderTension })}
+        />
+      )}
+      {set.completed && set.timeUnderTension ? (
+        <p className="mt-1.5 text-xs text-gray-500">Time under tension: {formatClock(set.timeUnderTension)}</p>
+      ) : null}
+
       {/* Exercise notes */}
       {set.notes && (
         <p className="mt-1.5 text-xs text-gray-500 italic">{set.notes}</p>
@@ -610,3 +1594,181 @@ function SetCard({
     </div>
   );
 }
+
+const PHASE_BEEPS: Record<string, number> = {
+  eccentric: 660,
+  bottom: 440,
+  concentric: 1320,
+  top: 440,
+};
+
+/** Guided reps: counts each tempo phase on screen with a beep per phase and a tick per second */
+function TempoGuide({
+  tempo,
+  reps: initialReps,
+  onTempoChange,
+  onFinish,
+}: {
+  tempo: string;
+  reps: number;
+  onTempoChange: (tempo: string) => void;
+  onFinish: (reps: number, timeUnderTension: number) => void;
+}) {
+  const [reps, setReps] = useState(initialReps || 1);
+  const [sound, setSound] = useState(true);
+  const [startedAt, setStartedAt] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const lastCue = useRef('');
+
+  const phases = parseTempo(tempo);
+  const running = startedAt !== null;
+  const elapsed = running ? (now - startedAt) / 1000 : 0;
+  const position = phases ? getTempoPosition(phases, reps, elapsed) : null;
+
+  useEffect(() => {
+    if (!running) return;
+    const interval = setInterval(() => setNow(Date.now()), 100);
+    return () => clearInterval(interval);
+  }, [running]);
+
+  // Beep on every phase change, tick on every whole second within a phase
+  useEffect(() => {
+    if (!running || !position || position.done || !position.phase) return;
+    const second = Math.ceil(position.phaseRemaining);
+    const phaseKey = `${position.rep}-${position.phaseIndex}`;
+    const cue = `${phaseKey}-${second}`;
+    if (cue === lastCue.current) return;
+    const newPhase = !lastCue.current.startsWith(`${phaseKey}-`);
+    lastCue.current = cue;
+    if (!sound) return;
+    if (newPhase) playBeep(PHASE_BEEPS[position.phase.name]);
+    else playBeep(1000, 0.05, 0.1);
+  }, [running, position, sound]);
+
+  useEffect(() => {
+    if (!running || !phases || !position?.done) return;
+    setStartedAt(null);
+    lastCue.current = '';
+    if (sound) playBeep(1760, 0.3);
+    onFinish(reps, Math.round(getRepDuration(phases) * reps));
+  }, [running, phases, position, reps, sound, onFinish]);
+
+  const toggle = () => {
+    if (running) {
+      setStartedAt(null);
+      lastCue.current = '';
+    } else {
+      setNow(Date.now());
+      setStartedAt(Date.now());
+    }
+  };
+
+  return (
+    <div className="mt-2 p-3 bg-gray-800/50 rounded-xl space-y-3">
+      <div className="flex flex-wrap items-center gap-3 text-xs text-gray-500">
+        <label className="flex items-center gap-1">
+          Tempo
+          <input
+            type="text"
+            value={tempo}
+            onChange={(e) => onTempoChange(e.target.value)}
+            disabled={running}
+            className="w-16 px-2 py-1 bg-gray-800 rounded-lg text-center text-cyan-400 focus:outline-none focus-visible:ring-1 focus-visible:ring-primary-500"
+            aria-label="Tempo"
+          />
+        </label>
+        <label className="flex items-center gap-1">
+          Reps
+          <input
+            type="number"
+            value={reps}
+            onChange={(e) => setReps(Math.max(1, parseInt(e.target.value) || 1))}
+            disabled={running}
+            min={1}
+            className="w-14 px-2 py-1 bg-gray-800 rounded-lg text-center focus:outline-none focus-visible:ring-1 focus-visible:ring-primary-500"
+            aria-label="Guided reps"
+          />
+        </label>
+        <button
+          onClick={() => setSound(!sound)}
+          className="p-1 hover:text-white transition-colors"
+          aria-label={sound ? 'Mute beeps' : 'Unmute beeps'}
+          aria-pressed={sound}
+        >
+          {sound ? <Volume2 className="w-4 h-4" /> : <VolumeX className="w-4 h-4" />}
+        </button>
+      </div>
+
+      {phases ? (
+        <>
+          <div className="flex items-center justify-between">
+            <div aria-live="polite">
+              <p className="text-2xl font-bold text-cyan-400">
+                {running && position?.phase
+                  ? `${position.phase.label}${position.phase.explosive ? '!' : ` ${Math.ceil(position.phaseRemaining)}`}`
+                  : 'Ready'}
+              </p>
+              <p className="text-xs text-gray-500">
+                {running && position ? `Rep ${position.rep} of ${reps}` : `${getRepDuration(phases)}s per rep`}
+              </p>
+            </div>
+            <button
+              onClick={toggle}
+              className={`flex items-center gap-1 px-3 py-2 rounded-lg text-sm transition-colors ${
+                running
+                  ? 'bg-yellow-500/20 text-yellow-400 hover:bg-yellow-500/30'
+                  : 'bg-cyan-500/20 text-cyan-400 hover:bg-cyan-500/30'
+              }`}
+            >
+              {running ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+              {running ? 'Stop' : 'Start'}
+            </button>
+          </div>
+          <div className="grid grid-cols-4 gap-1">
+            {phases.map((phase, i) => (
+              <div
+                key={phase.name}
+                className={`text-center text-xs py-1 rounded ${
+                  running && position?.phaseIndex === i ? 'bg-cyan-500/30 text-cyan-300' : 'bg-gray-800 text-gray-500'
+                }`}
+              >
+                {phase.label} {phase.explosive ? 'X' : phase.seconds}
+              </div>
+            ))}
+          </div>
+        </>
+      ) : (
+        <p className="text-xs text-gray-500">Enter a 4-part tempo like 31X1 or 3-1-X-1.</p>
+      )}
+    </div>
+  );
+}
+
+/** m:ss entry that only commits a parsed value on blur, so typing isn't reformatted mid-edit */
+function DurationInput({
+  value,
+  onChange,
+  label,
+}: {
+  value: number;
+  onChange: (seconds: number) => void;
+  label: string;
+}) {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  return (
+    <input
+      type="text"
+      inputMode="numeric"
+      value={draft ?? formatClock(value)}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => {
+        if (draft !== null) onChange(parseDuration(draft));
+        setDraft(null);
+      }}
+      placeholder="1:30"
+      className={inputClass}
+      aria-label={label}
+    />
+  );
+}
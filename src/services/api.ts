@@ -1,5 +1,15 @@
 import axios from 'axios';
-import type { ChatMessage, Program, WorkoutLog } from '../types';
+import type {
+  ChatMessage,
+  ConditioningBlock,
+  ConditioningMovement,
+  ExerciseGroupType,
+  ProgramSchedule,
+  SyncChange,
+  UserSettings,
+  WeightUnit,
+  WorkoutLog,
+} from '../types';
 
 const API_URL = import.meta.env.VITE_API_URL || '';
 
@@ -14,6 +24,17 @@ function getDeviceId(): string {
   return deviceId;
 }
 
+// Identifies this browser's copy of the app, so a draft saved elsewhere can be told apart
+export function getClientId(): string {
+  const storageKey = 'fbb-client-id';
+  let clientId = localStorage.getItem(storageKey);
+  if (!clientId) {
+    clientId = 'client-' + crypto.randomUUID();
+    localStorage.setItem(storageKey, clientId);
+  }
+  return clientId;
+}
+
 const api = axios.create({
   baseURL: API_URL,
   headers: {
@@ -35,7 +56,7 @@ export async function sendMessage(
       totalWorkouts: number;
       currentStreak: number;
       weeklyWorkouts: number;
-      personalRecords?: { exerciseName: string; weight: number; reps: number }[];
+      personalRecords?: { exerciseName: string; record: string; value: string; date: string }[];
     };
     activeProgram?: string;
     recentWorkouts?: { date: string; setsCompleted: number; duration: number }[];
@@ -71,10 +92,13 @@ export async function searchKnowledgeBase(query: string): Promise<string[]> {
 export interface GenerateProgramParams {
   goal: string;
   daysPerWeek: number;
+  weeks?: number;           // Number of weeks to prescribe (defaults to 1)
   experienceLevel: string;
   equipment: string[];
   trainingStyle?: string;
   injuries?: string;
+  exerciseNames?: string[]; // Canonical names from the exercise library
+  unit?: WeightUnit;        // Unit for generated target weights
 }
 
 export interface GeneratedProgram {
@@ -92,18 +116,24 @@ export interface GeneratedProgram {
     dayOfWeek: number;
     weekNumber?: number;
     dayNumber?: number;
+    groups?: { label: string; type: ExerciseGroupType; rounds: number; rest?: string }[];
     exercises: {
       exerciseName: string;
       setNumber: number;
       targetReps: number;
       targetWeight: number;
+      unit?: WeightUnit;
       sets?: number;
       reps?: string;
       tempo?: string;
       intensity?: string;
       rest?: string;
       notes?: string;
+      group?: string; // Label of the group in `groups` this exercise belongs to
     }[];
+    conditioning?: (Omit<ConditioningBlock, 'id' | 'movements'> & {
+      movements?: Omit<ConditioningMovement, 'id' | 'exerciseId'>[];
+    })[];
   }[];
 }
 
@@ -155,15 +185,24 @@ export async function checkHealth(): Promise<{
 
 // ============ SYNC API ============
 
+/** Everything synced outside the change log */
 export interface SyncData {
   user: { id: string };
-  programs: Program[];
-  activeProgram: Program | null;
-  workouts: WorkoutLog[];
+  activeProgramId: string | null;
+  programSchedule?: ProgramSchedule | null;
   chatMessages: ChatMessage[];
+  workoutDraft?: WorkoutDraft | null;
+  settings?: Partial<UserSettings>;
 }
 
-// Fetch all data from server
+/** The in-progress workout as last autosaved, and which client saved it */
+export interface WorkoutDraft {
+  workout: WorkoutLog;
+  clientId: string;
+  updatedAt: string;
+}
+
+// Fetch settings, chat, the active program and the workout draft from the server
 export async function fetchSyncData(): Promise<SyncData | null> {
   try {
     const response = await api.get('/api/sync/all');
@@ -174,72 +213,104 @@ export async function fetchSyncData(): Promise<SyncData | null> {
   }
 }
 
-// Push all data to server
-export async function pushSyncData(data: {
-  programs: Program[];
-  workouts: WorkoutLog[];
-  activeProgram: Program | null;
-}): Promise<boolean> {
+export interface ChangesPage {
+  changes: SyncChange[];
+  cursor: number;      // Pass back as `since` for the next page
+  hasMore: boolean;
+}
+
+// Fetch logged changes after a position in the server's change log
+export async function fetchChanges(since: number): Promise<ChangesPage | null> {
+  try {
+    const response = await api.get('/api/sync/changes', { params: { since } });
+    return response.data;
+  } catch (error) {
+    console.error('Fetch changes error:', error);
+    return null;
+  }
+}
+
+export interface PushResult {
+  applied: string[];   // HLCs of changes the server took
+  rejected: string[];  // Lost to a newer change on the server
+  failed: string[];    // Couldn't be saved; worth retrying
+}
+
+/** A sync write that didn't go through; without a status the server couldn't be reached */
+export interface SendFailure {
+  ok: false;
+  status?: number;
+}
+
+export type SendResult = { ok: true } | SendFailure;
+export type PushResponse = { ok: true; result: PushResult } | SendFailure;
+
+function toSendFailure(error: unknown): SendFailure {
+  return { ok: false, status: axios.isAxiosError(error) ? error.response?.status : undefined };
+}
+
+// Push local changes to the server's change log
+export async function pushChanges(changes: SyncChange[]): Promise<PushResponse> {
   try {
-    await api.post('/api/sync/all', data);
-    return true;
+    const response = await api.post('/api/sync/changes', { changes, clientId: getClientId() });
+    return { ok: true, result: response.data };
   } catch (error) {
-    console.error('Push sync data error:', error);
-    return false;
+    console.error('Push changes error:', error);
+    return toSendFailure(error);
   }
 }
 
-// Save a single program
-export async function saveProgram(program: Program): Promise<boolean> {
+// Set active program
+export async function setActiveProgram(programId: string | null, startDate?: string): Promise<SendResult> {
   try {
-    await api.post('/api/sync/programs', { program });
-    return true;
+    await api.post('/api/sync/programs/active', { programId, startDate });
+    return { ok: true };
   } catch (error) {
-    console.error('Save program error:', error);
-    return false;
+    console.error('Set active program error:', error);
+    return toSendFailure(error);
   }
 }
 
-// Delete a program
-export async function deleteProgram(programId: string): Promise<boolean> {
+// Save user settings (unit preference, etc.)
+export async function saveSettings(settings: UserSettings): Promise<SendResult> {
   try {
-    await api.delete(`/api/sync/programs/${programId}`);
-    return true;
+    await api.post('/api/sync/settings', { settings });
+    return { ok: true };
   } catch (error) {
-    console.error('Delete program error:', error);
-    return false;
+    console.error('Save settings error:', error);
+    return toSendFailure(error);
   }
 }
 
-// Set active program
-export async function setActiveProgram(programId: string | null): Promise<boolean> {
+// Autosave the in-progress workout
+export async function saveWorkoutDraft(workout: WorkoutLog): Promise<SendResult> {
   try {
-    await api.post('/api/sync/programs/active', { programId });
-    return true;
+    await api.post('/api/sync/draft', { workout, clientId: getClientId() });
+    return { ok: true };
   } catch (error) {
-    console.error('Set active program error:', error);
-    return false;
+    console.error('Save workout draft error:', error);
+    return toSendFailure(error);
   }
 }
 
-// Save a workout log
-export async function saveWorkout(workout: WorkoutLog): Promise<boolean> {
+// Clear the draft of a finished or discarded workout
+export async function deleteWorkoutDraft(workoutId: string): Promise<SendResult> {
   try {
-    await api.post('/api/sync/workouts', { workout });
-    return true;
+    await api.delete(`/api/sync/draft/${workoutId}`);
+    return { ok: true };
   } catch (error) {
-    console.error('Save workout error:', error);
-    return false;
+    console.error('Delete workout draft error:', error);
+    return toSendFailure(error);
   }
 }
 
-// Check if sync is available
-export async function isSyncAvailable(): Promise<boolean> {
+// Check if sync is available; null when the server couldn't be reached at all
+export async function isSyncAvailable(): Promise<boolean | null> {
   try {
     const health = await checkHealth();
     return health.services.database === true;
   } catch {
-    return false;
+    return null;
   }
 }
 
@@ -1,15 +1,76 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { v4 as uuidv4 } from 'uuid';
-import type { Program, WorkoutLog, WorkoutSet, ChatMessage, UserStats, PersonalRecord, Conversation } from '../types';
-import { calcVolume } from '../types';
+import type { Program, ProgramSchedule, WorkoutDay, WorkoutLog, WorkoutSet, ChatMessage, UserStats, PersonalRecord, Conversation, Exercise, UserSettings, RestTimer, PendingCall, PendingChange, SyncChange, SyncEntityType } from '../types';
+import { calcVolume, DEFAULT_SETTINGS } from '../types';
 import * as syncApi from '../services/api';
+import {
+  buildDefaultExerciseLibrary,
+  getSetMetric,
+  linkSetsToLibrary,
+} from '../utils/exerciseLibrary';
+import {
+  detectSetRecords,
+  detectVolumeRecords,
+  detectWorkoutRecords,
+  getCurrentRecords,
+  getRecordHistory,
+} from '../utils/personalRecords';
+import { getDaysForWeek, shiftScheduleDate, toScheduleDate } from '../utils/programSchedule';
+import { getProgressedTargets } from '../utils/progression';
+import { resolvePercentTarget, trainingMaxFromE1rm } from '../utils/trainingMax';
+import { getTimeUnderTension } from '../utils/tempo';
+import { addPrescribedDrops } from '../utils/setTypes';
+import { closeIntervals, getActiveSeconds, isWorkoutPaused } from '../utils/workoutTime';
+import { getRepeatDetails, getRepeatSets, logToWorkoutDay } from '../utils/workoutTemplates';
+import { receiveHlc, tickHlc } from '../utils/hlc';
+import { requestBackgroundSync } from '../utils/backgroundSync';
+
+// Most changes, and characters of JSON, sent per push request: half the server's 1mb
+// body limit, leaving room for characters that take more than one byte
+const PUSH_BATCH_SIZE = 50;
+const PUSH_BATCH_CHARS = 512 * 1024;
+
+// Sends of a change or call the server fails to save, or answers with an error, before it's given up on
+const MAX_SEND_ATTEMPTS = 5;
+
+// What each queued call syncs, for the error shown when it's given up on
+const CALL_LABELS: Record<PendingCall['kind'], string> = {
+  settings: 'settings',
+  'active-program': 'the active program',
+  draft: 'the workout in progress',
+  'draft-delete': 'a cleared workout autosave',
+};
+
+// One flush at a time; anything queued meanwhile goes out in a follow-up flush
+let flushInFlight = false;
+let flushAgain = false;
+
+// Retry delay after a flush leaves calls queued or the server can't be reached, doubling up to the maximum
+const RETRY_BASE_MS = 5000;
+const RETRY_MAX_MS = 5 * 60 * 1000;
+let retryDelay = RETRY_BASE_MS;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
 
 interface AppState {
+  // Settings
+  settings: UserSettings;
+  updateSettings: (updates: Partial<UserSettings>) => void;
+
+  // Exercise Library
+  exerciseLibrary: Exercise[];
+  addLibraryExercise: (exercise: Omit<Exercise, 'id'>) => Exercise;
+  updateLibraryExercise: (id: string, updates: Partial<Exercise>) => void;
+  updateTrainingMaxesFromE1rm: (exerciseIds: string[]) => void;
+  linkExercises: <T extends Pick<WorkoutSet, 'exerciseId' | 'exerciseName'>>(sets: T[]) => T[];
+
   // Programs
   programs: Program[];
   activeProgram: Program | null;
-  setActiveProgram: (program: Program | null) => void;
+  programSchedule: ProgramSchedule | null; // Start date of the active program
+  setActiveProgram: (program: Program | null, startDate?: string) => void;
+  setProgramStartDate: (startDate: string) => void;
+  shiftSchedule: (days: number) => void;
   addProgram: (program: Omit<Program, 'id' | 'createdAt' | 'updatedAt'>) => Program;
   updateProgram: (id: string, updates: Partial<Program>) => void;
   deleteProgram: (id: string) => void;
@@ -17,12 +78,40 @@ interface AppState {
   // Workout Logs
   workoutLogs: WorkoutLog[];
   currentWorkout: WorkoutLog | null;
-  startWorkout: (programId?: string, workoutDayId?: string, sets?: WorkoutSet[]) => void;
+  startWorkout: (
+    programId?: string,
+    workoutDayId?: string,
+    sets?: WorkoutSet[],
+    details?: Pick<WorkoutLog, 'groups' | 'conditioning'>
+  ) => void;
   updateCurrentWorkout: (updates: Partial<WorkoutLog>) => void;
-  completeSet: (setId: string, actualReps: number, actualWeight: number, rpe?: number) => void;
+  completeSet: (
+    setId: string,
+    actualReps: number,
+    actualWeight: number,
+    rpe?: number,
+    measures?: Pick<WorkoutSet, 'actualDuration' | 'actualDistance' | 'actualCalories'>
+  ) => void;
   uncompleteSet: (setId: string) => void;
+  pauseWorkout: () => void;
+  resumeWorkout: () => void;
   finishWorkout: (notes?: string, rating?: number) => void;
   cancelWorkout: () => void;
+  logPastWorkout: (workout: WorkoutLog) => void;
+  updateWorkoutLog: (id: string, updates: Partial<WorkoutLog>) => void;
+  deleteWorkoutLog: (id: string) => void;
+  remoteDraft: WorkoutLog | null; // Workout in progress on another device, offered for resuming here
+  saveWorkoutDraft: () => void;
+  resumeRemoteDraft: () => void;
+  discardRemoteDraft: () => void;
+  repeatWorkout: (logId: string) => void;
+  saveLogAsWorkoutDay: (logId: string, name: string, programId?: string) => Program | undefined;
+
+  // Rest Timer
+  restTimer: RestTimer | null;
+  startRestTimer: (seconds: number, maxSeconds?: number, label?: string) => void;
+  extendRestTimer: (seconds: number) => void;
+  stopRestTimer: () => void;
 
   // Conversations (Chat History)
   conversations: Conversation[];
@@ -48,79 +137,186 @@ interface AppState {
   isSyncing: boolean;
   lastSynced: string | null;
   syncError: string | null;
+  syncCursor: number;                   // Position in the server's change log pulled up to
+  syncClock: string | null;             // Latest hybrid logical clock issued or seen
+  syncVersions: Record<string, string>; // HLC of each entity's latest change, by syncKey
+  pendingChanges: PendingChange[];      // Local changes not yet pushed, oldest first
+  pendingCalls: PendingCall[];          // Other sync calls not yet sent, oldest first
+  localEdits: Record<string, true>;     // Never-synced entities edited while sync was off, by syncKey
+  // Queue changes and, unless `flush` is false, start sending them
+  recordChanges: (changes: Pick<SyncChange, 'entityType' | 'entityId' | 'op'>[], flush?: boolean) => void;
+  queueCall: (call: PendingCall) => void;
+  pushChanges: () => Promise<void>;
+  flushSyncQueue: () => Promise<boolean>; // True once nothing is left to send
+  pullChanges: () => Promise<boolean>;
   initSync: () => Promise<void>;
-  syncToServer: () => Promise<void>;
   syncFromServer: () => Promise<void>;
 }
 
 export const useStore = create<AppState>()(
   persist(
     (set, get) => ({
+      // Settings
+      settings: DEFAULT_SETTINGS,
+
+      updateSettings: (updates) => {
+        set((state) => ({ settings: { ...state.settings, ...updates } }));
+        get().queueCall({ kind: 'settings' });
+      },
+
+      // Exercise Library
+      exerciseLibrary: buildDefaultExerciseLibrary(),
+
+      addLibraryExercise: (exerciseData) => {
+        const exercise: Exercise = {
+          ...exerciseData,
+          id: uuidv4(),
+          isCustom: true,
+          updatedAt: new Date().toISOString(),
+        };
+        set((state) => ({ exerciseLibrary: [...state.exerciseLibrary, exercise] }));
+        get().recordChanges([{ entityType: 'exercise', entityId: exercise.id, op: 'upsert' }]);
+        return exercise;
+      },
+
+      updateLibraryExercise: (id, updates) => {
+        set((state) => ({
+          exerciseLibrary: state.exerciseLibrary.map((e) =>
+            e.id === id ? { ...e, ...updates, updatedAt: new Date().toISOString() } : e
+          ),
+        }));
+        get().recordChanges([{ entityType: 'exercise', entityId: id, op: 'upsert' }]);
+      },
+
+      updateTrainingMaxesFromE1rm: (exerciseIds) => {
+        const { settings } = get();
+        const records = get().getPersonalRecords().filter((r) => r.category === 'e1rm');
+        for (const id of exerciseIds) {
+          const record = records.find((r) => r.exerciseId === id);
+          if (!record?.value) continue;
+          get().updateLibraryExercise(id, {
+            trainingMax: trainingMaxFromE1rm(
+              record.value,
+              record.unit,
+              settings.trainingMaxPercent,
+              settings.loadIncrements[record.unit]
+            ),
+          });
+        }
+      },
+
+      linkExercises: (sets) => {
+        const { sets: linked, created } = linkSetsToLibrary(sets, get().exerciseLibrary);
+        if (created.length > 0) {
+          set((state) => ({ exerciseLibrary: [...state.exerciseLibrary, ...created] }));
+          get().recordChanges(
+            created.map((exercise) => ({ entityType: 'exercise' as const, entityId: exercise.id, op: 'upsert' as const }))
+          );
+        }
+        return linked;
+      },
+
       // Programs
       programs: [],
       activeProgram: null,
+      programSchedule: null,
 
-      setActiveProgram: (program) => {
-        set({ activeProgram: program });
-        // Sync active program to server
-        if (get().syncEnabled) {
-          syncApi.setActiveProgram(program?.id || null).catch(console.error);
-        }
+      setActiveProgram: (program, startDate) => {
+        const programSchedule = program
+          ? { programId: program.id, startDate: startDate || toScheduleDate() }
+          : null;
+        set({ activeProgram: program, programSchedule });
+        get().queueCall({ kind: 'active-program', programId: program?.id || null, startDate: programSchedule?.startDate });
+      },
+
+      setProgramStartDate: (startDate) => {
+        const { activeProgram } = get();
+        if (!activeProgram) return;
+        set({ programSchedule: { programId: activeProgram.id, startDate } });
+        get().queueCall({ kind: 'active-program', programId: activeProgram.id, startDate });
+      },
+
+      shiftSchedule: (days) => {
+        const { programSchedule } = get();
+        if (!programSchedule) return;
+        get().setProgramStartDate(shiftScheduleDate(programSchedule.startDate, days));
       },
 
       addProgram: (programData) => {
         const newProgram: Program = {
           ...programData,
+          workoutDays: programData.workoutDays.map((day) => linkDay(day, get().linkExercises)),
           id: uuidv4(),
           createdAt: new Date().toISOString(),
           updatedAt: new Date().toISOString(),
         };
         set((state) => ({ programs: [...state.programs, newProgram] }));
-        // Sync to server
-        if (get().syncEnabled) {
-          syncApi.saveProgram(newProgram).catch(console.error);
-        }
+        get().recordChanges([{ entityType: 'program', entityId: newProgram.id, op: 'upsert' }]);
         return newProgram;
       },
 
       updateProgram: (id, updates) => {
-        set((state) => ({
-          programs: state.programs.map((p) =>
-            p.id === id ? { ...p, ...updates, updatedAt: new Date().toISOString() } : p
-          ),
-        }));
-        // Sync updated program to server
-        if (get().syncEnabled) {
-          const program = get().programs.find((p) => p.id === id);
-          if (program) {
-            syncApi.saveProgram(program).catch(console.error);
-          }
+        if (updates.workoutDays) {
+          updates = {
+            ...updates,
+            workoutDays: updates.workoutDays.map((day) => linkDay(day, get().linkExercises)),
+          };
         }
+        set((state) => {
+          const programs = state.programs.map((p) =>
+            p.id === id ? { ...p, ...updates, updatedAt: new Date().toISOString() } : p
+          );
+          return {
+            programs,
+            // Keep the active copy in step so week/day edits reach the tracker
+            activeProgram:
+              state.activeProgram?.id === id
+                ? programs.find((p) => p.id === id) || state.activeProgram
+                : state.activeProgram,
+          };
+        });
+        get().recordChanges([{ entityType: 'program', entityId: id, op: 'upsert' }]);
       },
 
       deleteProgram: (id) => {
         set((state) => ({
           programs: state.programs.filter((p) => p.id !== id),
           activeProgram: state.activeProgram?.id === id ? null : state.activeProgram,
+          programSchedule: state.programSchedule?.programId === id ? null : state.programSchedule,
         }));
-        // Sync deletion to server
-        if (get().syncEnabled) {
-          syncApi.deleteProgram(id).catch(console.error);
-        }
+        get().recordChanges([{ entityType: 'program', entityId: id, op: 'delete' }]);
       },
 
       // Workout Logs
       workoutLogs: [],
       currentWorkout: null,
 
-      startWorkout: (programId, workoutDayId, sets = []) => {
+      startWorkout: (programId, workoutDayId, sets = [], details = {}) => {
+        const now = new Date().toISOString();
         const workout: WorkoutLog = {
           id: uuidv4(),
           programId,
           workoutDayId,
-          date: new Date().toISOString(),
+          date: now,
           duration: 0,
-          sets: sets.map((s) => ({ ...s, id: uuidv4(), completed: false })),
+          intervals: [{ start: now }],
+          sets: addPrescribedDrops(get().linkExercises(sets).map((s) => {
+            const { exerciseLibrary, workoutLogs, settings } = get();
+            const metric = getSetMetric(exerciseLibrary, s);
+            // Percentages resolve against today's training max; otherwise program
+            // days move their targets on from the last session
+            const percent = resolvePercentTarget(s, exerciseLibrary, settings.loadIncrements);
+            const progressed = percent
+              ? { targetWeight: percent.targetWeight, progressionNote: percent.note }
+              : workoutDayId
+              ? getProgressedTargets(s, metric, workoutLogs, workoutDayId)
+              : null;
+            return { ...s, ...progressed, id: uuidv4(), metric, completed: false };
+          }), get().settings.loadIncrements),
+          groups: details.groups?.length ? details.groups : undefined,
+          conditioning: details.conditioning?.length
+            ? details.conditioning.map((block) => ({ ...block, movements: get().linkExercises(block.movements) }))
+            : undefined,
           completed: false,
         };
         set({ currentWorkout: workout });
@@ -134,19 +330,48 @@ export const useStore = create<AppState>()(
         }));
       },
 
-      completeSet: (setId, actualReps, actualWeight, rpe) => {
-        set((state) => ({
-          currentWorkout: state.currentWorkout
-            ? {
-                ...state.currentWorkout,
-                sets: state.currentWorkout.sets.map((s) =>
-                  s.id === setId
-                    ? { ...s, actualReps, actualWeight, rpe, completed: true }
-                    : s
-                ),
-              }
-            : null,
-        }));
+      completeSet: (setId, actualReps, actualWeight, rpe, measures = {}) => {
+        const { currentWorkout, workoutLogs, exerciseLibrary, settings } = get();
+        if (!currentWorkout) return;
+
+        const target = currentWorkout.sets.find((s) => s.id === setId);
+        if (!target) return;
+        const completed: WorkoutSet = {
+          ...target,
+          ...measures,
+          actualReps,
+          actualWeight,
+          rpe,
+          // A guided set keeps its measured time; otherwise it's estimated from the tempo
+          timeUnderTension: target.timeUnderTension ?? getTimeUnderTension(target.tempo, actualReps),
+          completed: true,
+          completedAt: new Date().toISOString(),
+        };
+        const records = detectSetRecords(
+          completed,
+          currentWorkout,
+          workoutLogs,
+          exerciseLibrary,
+          settings.weightUnit,
+          settings.e1rmFormula
+        );
+
+        // Logging a set while paused means the workout is back on
+        if (isWorkoutPaused(currentWorkout)) get().resumeWorkout();
+
+        set({
+          currentWorkout: {
+            ...get().currentWorkout!,
+            sets: currentWorkout.sets.map((s) =>
+              s.id === setId ? { ...completed, isPR: records.length > 0 } : s
+            ),
+            // Re-completing a set replaces the records it set before
+            personalRecords: [
+              ...(currentWorkout.personalRecords || []).filter((r) => r.setId !== setId),
+              ...records,
+            ],
+          },
+        });
       },
 
       uncompleteSet: (setId) => {
@@ -156,41 +381,279 @@ export const useStore = create<AppState>()(
                 ...state.currentWorkout,
                 sets: state.currentWorkout.sets.map((s) =>
                   s.id === setId
-                    ? { ...s, completed: false }
+                    ? { ...s, completed: false, completedAt: undefined, isPR: false, timeUnderTension: undefined }
                     : s
                 ),
+                personalRecords: (state.currentWorkout.personalRecords || []).filter(
+                  (r) => r.setId !== setId
+                ),
               }
             : null,
         }));
       },
 
+      pauseWorkout: () => {
+        const { currentWorkout } = get();
+        if (!currentWorkout || isWorkoutPaused(currentWorkout)) return;
+        set({
+          currentWorkout: { ...currentWorkout, intervals: closeIntervals(currentWorkout) },
+          restTimer: null,
+        });
+      },
+
+      resumeWorkout: () => {
+        const { currentWorkout } = get();
+        if (!currentWorkout || !isWorkoutPaused(currentWorkout)) return;
+        set({
+          currentWorkout: {
+            ...currentWorkout,
+            intervals: [...(currentWorkout.intervals || []), { start: new Date().toISOString() }],
+          },
+        });
+      },
+
       finishWorkout: (notes, rating) => {
-        const { currentWorkout, syncEnabled } = get();
+        const { currentWorkout, workoutLogs, exerciseLibrary, settings } = get();
         if (!currentWorkout) return;
 
+        const linkedSets = get().linkExercises(currentWorkout.sets);
+        const intervals = closeIntervals(currentWorkout);
         const completedWorkout: WorkoutLog = {
           ...currentWorkout,
+          sets: linkedSets.map((s) => ({ ...s, metric: getSetMetric(exerciseLibrary, s) })),
+          // Conditioning clocks only matter while the workout runs
+          conditioning: currentWorkout.conditioning?.map(({ clock: _clock, ...block }) => block),
           notes,
           rating,
           completed: true,
-          duration: Math.round(
-            (Date.now() - new Date(currentWorkout.date).getTime()) / 60000
-          ),
+          intervals,
+          duration: Math.round(getActiveSeconds({ date: currentWorkout.date, intervals }) / 60),
         };
+        completedWorkout.personalRecords = [
+          ...(currentWorkout.personalRecords || []),
+          ...detectVolumeRecords(
+            completedWorkout,
+            workoutLogs,
+            exerciseLibrary,
+            settings.weightUnit,
+            settings.e1rmFormula
+          ),
+        ];
 
         set((state) => ({
           workoutLogs: [...state.workoutLogs, completedWorkout],
           currentWorkout: null,
+          restTimer: null,
         }));
 
-        // Sync completed workout to server
-        if (syncEnabled) {
-          syncApi.saveWorkout(completedWorkout).catch(console.error);
-        }
+        get().recordChanges([{ entityType: 'workout', entityId: completedWorkout.id, op: 'upsert' }]);
+        get().queueCall({ kind: 'draft-delete', workoutId: completedWorkout.id });
       },
 
       cancelWorkout: () => {
-        set({ currentWorkout: null });
+        const { currentWorkout } = get();
+        set({ currentWorkout: null, restTimer: null });
+        if (currentWorkout) {
+          get().queueCall({ kind: 'draft-delete', workoutId: currentWorkout.id });
+        }
+      },
+
+      logPastWorkout: (workout) => {
+        const { workoutLogs, settings } = get();
+        const sets = get().linkExercises(workout.sets);
+        const exerciseLibrary = get().exerciseLibrary;
+        const records = detectWorkoutRecords(
+          { ...workout, sets },
+          workoutLogs,
+          exerciseLibrary,
+          settings.weightUnit,
+          settings.e1rmFormula
+        );
+        const logged: WorkoutLog = {
+          ...workout,
+          sets: sets.map((s) => ({
+            ...s,
+            metric: getSetMetric(exerciseLibrary, s),
+            isPR: records.some((r) => r.setId === s.id),
+          })),
+          personalRecords: records,
+          completed: true,
+        };
+
+        // A back-dated log can beat what later logs counted as PRs
+        const { logs, changed } = recheckLaterRecords(
+          [...get().workoutLogs, logged],
+          logged.id,
+          logged.date,
+          logged.sets,
+          exerciseLibrary,
+          settings
+        );
+        set({ workoutLogs: logs });
+        get().recordChanges(
+          [logged.id, ...changed].map((entityId) => ({ entityType: 'workout' as const, entityId, op: 'upsert' as const }))
+        );
+      },
+
+      updateWorkoutLog: (id, updates) => {
+        const { workoutLogs, settings } = get();
+        const existing = workoutLogs.find((log) => log.id === id);
+        if (!existing) return;
+
+        let updated: WorkoutLog = { ...existing, ...updates };
+        // Corrected sets or a new date can make or unmake PRs, so the log's records are re-checked
+        if (updates.sets || updates.date) {
+          // Linking may add custom exercises, so the library is read afterwards
+          const sets = get().linkExercises(updated.sets);
+          const exerciseLibrary = get().exerciseLibrary;
+          const records = detectWorkoutRecords(
+            { ...updated, sets },
+            workoutLogs,
+            exerciseLibrary,
+            settings.weightUnit,
+            settings.e1rmFormula
+          );
+          updated = {
+            ...updated,
+            sets: sets.map((s) => ({
+              ...s,
+              metric: getSetMetric(exerciseLibrary, s),
+              isPR: records.some((r) => r.setId === s.id),
+            })),
+            personalRecords: records,
+          };
+        }
+
+        let logs = get().workoutLogs.map((log) => (log.id === id ? updated : log));
+        let rechecked: string[] = [];
+        if (updates.sets || updates.date) {
+          // Later logs were measured against this one
+          const since = new Date(existing.date) < new Date(updated.date) ? existing.date : updated.date;
+          ({ logs, changed: rechecked } = recheckLaterRecords(
+            logs,
+            id,
+            since,
+            [...existing.sets, ...updated.sets],
+            get().exerciseLibrary,
+            settings
+          ));
+        }
+
+        set({ workoutLogs: logs });
+        get().recordChanges(
+          [id, ...rechecked].map((entityId) => ({ entityType: 'workout' as const, entityId, op: 'upsert' as const }))
+        );
+      },
+
+      deleteWorkoutLog: (id) => {
+        const { workoutLogs, exerciseLibrary, settings } = get();
+        const existing = workoutLogs.find((log) => log.id === id);
+        if (!existing) return;
+
+        // PRs that only beat this log, or that it was blocking, change on later logs
+        const { logs, changed } = recheckLaterRecords(
+          workoutLogs.filter((log) => log.id !== id),
+          id,
+          existing.date,
+          existing.sets,
+          exerciseLibrary,
+          settings
+        );
+        set({ workoutLogs: logs });
+        get().recordChanges([
+          { entityType: 'workout', entityId: id, op: 'delete' },
+          ...changed.map((entityId) => ({ entityType: 'workout' as const, entityId, op: 'upsert' as const })),
+        ]);
+      },
+
+      remoteDraft: null,
+
+      saveWorkoutDraft: () => {
+        const { currentWorkout, remoteDraft, syncEnabled } = get();
+        // Hold off while another device's workout is on offer, or it would be overwritten
+        if (!syncEnabled || !currentWorkout || remoteDraft) return;
+        get().queueCall({ kind: 'draft' });
+      },
+
+      resumeRemoteDraft: () => {
+        const { remoteDraft } = get();
+        if (!remoteDraft) return;
+        set({ currentWorkout: remoteDraft, remoteDraft: null, restTimer: null });
+        // Claim the draft so the other device offers it back rather than overwriting it
+        get().saveWorkoutDraft();
+      },
+
+      discardRemoteDraft: () => {
+        const { remoteDraft, currentWorkout } = get();
+        if (!remoteDraft) return;
+        set({ remoteDraft: null });
+        // A draft of the workout running here is replaced by the next autosave instead
+        if (remoteDraft.id !== currentWorkout?.id) {
+          get().queueCall({ kind: 'draft-delete', workoutId: remoteDraft.id });
+        }
+      },
+
+      repeatWorkout: (logId) => {
+        const log = get().workoutLogs.find((l) => l.id === logId);
+        if (!log) return;
+        // Not tied to the program day, so progression doesn't replace the logged targets
+        get().startWorkout(undefined, undefined, getRepeatSets(log), getRepeatDetails(log));
+      },
+
+      saveLogAsWorkoutDay: (logId, name, programId) => {
+        const log = get().workoutLogs.find((l) => l.id === logId);
+        if (!log) return undefined;
+        const day = logToWorkoutDay(log, name);
+
+        // Saved days join the end of week 1, which later weeks repeat unless they have their own
+        const program = programId ? get().programs.find((p) => p.id === programId) : undefined;
+        if (program) {
+          const dayNumber = getDaysForWeek(program.workoutDays, 1).length + 1;
+          get().updateProgram(program.id, {
+            workoutDays: [...program.workoutDays, { ...day, weekNumber: 1, dayNumber }],
+            daysPerWeek: Math.max(program.daysPerWeek, dayNumber),
+          });
+          return get().programs.find((p) => p.id === program.id);
+        }
+        return get().addProgram({
+          name,
+          description: `Saved from the workout on ${new Date(log.date).toLocaleDateString()}`,
+          duration: 1,
+          daysPerWeek: 1,
+          goal: 'general',
+          workoutDays: [{ ...day, weekNumber: 1, dayNumber: 1 }],
+        });
+      },
+
+      // Rest Timer
+      restTimer: null,
+
+      startRestTimer: (seconds, maxSeconds, label) => {
+        set({
+          restTimer: {
+            endsAt: Date.now() + seconds * 1000,
+            duration: seconds,
+            maxDuration: maxSeconds && maxSeconds > seconds ? maxSeconds : undefined,
+            label,
+          },
+        });
+      },
+
+      extendRestTimer: (seconds) => {
+        set((state) => ({
+          restTimer: state.restTimer
+            ? {
+                ...state.restTimer,
+                // Extending a finished rest restarts it from now
+                endsAt: Math.max(state.restTimer.endsAt, Date.now()) + seconds * 1000,
+                duration: state.restTimer.duration + seconds,
+              }
+            : null,
+        }));
+      },
+
+      stopRestTimer: () => {
+        set({ restTimer: null });
       },
 
       // Conversations (Chat History)
@@ -316,25 +779,34 @@ export const useStore = create<AppState>()(
           .filter((l) => l.completed)
           .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
 
-        let currentStreak = 0;
+        let currentStreak: number | null = null;
         let longestStreak = 0;
         let tempStreak = 0;
         let lastDate: Date | null = null;
 
+        // Newest first: the first run is the current streak, if it reaches today
         for (const log of sortedLogs) {
           const logDate = new Date(log.date);
           logDate.setHours(0, 0, 0, 0);
 
           if (!lastDate) {
+            const today = new Date(now);
+            today.setHours(0, 0, 0, 0);
+            const sinceToday = Math.round(
+              (today.getTime() - logDate.getTime()) / (24 * 60 * 60 * 1000)
+            );
+            if (sinceToday > 2) currentStreak = 0;
             tempStreak = 1;
             lastDate = logDate;
           } else {
             const diffDays = Math.round(
               (lastDate.getTime() - logDate.getTime()) / (24 * 60 * 60 * 1000)
             );
+            if (diffDays === 0) continue; // Two workouts on one day are one streak day
             if (diffDays <= 2) {
               tempStreak++;
             } else {
+              currentStreak ??= tempStreak;
               longestStreak = Math.max(longestStreak, tempStreak);
               tempStreak = 1;
             }
@@ -342,11 +814,11 @@ export const useStore = create<AppState>()(
           }
         }
         longestStreak = Math.max(longestStreak, tempStreak);
-        currentStreak = tempStreak;
 
-        // Calculate total volume
+        // Calculate total volume in the user's preferred unit
+        const { weightUnit } = get().settings;
         const totalVolume = workoutLogs.reduce(
-          (acc, log) => acc + calcVolume(log.sets),
+          (acc, log) => acc + calcVolume(log.sets, weightUnit),
           0
         );
 
@@ -358,7 +830,7 @@ export const useStore = create<AppState>()(
         return {
           totalWorkouts: workoutLogs.filter((l) => l.completed).length,
           totalVolume,
-          currentStreak,
+          currentStreak: currentStreak ?? tempStreak,
           longestStreak,
           weeklyWorkouts,
           personalRecords: get().getPersonalRecords(),
@@ -366,40 +838,24 @@ export const useStore = create<AppState>()(
       },
 
       getPersonalRecords: () => {
-        const { workoutLogs } = get();
-        const prMap = new Map<string, PersonalRecord>();
-
-        for (const log of workoutLogs) {
-          for (const set of log.sets) {
-            if (!set.completed || !set.actualWeight || !set.actualReps) continue;
-
-            const key = set.exerciseName;
-            const existing = prMap.get(key);
-            const volume = set.actualWeight * set.actualReps;
-
-            if (!existing || volume > existing.weight * existing.reps) {
-              prMap.set(key, {
-                exerciseId: set.exerciseId,
-                exerciseName: set.exerciseName,
-                weight: set.actualWeight,
-                reps: set.actualReps,
-                date: log.date,
-              });
-            }
-          }
-        }
-
-        return Array.from(prMap.values());
+        const { workoutLogs, exerciseLibrary, settings } = get();
+        // Compare sets logged in different units on a common scale
+        return getCurrentRecords(
+          getRecordHistory(workoutLogs, exerciseLibrary, settings.weightUnit, settings.e1rmFormula)
+        );
       },
 
       // Data Export/Import
       exportData: () => {
-        const { programs, activeProgram, workoutLogs, chatMessages } = get();
+        const { programs, activeProgram, programSchedule, workoutLogs, chatMessages, exerciseLibrary, settings } = get();
         return JSON.stringify({
-          version: 2,
+          version: 3,
           exportedAt: new Date().toISOString(),
+          settings,
+          exerciseLibrary,
           programs,
           activeProgram,
+          programSchedule,
           workoutLogs,
           chatMessages,
         }, null, 2);
@@ -411,12 +867,32 @@ export const useStore = create<AppState>()(
           if (!data.programs || !data.workoutLogs) {
             return false;
           }
+          // Older backups predate the exercise library; relink their sets by name
+          const library: Exercise[] = data.exerciseLibrary || buildDefaultExerciseLibrary();
+          const linked = linkPersistedData(library, data);
+          const before = get();
           set({
-            programs: data.programs || [],
-            activeProgram: data.activeProgram || null,
-            workoutLogs: data.workoutLogs || [],
+            settings: { ...DEFAULT_SETTINGS, ...data.settings },
+            exerciseLibrary: linked.exerciseLibrary,
+            programs: linked.programs,
+            activeProgram: linked.activeProgram,
+            programSchedule: resolveSchedule(linked.activeProgram, linked.workoutLogs, data.programSchedule),
+            workoutLogs: linked.workoutLogs,
             chatMessages: data.chatMessages || [],
           });
+
+          // Sync what the backup changed, so the next pull doesn't undo it
+          get().recordChanges([
+            ...diffChanges('exercise', before.exerciseLibrary, linked.exerciseLibrary),
+            ...diffChanges('program', before.programs, linked.programs),
+            ...diffChanges('workout', before.workoutLogs, linked.workoutLogs),
+          ]);
+          get().queueCall({ kind: 'settings' });
+          get().queueCall({
+            kind: 'active-program',
+            programId: linked.activeProgram?.id || null,
+            startDate: get().programSchedule?.startDate,
+          });
           return true;
         } catch {
           return false;
@@ -428,82 +904,217 @@ export const useStore = create<AppState>()(
       isSyncing: false,
       lastSynced: null,
       syncError: null,
+      syncCursor: 0,
+      syncClock: null,
+      syncVersions: {},
+      pendingChanges: [],
+      pendingCalls: [],
+      localEdits: {},
+
+      recordChanges: (changes, flush = true) => {
+        if (changes.length === 0) return;
+        const node = syncApi.getClientId();
+        let { syncClock, pendingChanges } = get();
+        const { syncEnabled } = get();
+        const syncVersions = { ...get().syncVersions };
+        const localEdits = { ...get().localEdits };
+
+        for (const change of changes) {
+          const key = syncKey(change.entityType, change.entityId);
+          // Without sync, an entity the server has never had is only marked as edited
+          // for initSync to pick up, and its delete has nothing to undo
+          if (!syncEnabled && !syncVersions[key]) {
+            if (change.op === 'upsert') localEdits[key] = true;
+            else delete localEdits[key];
+            continue;
+          }
+
+          delete localEdits[key];
+          syncClock = tickHlc(syncClock, node);
+          syncVersions[key] = syncClock;
+          // Only an entity's latest change needs pushing
+          pendingChanges = [
+            ...pendingChanges.filter((c) => syncKey(c.entityType, c.entityId) !== key),
+            { ...change, hlc: syncClock },
+          ];
+        }
+
+        set({ syncClock, syncVersions, pendingChanges, localEdits });
+        if (syncEnabled && flush) get().flushSyncQueue().catch(console.error);
+      },
+
+      queueCall: (call) => {
+        // Only the latest call of a kind, for the same workout, needs sending
+        set((state) => ({ pendingCalls: [...state.pendingCalls.filter((c) => callKey(c) !== callKey(call)), call] }));
+        if (get().syncEnabled) get().flushSyncQueue().catch(console.error);
+      },
+
+      pushChanges: async () => {
+        let lostToNewer = false;
+        const pending = get().pendingChanges.map((c) => withEntityData(get(), c));
+        for (const batch of toPushBatches(pending)) {
+          const response = await syncApi.pushChanges(batch);
+          if (!response.ok && response.status === undefined) break; // Offline: the rest stay queued
+
+          // An error response fails every change in the request
+          const result = response.ok ? response.result : { applied: [], rejected: [], failed: batch.map((c) => c.hlc) };
+          const settled = new Set([...result.applied, ...result.rejected]);
+          const failed = new Set(result.failed);
+          set((state) => ({
+            pendingChanges: state.pendingChanges
+              .filter((c) => !settled.has(c.hlc))
+              .map((c) => (failed.has(c.hlc) ? { ...c, attempts: (c.attempts || 0) + 1 } : c)),
+          }));
+          if (result.rejected.length > 0) lostToNewer = true;
+        }
+
+        // A change the server keeps failing on won't apply; stop resending it
+        const givenUp = get().pendingChanges.filter((c) => (c.attempts || 0) >= MAX_SEND_ATTEMPTS);
+        if (givenUp.length > 0) {
+          console.error('Sync changes the server could not save:', givenUp);
+          set((state) => ({
+            pendingChanges: state.pendingChanges.filter((c) => !givenUp.includes(c)),
+            syncError: `${givenUp.length} change${givenUp.length === 1 ? '' : 's'} couldn't be saved to the server`,
+          }));
+        }
+
+        // Rejected changes lost to newer ones on the server; fetch the winners
+        if (lostToNewer) await get().pullChanges();
+      },
+
+      flushSyncQueue: async () => {
+        if (!get().syncEnabled) {
+          // The server was unreachable at launch: connecting flushes the queue too
+          if (!get().isSyncing) await get().initSync();
+          const { syncEnabled, pendingChanges, pendingCalls } = get();
+          return syncEnabled && pendingChanges.length === 0 && pendingCalls.length === 0;
+        }
+        if (flushInFlight) {
+          flushAgain = true;
+          return false;
+        }
+
+        flushInFlight = true;
+        try {
+          await get().pushChanges();
+          for (const call of get().pendingCalls) {
+            const sent = await sendCall(get(), call);
+            if (!sent.ok && sent.status === undefined) break; // Offline: the rest wait too
+
+            const attempts = (call.attempts || 0) + 1;
+            if (!sent.ok && attempts < MAX_SEND_ATTEMPTS) {
+              set((state) => ({ pendingCalls: state.pendingCalls.map((c) => (c === call ? { ...c, attempts } : c)) }));
+              continue;
+            }
+            // A newer call for the same thing queued meanwhile stays
+            set((state) => ({ pendingCalls: state.pendingCalls.filter((c) => c !== call) }));
+            if (!sent.ok) {
+              console.error('Sync call the server could not save:', call);
+              set({ syncError: `Couldn't sync ${CALL_LABELS[call.kind]} with the server` });
+            }
+          }
+        } finally {
+          flushInFlight = false;
+        }
+        if (flushAgain) {
+          flushAgain = false;
+          return get().flushSyncQueue();
+        }
+
+        const { pendingChanges, pendingCalls } = get();
+        const flushed = pendingChanges.length === 0 && pendingCalls.length === 0;
+        if (flushed) {
+          if (retryTimer) clearTimeout(retryTimer);
+          retryTimer = null;
+          retryDelay = RETRY_BASE_MS;
+        } else {
+          // Have the service worker wake us when the connection returns, too
+          scheduleRetry();
+          requestBackgroundSync().catch(console.error);
+        }
+        return flushed;
+      },
+
+      pullChanges: async () => {
+        let cursor = get().syncCursor;
+        for (;;) {
+          const page = await syncApi.fetchChanges(cursor);
+          if (!page) return false;
+          set((state) => ({ ...applyRemoteChanges(state, page.changes), syncCursor: page.cursor }));
+          cursor = page.cursor;
+          if (!page.hasMore) return true;
+        }
+      },
 
       initSync: async () => {
         try {
           const available = await syncApi.isSyncAvailable();
           if (!available) {
             set({ syncEnabled: false, syncError: null });
+            // An unreachable server is tried again, as the browser may never go offline and back
+            if (available === null) scheduleRetry();
             return;
           }
 
           set({ syncEnabled: true, isSyncing: true, syncError: null });
 
-          // Fetch data from server
+          // Settings, chat, the active program and the workout draft come in one fetch
           const serverData = await syncApi.fetchSyncData();
+          if (!serverData) {
+            set({ isSyncing: false });
+            return;
+          }
 
-          if (serverData) {
-            const localState = get();
-            const hasLocalData =
-              localState.programs.length > 0 || localState.workoutLogs.length > 0;
-            const hasServerData =
-              serverData.programs.length > 0 || serverData.workouts.length > 0;
-
-            if (hasServerData && !hasLocalData) {
-              // Server has data but local is empty - use server data
-              set({
-                programs: serverData.programs,
-                activeProgram: serverData.activeProgram,
-                workoutLogs: serverData.workouts,
-                chatMessages: serverData.chatMessages || [],
-                lastSynced: new Date().toISOString(),
-                isSyncing: false,
-              });
-            } else if (hasLocalData && !hasServerData) {
-              // Local has data but server is empty - push to server
-              await syncApi.pushSyncData({
-                programs: localState.programs,
-                workouts: localState.workoutLogs,
-                activeProgram: localState.activeProgram,
-              });
-              set({
-                lastSynced: new Date().toISOString(),
-                isSyncing: false,
-              });
-            } else if (hasLocalData && hasServerData) {
-              // Both have data - merge (prefer most recent)
-              const mergedPrograms = mergeData(
-                localState.programs,
-                serverData.programs,
-                'updatedAt'
-              );
-              const mergedWorkouts = mergeData(
-                localState.workoutLogs,
-                serverData.workouts,
-                'date'
-              );
-
-              set({
-                programs: mergedPrograms,
-                workoutLogs: mergedWorkouts,
-                activeProgram: serverData.activeProgram || localState.activeProgram,
-                lastSynced: new Date().toISOString(),
-                isSyncing: false,
-              });
-
-              // Push merged data to server
-              await syncApi.pushSyncData({
-                programs: mergedPrograms,
-                workouts: mergedWorkouts,
-                activeProgram: serverData.activeProgram || localState.activeProgram,
-              });
-            } else {
-              // Neither have data
-              set({ lastSynced: new Date().toISOString(), isSyncing: false });
-            }
+          // Settings saved on the server win; otherwise seed the server with local settings
+          if (serverData.settings && Object.keys(serverData.settings).length > 0) {
+            set({ settings: { ...get().settings, ...serverData.settings } });
           } else {
-            set({ isSyncing: false });
+            await syncApi.saveSettings(get().settings);
+          }
+
+          // Entities edited while sync was off are newer than the server's copies, so they join
+          // the log before pulling; nothing is sent until after the pull
+          const { localEdits } = get();
+          const edited = localEntities(get()).filter((c) => localEdits[syncKey(c.entityType, c.entityId)]);
+          get().recordChanges(edited.map((c) => ({ ...c, op: 'upsert' as const })), false);
+          // A program chosen while offline is newer than the server's choice
+          const choseOffline = get().pendingCalls.some((c) => c.kind === 'active-program');
+
+          // Programs, workouts and library exercises come through the change log
+          const pulled = await get().pullChanges();
+          if (!pulled) throw new Error('Failed to fetch changes');
+
+          // What the server still doesn't have, such as data saved before change-based sync, joins the log too
+          const { syncVersions } = get();
+          const unsynced = localEntities(get()).filter((c) => !syncVersions[syncKey(c.entityType, c.entityId)]);
+          get().recordChanges(unsynced.map((c) => ({ ...c, op: 'upsert' as const })), false);
+          await get().flushSyncQueue();
+
+          const localState = get();
+          const activeProgram = choseOffline
+            ? localState.activeProgram
+            : localState.programs.find((p) => p.id === serverData.activeProgramId) || localState.activeProgram;
+          if (!serverData.activeProgramId && activeProgram && !choseOffline) {
+            get().queueCall({
+              kind: 'active-program',
+              programId: activeProgram.id,
+              startDate: localState.programSchedule?.startDate,
+            });
           }
+
+          set({
+            activeProgram,
+            programSchedule: resolveSchedule(
+              activeProgram,
+              localState.workoutLogs,
+              serverData.programSchedule,
+              localState.programSchedule
+            ),
+            chatMessages: localState.chatMessages.length > 0 ? localState.chatMessages : serverData.chatMessages || [],
+            remoteDraft: findRemoteDraft(serverData.workoutDraft, localState.currentWorkout, localState.workoutLogs),
+            lastSynced: new Date().toISOString(),
+            isSyncing: false,
+          });
         } catch (error) {
           console.error('Sync init error:', error);
           set({
@@ -511,20 +1122,7 @@ export const useStore = create<AppState>()(
             isSyncing: false,
             syncError: 'Failed to initialize sync',
           });
-        }
-      },
-
-      syncToServer: async () => {
-        const { syncEnabled, isSyncing, programs, workoutLogs, activeProgram } = get();
-        if (!syncEnabled || isSyncing) return;
-
-        set({ isSyncing: true, syncError: null });
-        try {
-          await syncApi.pushSyncData({ programs, workouts: workoutLogs, activeProgram });
-          set({ lastSynced: new Date().toISOString(), isSyncing: false });
-        } catch (error) {
-          console.error('Sync to server error:', error);
-          set({ syncError: 'Failed to sync to server', isSyncing: false });
+          scheduleRetry();
         }
       },
 
@@ -534,19 +1132,29 @@ export const useStore = create<AppState>()(
 
         set({ isSyncing: true, syncError: null });
         try {
+          await get().flushSyncQueue();
+          const pulled = await get().pullChanges();
           const serverData = await syncApi.fetchSyncData();
-          if (serverData) {
-            set({
-              programs: serverData.programs,
-              activeProgram: serverData.activeProgram,
-              workoutLogs: serverData.workouts,
-              chatMessages: serverData.chatMessages || [],
-              lastSynced: new Date().toISOString(),
-              isSyncing: false,
-            });
-          } else {
-            set({ isSyncing: false });
+          if (!pulled || !serverData) {
+            set({ syncError: 'Failed to sync from server', isSyncing: false });
+            return;
           }
+
+          const activeProgram = get().programs.find((p) => p.id === serverData.activeProgramId) || null;
+          set({
+            settings: { ...get().settings, ...serverData.settings },
+            activeProgram,
+            programSchedule: resolveSchedule(
+              activeProgram,
+              get().workoutLogs,
+              serverData.programSchedule,
+              get().programSchedule
+            ),
+            chatMessages: serverData.chatMessages || [],
+            remoteDraft: findRemoteDraft(serverData.workoutDraft, get().currentWorkout, get().workoutLogs),
+            lastSynced: new Date().toISOString(),
+            isSyncing: false,
+          });
         } catch (error) {
           console.error('Sync from server error:', error);
           set({ syncError: 'Failed to sync from server', isSyncing: false });
@@ -555,15 +1163,68 @@ export const useStore = create<AppState>()(
     }),
     {
       name: 'fbb-coach-storage',
+      version: 3,
       partialize: (state) => ({
+        settings: state.settings,
+        exerciseLibrary: state.exerciseLibrary,
         programs: state.programs,
         activeProgram: state.activeProgram,
+        programSchedule: state.programSchedule,
         workoutLogs: state.workoutLogs,
         conversations: state.conversations,
         activeConversationId: state.activeConversationId,
         currentWorkout: state.currentWorkout,
-        // Don't persist sync state or derived chatMessages
+        restTimer: state.restTimer,
+        syncCursor: state.syncCursor,
+        syncClock: state.syncClock,
+        syncVersions: state.syncVersions,
+        pendingChanges: state.pendingChanges,
+        pendingCalls: state.pendingCalls,
+        localEdits: state.localEdits,
+        lastSynced: state.lastSynced,
+        // Don't persist connection state or derived chatMessages
       }),
+      migrate: (persistedState, version) => {
+        const state = persistedState as Partial<AppState>;
+        if (version < 1) {
+          // v0 sets carried a random exerciseId per set; link them to the library by name
+          const library = buildDefaultExerciseLibrary();
+          const linked = linkPersistedData(library, {
+            programs: state.programs || [],
+            activeProgram: state.activeProgram || null,
+            workoutLogs: state.workoutLogs || [],
+          });
+          Object.assign(state, linked, {
+            currentWorkout: state.currentWorkout
+              ? {
+                  ...state.currentWorkout,
+                  sets: linkSetsToLibrary(state.currentWorkout.sets, linked.exerciseLibrary).sets,
+                }
+              : null,
+          });
+        }
+        if (version < 2) {
+          // Programs activated before start dates existed start from their first logged workout
+          state.programSchedule = resolveSchedule(state.activeProgram || null, state.workoutLogs || []);
+        }
+        if (version < 3) {
+          // Built-in exercises gained a default metric (time, distance, bodyweight, ...)
+          const defaults = new Map(buildDefaultExerciseLibrary().map((e) => [e.id, e.metric]));
+          state.exerciseLibrary = state.exerciseLibrary?.map((e) =>
+            e.metric || !defaults.has(e.id) ? e : { ...e, metric: defaults.get(e.id) }
+          );
+        }
+        return state as AppState;
+      },
+      // Deep-merge settings so preferences added later fall back to their defaults
+      merge: (persistedState, currentState) => {
+        const persisted = persistedState as Partial<AppState>;
+        return {
+          ...currentState,
+          ...persisted,
+          settings: { ...currentState.settings, ...persisted.settings },
+        };
+      },
       onRehydrate: () => (state) => {
         // Restore chatMessages from active conversation after rehydration
         if (state && state.activeConversationId) {
@@ -579,32 +1240,242 @@ export const useStore = create<AppState>()(
   )
 );
 
-// Helper function to merge data by ID, preferring most recent
-function mergeData<T extends { id: string }>(
-  local: T[],
-  remote: T[],
-  dateField: keyof T
-): T[] {
-  const merged = new Map<string, T>();
-
-  // Add all remote items first
-  for (const item of remote) {
-    merged.set(item.id, item);
+// Link a program day's exercises and conditioning movements to the exercise library
+function linkDay(day: WorkoutDay, link: AppState['linkExercises']): WorkoutDay {
+  return {
+    ...day,
+    exercises: link(day.exercises),
+    conditioning: day.conditioning?.map((block) => ({ ...block, movements: link(block.movements) })),
+  };
+}
+
+// Link every program and log set in persisted/imported data to the exercise library
+function linkPersistedData(
+  library: Exercise[],
+  data: { programs: Program[]; activeProgram: Program | null; workoutLogs: WorkoutLog[] }
+) {
+  let exerciseLibrary = library;
+  const link = (sets: WorkoutSet[]) => {
+    const result = linkSetsToLibrary(sets, exerciseLibrary);
+    exerciseLibrary = [...exerciseLibrary, ...result.created];
+    return result.sets;
+  };
+  const linkProgram = (program: Program): Program => ({
+    ...program,
+    workoutDays: program.workoutDays.map((day) => ({ ...day, exercises: link(day.exercises) })),
+  });
+
+  const programs = data.programs.map(linkProgram);
+  return {
+    programs,
+    activeProgram: data.activeProgram
+      ? programs.find((p) => p.id === data.activeProgram!.id) || linkProgram(data.activeProgram)
+      : null,
+    workoutLogs: data.workoutLogs.map((log) => ({ ...log, sets: link(log.sets) })),
+    exerciseLibrary,
+  };
+}
+
+// Pick the first schedule that belongs to the active program. Without one, the
+// program is treated as starting on its first logged workout (or today).
+/**
+ * Re-check the PRs of logs dated from `since` on that share an exercise with
+ * `sets`, after log `changedId` was added, edited or deleted: what they beat
+ * may have changed. Returns the logs and the ids of those whose records moved.
+ */
+function recheckLaterRecords(
+  logs: WorkoutLog[],
+  changedId: string,
+  since: string,
+  sets: WorkoutSet[],
+  library: Exercise[],
+  settings: UserSettings
+): { logs: WorkoutLog[]; changed: string[] } {
+  const exercises = new Set(sets.map((s) => s.exerciseId || s.exerciseName));
+  const sinceTime = new Date(since).getTime();
+  const changed: string[] = [];
+
+  const rechecked = logs.map((log) => {
+    if (
+      log.id === changedId ||
+      !log.completed ||
+      new Date(log.date).getTime() < sinceTime ||
+      !log.sets.some((s) => exercises.has(s.exerciseId || s.exerciseName))
+    ) {
+      return log;
+    }
+    const records = detectWorkoutRecords(log, logs, library, settings.weightUnit, settings.e1rmFormula);
+    const sets = log.sets.map((s) => ({ ...s, isPR: records.some((r) => r.setId === s.id) }));
+    const same =
+      sets.every((s, i) => s.isPR === !!log.sets[i].isPR) &&
+      JSON.stringify(records) === JSON.stringify(log.personalRecords || []);
+    if (same) return log;
+    changed.push(log.id);
+    return { ...log, sets, personalRecords: records };
+  });
+
+  return { logs: rechecked, changed };
+}
+
+function resolveSchedule(
+  activeProgram: Program | null,
+  logs: WorkoutLog[],
+  ...candidates: (ProgramSchedule | null | undefined)[]
+): ProgramSchedule | null {
+  if (!activeProgram) return null;
+  const match = candidates.find((c) => c?.programId === activeProgram.id && c.startDate);
+  if (match) return match;
+
+  const firstLog = logs
+    .filter((log) => log.programId === activeProgram.id)
+    .reduce<WorkoutLog | null>(
+      (first, log) => (!first || new Date(log.date) < new Date(first.date) ? log : first),
+      null
+    );
+  return {
+    programId: activeProgram.id,
+    startDate: toScheduleDate(firstLog ? new Date(firstLog.date) : new Date()),
+  };
+}
+
+// A server draft worth offering to resume: one autosaved by another client, or
+// any draft when no workout is running here. Drafts of logged workouts are stale.
+function findRemoteDraft(
+  draft: syncApi.WorkoutDraft | null | undefined,
+  currentWorkout: WorkoutLog | null,
+  logs: WorkoutLog[]
+): WorkoutLog | null {
+  if (!draft || logs.some((log) => log.id === draft.workout.id)) return null;
+  if (currentWorkout && draft.clientId === syncApi.getClientId()) return null;
+  return draft.workout;
+}
+
+// Flush the sync queue again after the backoff delay, which connects first if sync is off
+function scheduleRetry() {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = setTimeout(() => useStore.getState().flushSyncQueue().catch(console.error), retryDelay);
+  retryDelay = Math.min(retryDelay * 2, RETRY_MAX_MS);
+}
+
+// Calls with the same key replace each other in the queue
+function callKey(call: PendingCall): string {
+  return call.kind === 'draft-delete' ? `${call.kind}:${call.workoutId}` : call.kind;
+}
+
+// Send a queued call with the store's current data
+function sendCall(state: AppState, call: PendingCall): Promise<syncApi.SendResult> {
+  switch (call.kind) {
+    case 'settings':
+      return syncApi.saveSettings(state.settings);
+    case 'active-program':
+      return syncApi.setActiveProgram(call.programId, call.startDate);
+    case 'draft':
+      // Nothing to save once the workout is over, or while another device's draft is on offer
+      return state.currentWorkout && !state.remoteDraft
+        ? syncApi.saveWorkoutDraft(state.currentWorkout)
+        : Promise.resolve({ ok: true });
+    case 'draft-delete':
+      return syncApi.deleteWorkoutDraft(call.workoutId);
   }
+}
 
-  // Override with local items if they're more recent
-  for (const item of local) {
-    const existing = merged.get(item.id);
-    if (!existing) {
-      merged.set(item.id, item);
-    } else {
-      const localDate = new Date(item[dateField] as string).getTime();
-      const remoteDate = new Date(existing[dateField] as string).getTime();
-      if (localDate > remoteDate) {
-        merged.set(item.id, item);
+// Split changes into push requests under the batch limits; a change over the size limit goes alone
+function toPushBatches(changes: SyncChange[]): SyncChange[][] {
+  const batches: SyncChange[][] = [];
+  let batch: SyncChange[] = [];
+  let chars = 0;
+  for (const change of changes) {
+    const size = JSON.stringify(change).length;
+    if (batch.length > 0 && (batch.length >= PUSH_BATCH_SIZE || chars + size > PUSH_BATCH_CHARS)) {
+      batches.push(batch);
+      batch = [];
+      chars = 0;
+    }
+    batch.push(change);
+    chars += size;
+  }
+  if (batch.length > 0) batches.push(batch);
+  return batches;
+}
+
+// Changes that turn one list of entities into another: upserts for new or edited ones, deletes for removed ones
+function diffChanges<T extends { id: string }>(
+  entityType: SyncEntityType,
+  before: T[],
+  after: T[]
+): Pick<SyncChange, 'entityType' | 'entityId' | 'op'>[] {
+  const previous = new Map(before.map((e) => [e.id, JSON.stringify(e)]));
+  const kept = new Set(after.map((e) => e.id));
+  return [
+    ...after
+      .filter((e) => previous.get(e.id) !== JSON.stringify(e))
+      .map((e) => ({ entityType, entityId: e.id, op: 'upsert' as const })),
+    ...before.filter((e) => !kept.has(e.id)).map((e) => ({ entityType, entityId: e.id, op: 'delete' as const })),
+  ];
+}
+
+// Every synced entity held locally
+function localEntities(state: AppState): Pick<SyncChange, 'entityType' | 'entityId'>[] {
+  return [
+    ...state.exerciseLibrary.map((e) => ({ entityType: 'exercise' as const, entityId: e.id })),
+    ...state.programs.map((p) => ({ entityType: 'program' as const, entityId: p.id })),
+    ...state.workoutLogs.map((w) => ({ entityType: 'workout' as const, entityId: w.id })),
+  ];
+}
+
+// Key of an entity in syncVersions
+function syncKey(entityType: SyncEntityType, entityId: string): string {
+  return `${entityType}:${entityId}`;
+}
+
+// A queued change ready to push, with the entity as it is now for upserts
+function withEntityData(state: AppState, change: PendingChange): SyncChange {
+  if (change.op === 'delete') return change;
+  const entities: { id: string }[] =
+    change.entityType === 'program'
+      ? state.programs
+      : change.entityType === 'workout'
+      ? state.workoutLogs
+      : state.exerciseLibrary;
+  return { ...change, data: entities.find((e) => e.id === change.entityId) as SyncChange['data'] };
+}
+
+// Replace an item in place, add it at the end, or remove it (null)
+function replaceById<T extends { id: string }>(items: T[], id: string, item: T | null): T[] {
+  if (!item) return items.filter((i) => i.id !== id);
+  return items.some((i) => i.id === id) ? items.map((i) => (i.id === id ? item : i)) : [...items, item];
+}
+
+// Apply changes pulled from the server's log. A change no newer than the local
+// version of its entity (our own changes coming back, or ones we've since
+// overwritten) is skipped; a newer one also drops any queued local change it beat.
+function applyRemoteChanges(state: AppState, changes: SyncChange[]) {
+  const node = syncApi.getClientId();
+  let { programs, activeProgram, programSchedule, workoutLogs, exerciseLibrary, syncClock, pendingChanges } = state;
+  const syncVersions = { ...state.syncVersions };
+
+  for (const change of changes) {
+    syncClock = receiveHlc(syncClock, change.hlc, node);
+    const key = syncKey(change.entityType, change.entityId);
+    const local = syncVersions[key];
+    if (local && local >= change.hlc) continue;
+
+    syncVersions[key] = change.hlc;
+    pendingChanges = pendingChanges.filter((c) => syncKey(c.entityType, c.entityId) !== key);
+
+    const data = change.op === 'delete' ? null : change.data;
+    if (change.entityType === 'program') {
+      programs = replaceById(programs, change.entityId, data as Program | null);
+      if (activeProgram?.id === change.entityId) {
+        activeProgram = (data as Program | null) || null;
+        if (!activeProgram) programSchedule = null;
       }
+    } else if (change.entityType === 'workout') {
+      workoutLogs = replaceById(workoutLogs, change.entityId, data as WorkoutLog | null);
+    } else {
+      exerciseLibrary = replaceById(exerciseLibrary, change.entityId, data as Exercise | null);
     }
   }
 
-  return Array.from(merged.values());
+  return { programs, activeProgram, programSchedule, workoutLogs, exerciseLibrary, syncClock, syncVersions, pendingChanges };
 }
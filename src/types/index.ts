@@ -1,29 +1,161 @@
+export type MovementPattern =
+  | 'squat'
+  | 'hinge'
+  | 'lunge'
+  | 'horizontal-push'
+  | 'vertical-push'
+  | 'horizontal-pull'
+  | 'vertical-pull'
+  | 'isolation'
+  | 'core'
+  | 'olympic'
+  | 'gymnastics'
+  | 'conditioning'
+  | 'other';
+
+/**
+ * What a set of an exercise measures. "bodyweight" sets log load added over
+ * bodyweight (0 = bodyweight only), "assisted" sets log the assistance removed.
+ */
+export type SetMetric = 'weight' | 'bodyweight' | 'assisted' | 'duration' | 'distance' | 'calories';
+
 export interface Exercise {
-  id: string;
+  id: string;          // Stable slug for built-ins ("bench-press"), uuid for custom entries
   name: string;
+  aliases: string[];   // Alternate spellings matched when resolving free-text names
   muscleGroup: string;
   equipment: string;
+  movementPattern: MovementPattern;
+  metric?: SetMetric;  // Defaults to 'weight'
+  trainingMax?: TrainingMax;
+  isCustom?: boolean;
   description?: string;
   videoUrl?: string;
+  updatedAt?: string;
 }
 
+export type WeightUnit = 'kg' | 'lb';
+
+/** Load that percentage prescriptions ("85%") are taken from */
+export interface TrainingMax {
+  weight: number;
+  unit: WeightUnit;
+  updatedAt: string;
+}
+
+/**
+ * How a set is performed. Everything but warm-ups counts toward volume and
+ * PRs; drop sets are a top set followed by lighter drops nested under it, and
+ * rest-pause and cluster sets log their reps as mini-sets.
+ */
+export type SetType = 'working' | 'warmup' | 'drop' | 'rest-pause' | 'cluster' | 'amrap';
+
 export interface WorkoutSet {
   id: string;
-  exerciseId: string;
+  exerciseId: string;  // Exercise library ID ('' until the name resolves to an entry)
   exerciseName: string;
   setNumber: number;
   targetReps: number;
   targetWeight: number;
   actualReps?: number;
   actualWeight?: number;
+  unit?: WeightUnit;   // Unit of target/actual weight; sets logged before units existed are lb
+  metric?: SetMetric;  // What the set measures; falls back to the exercise's metric, then 'weight'
+  setType?: SetType;   // Defaults to 'working'
+  parentSetId?: string; // Drops: the top set they follow
+  drops?: number;      // Drop set top sets: drops prescribed after it
+  segments?: number[]; // Rest-pause / cluster: reps of each mini-set (actualReps is their sum)
+  targetDuration?: number;  // seconds
+  actualDuration?: number;
+  targetDistance?: number;  // meters
+  actualDistance?: number;
+  targetCalories?: number;
+  actualCalories?: number;
   rpe?: number;
   completed: boolean;
+  completedAt?: string; // When the set was ticked off; splits the workout's time between exercises
+  isPR?: boolean;      // Beat a previous record when it was completed
   notes?: string;
   tempo?: string;      // "31X1", "4010"
+  timeUnderTension?: number; // seconds, from the tempo guide or tempo × reps
   intensity?: string;  // "2 RIR", "85%"
   rest?: string;       // "2-3 min", "90 sec"
   reps?: string;       // "6-8" (rich string format from AI)
   sets?: number;       // Alias for setNumber from new schema
+  groupId?: string;    // ExerciseGroup this exercise is performed in (A1/A2 pairings)
+  progression?: ProgressionRule; // How targetWeight moves from session to session
+  progressionNote?: string;      // Why startWorkout picked this session's target
+  adjustmentReason?: string;     // Why the target was changed mid-session (RPE off target)
+  swappedFrom?: Pick<WorkoutSet, 'exerciseId' | 'exerciseName'>; // Prescribed exercise, when swapped mid-session
+}
+
+/**
+ * Load progression: linear adds `increment` after a session where every set
+ * hit its reps; double progression adds reps across the `reps` range ("6-8")
+ * before adding load; RPE-based adjusts load toward a target RPE.
+ */
+export type ProgressionType = 'linear' | 'double' | 'rpe';
+
+export interface ProgressionRule {
+  type: ProgressionType;
+  increment: number;   // Load step in the exercise's unit; RPE-based targets are rounded to it
+  targetRpe?: number;  // RPE-based: falls back to the exercise's intensity ("RPE 8", "2 RIR")
+}
+
+export type ExerciseGroupType = 'superset' | 'giant-set' | 'circuit';
+
+export interface ExerciseGroup {
+  id: string;
+  type: ExerciseGroupType;
+  label: string;       // "A" → members are shown as A1, A2, ...
+  rounds: number;      // Every member is performed once per round
+  rest?: string;       // Rest after each full round ("90 sec")
+}
+
+export type ConditioningFormat = 'amrap' | 'emom' | 'for-time' | 'intervals';
+
+export interface ConditioningMovement {
+  id: string;
+  exerciseId: string;
+  exerciseName: string;
+  reps?: number;
+  calories?: number;
+  distance?: number;   // meters
+  weight?: number;
+  unit?: WeightUnit;
+}
+
+export interface ConditioningBlock {
+  id: string;
+  name: string;
+  format: ConditioningFormat;
+  timeCap: number;     // seconds: AMRAP/EMOM length, For Time cap
+  interval?: number;   // seconds: EMOM interval, Intervals work period
+  rest?: number;       // seconds: Intervals rest period
+  rounds?: number;     // For Time / Intervals rounds
+  movements: ConditioningMovement[];
+  notes?: string;
+}
+
+export interface ConditioningScore {
+  rounds?: number;     // AMRAP full rounds, EMOM/Intervals rounds completed
+  reps?: number;       // AMRAP partial-round reps, or total reps
+  time?: number;       // seconds, For Time
+  capped?: boolean;    // For Time not finished inside the cap
+  calories?: number;
+  notes?: string;
+}
+
+/** A conditioning block's clock in the workout in progress, kept so it runs on when the tracker is left */
+export interface ConditioningClock {
+  startedAt?: string;  // When the clock last started; unset while it's stopped
+  banked: number;      // Seconds run before the last pause
+}
+
+/** A conditioning block as performed in a workout, with its score once logged */
+export interface ConditioningResult extends ConditioningBlock {
+  score?: ConditioningScore;
+  clock?: ConditioningClock;
 }
 
 export interface WorkoutDay {
@@ -31,6 +163,8 @@ export interface WorkoutDay {
   name: string;
   dayOfWeek: number;
   exercises: WorkoutSet[];
+  groups?: ExerciseGroup[];
+  conditioning?: ConditioningBlock[];
   notes?: string;
   weekNumber?: number;
   dayNumber?: number;
@@ -48,18 +182,41 @@ export interface Program {
   updatedAt: string;
 }
 
+export interface ProgramSchedule {
+  programId: string;
+  startDate: string; // "yyyy-MM-dd": the local day week 1 begins
+}
+
+/** A stretch of a workout between starting (or resuming) and pausing (or finishing) */
+export interface WorkoutInterval {
+  start: string;
+  end?: string;        // Open while the workout is running
+}
+
 export interface WorkoutLog {
   id: string;
   programId?: string;
   workoutDayId?: string;
   date: string;
-  duration: number; // minutes
+  duration: number; // minutes, active time only
+  intervals?: WorkoutInterval[]; // Missing on workouts logged before pausing existed
   sets: WorkoutSet[];
+  groups?: ExerciseGroup[]; // Copied from the program day; sets reference them by groupId
+  conditioning?: ConditioningResult[];
+  personalRecords?: PersonalRecord[]; // PRs set during this workout
   notes?: string;
   rating?: number;
   completed: boolean;
 }
 
+/** Running rest period; times are absolute so the timer survives navigation and reloads */
+export interface RestTimer {
+  endsAt: number;      // epoch ms when the minimum rest is over
+  duration: number;    // seconds
+  maxDuration?: number; // upper bound of a prescribed range ("2-3 min")
+  label?: string;      // What the rest follows, for notifications
+}
+
 export interface UserStats {
   totalWorkouts: number;
   totalVolume: number;
@@ -69,14 +226,111 @@ export interface UserStats {
   personalRecords: PersonalRecord[];
 }
 
+/** Estimated-1RM (e1RM) formula */
+export type E1rmFormula = 'epley' | 'brzycki';
+
+/**
+ * Kinds of personal record: estimated 1RM, best weight for N reps (N-RM), most
+ * volume in one session, and the best set for non-weight metrics.
+ */
+export type PRCategory = 'e1rm' | 'rep-max' | 'volume' | 'best';
+
 export interface PersonalRecord {
   exerciseId: string;
   exerciseName: string;
-  weight: number;
-  reps: number;
+  category: PRCategory;
+  metric?: SetMetric;
+  weight: number;      // Load, added load or assistance depending on the metric
+  reps: number;        // N for rep-max records, otherwise the reps of the record set
+  value?: number;      // e1RM, session volume, or seconds / meters / calories for those metrics
+  unit: WeightUnit;
   date: string;
+  setId?: string;      // Set that broke the record (session volume has none)
+}
+
+export interface PlateCount {
+  weight: number;
+  count: number;       // Plates owned; they load in pairs
+}
+
+/** Equipment at one gym: bar and plates, in the profile's unit */
+export interface GymProfile {
+  id: string;
+  name: string;
+  unit: WeightUnit;
+  barWeight: number;
+  plates: PlateCount[];
 }
 
+export const DEFAULT_GYM_PROFILES: GymProfile[] = [
+  {
+    id: 'default-lb',
+    name: 'Commercial gym (lb)',
+    unit: 'lb',
+    barWeight: 45,
+    plates: [45, 35, 25, 10, 5, 2.5].map((weight) => ({ weight, count: weight === 45 ? 12 : 4 })),
+  },
+  {
+    id: 'default-kg',
+    name: 'Commercial gym (kg)',
+    unit: 'kg',
+    barWeight: 20,
+    plates: [25, 20, 15, 10, 5, 2.5, 1.25].map((weight) => ({ weight, count: weight === 20 ? 12 : 4 })),
+  },
+];
+
+export interface UserSettings {
+  weightUnit: WeightUnit;
+  e1rmFormula: E1rmFormula;
+  loadIncrements: Record<WeightUnit, number>; // Smallest load jump, for rounding computed targets
+  trainingMaxPercent: number; // Training max as a % of estimated 1RM
+  gymProfiles: GymProfile[];
+  activeGymProfileId?: string; // Falls back to the first profile in the weight unit
+}
+
+export const DEFAULT_SETTINGS: UserSettings = {
+  weightUnit: 'lb',
+  e1rmFormula: 'epley',
+  loadIncrements: { lb: 5, kg: 2.5 },
+  trainingMaxPercent: 90,
+  gymProfiles: DEFAULT_GYM_PROFILES,
+};
+
+/** Entities synced through the change log */
+export type SyncEntityType = 'program' | 'workout' | 'exercise';
+
+/**
+ * One create/update ('upsert') or delete in the sync change log, stamped with
+ * a hybrid logical clock (utils/hlc) that decides which of two edits wins.
+ */
+export interface SyncChange {
+  entityType: SyncEntityType;
+  entityId: string;
+  op: 'upsert' | 'delete';
+  hlc: string;
+  data?: Program | WorkoutLog | Exercise; // Upserts: the entity as saved
+  seq?: number;        // Position in the server's log, on pulled changes
+  clientId?: string;   // Client that made the change, on pulled changes
+}
+
+/** A local change waiting to be pushed; upserts send the entity as it is when pushed */
+export type PendingChange = Pick<SyncChange, 'entityType' | 'entityId' | 'op' | 'hlc'> & {
+  attempts?: number;   // Pushes the server failed to save
+};
+
+/**
+ * A sync call outside the change log waiting to be sent; settings and the
+ * workout draft are sent as they are when the call goes out.
+ */
+export type PendingCall = (
+  | { kind: 'settings' }
+  | { kind: 'active-program'; programId: string | null; startDate?: string }
+  | { kind: 'draft' }
+  | { kind: 'draft-delete'; workoutId: string }
+) & {
+  attempts?: number;   // Sends the server answered with an error
+};
+
 export interface ChatMessage {
   id: string;
   role: 'user' | 'assistant';
@@ -109,12 +363,38 @@ export const MUSCLE_GROUPS: MuscleGroup[] = [
   { name: 'Conditioning', exercises: ['Wall Balls', 'Box Jumps', 'Burpees', 'Thrusters', 'Rowing', 'Ski Erg', 'Assault Bike'] },
 ];
 
-/** Calculate total volume (weight × reps) for an array of workout sets */
-export function calcVolume(sets: WorkoutSet[]): number {
-  return sets.reduce(
-    (acc, s) => acc + (s.actualWeight || 0) * (s.actualReps || 0),
+export const KG_PER_LB = 0.45359237;
+
+/** Convert a weight between units (no rounding) */
+export function convertWeight(value: number, from: WeightUnit, to: WeightUnit): number {
+  if (from === to) return value;
+  return from === 'lb' ? value * KG_PER_LB : value / KG_PER_LB;
+}
+
+/** Round a converted weight to a loadable number: nearest 2.5 kg or 5 lb */
+export function roundWeight(value: number, unit: WeightUnit): number {
+  const step = unit === 'kg' ? 2.5 : 5;
+  return Math.round(value / step) * step;
+}
+
+/** Display label used next to weights ("lbs" / "kg") */
+export function weightUnitLabel(unit: WeightUnit): string {
+  return unit === 'kg' ? 'kg' : 'lbs';
+}
+
+/**
+ * Calculate total volume (weight × reps) for an array of workout sets, in the given unit.
+ * Bodyweight sets count their added load; assisted, timed and cardio sets add nothing.
+ */
+export function calcVolume(sets: WorkoutSet[], unit: WeightUnit = 'lb'): number {
+  const volume = sets.reduce(
+    (acc, s) =>
+      s.setType === 'warmup' || (s.metric && s.metric !== 'weight' && s.metric !== 'bodyweight')
+        ? acc
+        : acc + convertWeight(s.actualWeight || 0, s.unit || 'lb', unit) * (s.actualReps || 0),
     0
   );
+  return Math.round(volume);
 }
 
 export const EQUIPMENT_TYPES = [
@@ -126,6 +406,9 @@ export const EQUIPMENT_TYPES = [
   'Resistance Bands',
   'Kettlebell',
   'Machine',
+  'Rings',
+  'Medicine Ball',
+  'Cardio Machine',
 ];
 
 export interface ProgramOverview {
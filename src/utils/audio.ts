@@ -0,0 +1,23 @@
+let context: AudioContext | null = null;
+
+/**
+ * Short sine beep through Web Audio. The context is created on first use,
+ * which must follow a user gesture for browsers to allow sound.
+ */
+export function playBeep(frequency = 880, duration = 0.12, volume = 0.3): void {
+  const AudioCtor =
+    window.AudioContext ||
+    (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+  if (!AudioCtor) return;
+  context = context || new AudioCtor();
+  if (context.state === 'suspended') context.resume().catch(() => undefined);
+
+  const oscillator = context.createOscillator();
+  const gain = context.createGain();
+  oscillator.frequency.value = frequency;
+  gain.gain.setValueAtTime(volume, context.currentTime);
+  gain.gain.exponentialRampToValueAtTime(0.001, context.currentTime + duration);
+  oscillator.connect(gain).connect(context.destination);
+  oscillator.start();
+  oscillator.stop(context.currentTime + duration);
+}
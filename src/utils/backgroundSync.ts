@@ -0,0 +1,35 @@
+/** Background Sync tag the service worker answers by asking the app to flush its sync queue */
+export const SYNC_QUEUE_TAG = 'fbb-sync-queue';
+
+// Background Sync isn't in TypeScript's DOM types yet
+type SyncRegistration = ServiceWorkerRegistration & {
+  sync?: { register: (tag: string) => Promise<void> };
+};
+
+/**
+ * Ask the service worker to wake the app once connectivity returns, where the
+ * browser supports Background Sync. Timed retries cover the rest.
+ */
+export async function requestBackgroundSync(): Promise<void> {
+  if (!('serviceWorker' in navigator)) return;
+  const registration = (await navigator.serviceWorker.getRegistration()) as SyncRegistration | undefined;
+  await registration?.sync?.register(SYNC_QUEUE_TAG).catch(() => undefined);
+}
+
+/**
+ * Run `flush` when the service worker's background sync fires, replying
+ * whether the queue emptied so the browser retries the sync if it didn't.
+ * Returns a function that stops listening.
+ */
+export function onBackgroundSync(flush: () => Promise<boolean>): () => void {
+  if (!('serviceWorker' in navigator)) return () => undefined;
+
+  const onMessage = (event: MessageEvent) => {
+    if (event.data?.type !== 'FLUSH_SYNC_QUEUE') return;
+    flush()
+      .catch(() => false)
+      .then((ok) => event.ports[0]?.postMessage({ ok }));
+  };
+  navigator.serviceWorker.addEventListener('message', onMessage);
+  return () => navigator.serviceWorker.removeEventListener('message', onMessage);
+}
@@ -0,0 +1,200 @@
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  ConditioningBlock,
+  ConditioningFormat,
+  ConditioningMovement,
+  ConditioningScore,
+} from '../types';
+import { weightUnitLabel } from '../types';
+
+export const CONDITIONING_FORMAT_LABELS: Record<ConditioningFormat, string> = {
+  amrap: 'AMRAP',
+  emom: 'EMOM',
+  'for-time': 'For Time',
+  intervals: 'Intervals',
+};
+
+/** A new block with sensible defaults for its format */
+export function createConditioningBlock(format: ConditioningFormat): ConditioningBlock {
+  const base = { id: uuidv4(), name: CONDITIONING_FORMAT_LABELS[format], format, movements: [], notes: '' };
+  switch (format) {
+    case 'amrap':
+      return { ...base, timeCap: 12 * 60 };
+    case 'emom':
+      return { ...base, timeCap: 10 * 60, interval: 60 };
+    case 'for-time':
+      return { ...base, timeCap: 15 * 60, rounds: 3 };
+    case 'intervals':
+      return { ...base, timeCap: 0, interval: 40, rest: 20, rounds: 8 };
+  }
+}
+
+export function createConditioningMovement(): ConditioningMovement {
+  return { id: uuidv4(), exerciseId: '', exerciseName: '', reps: 10 };
+}
+
+/** Total length of the block in seconds (Intervals are rounds × (work + rest)) */
+export function getBlockDuration(block: ConditioningBlock): number {
+  if (block.format === 'intervals') {
+    return Math.max(block.rounds || 1, 1) * ((block.interval || 0) + (block.rest || 0));
+  }
+  return block.timeCap;
+}
+
+/** "12:00", "1:05:30" */
+export function formatClock(seconds: number): string {
+  const total = Math.max(Math.round(seconds), 0);
+  const hrs = Math.floor(total / 3600);
+  const mins = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  if (hrs > 0) {
+    return `${hrs}:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  }
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+}
+
+/** One-line prescription, e.g. "AMRAP 12 min", "EMOM 10 min (every 1:00)", "8 × 0:40 on / 0:20 off" */
+export function describeBlock(block: ConditioningBlock): string {
+  const minutes = Math.round(block.timeCap / 60);
+  switch (block.format) {
+    case 'amrap':
+      return `AMRAP ${minutes} min`;
+    case 'emom':
+      return block.interval && block.interval !== 60
+        ? `EMOM ${minutes} min (every ${formatClock(block.interval)})`
+        : `EMOM ${minutes} min`;
+    case 'for-time':
+      return `${block.rounds && block.rounds > 1 ? `${block.rounds} rounds ` : ''}For Time${
+        block.timeCap ? ` (cap ${minutes} min)` : ''
+      }`;
+    case 'intervals':
+      return `${block.rounds || 1} × ${formatClock(block.interval || 0)} on / ${formatClock(block.rest || 0)} off`;
+  }
+}
+
+/** "10 Wall Balls", "15 cal Assault Bike", "400m Run" */
+export function describeMovement(movement: ConditioningMovement): string {
+  const amount = movement.distance
+    ? `${movement.distance}m`
+    : movement.calories
+    ? `${movement.calories} cal`
+    : movement.reps
+    ? `${movement.reps}`
+    : '';
+  const load = movement.weight ? ` @ ${movement.weight} ${weightUnitLabel(movement.unit || 'lb')}` : '';
+  return `${amount} ${movement.exerciseName}${load}`.trim();
+}
+
+/** Reps in one round, used to turn an AMRAP score into a decimal round count */
+function repsPerRound(block: ConditioningBlock): number {
+  return block.movements.reduce((acc, m) => acc + (m.reps || m.calories || 0), 0);
+}
+
+/** Human-readable score: "5 + 12", "8:34", "CAP + 20 reps", "120 reps" */
+export function formatScore(block: ConditioningBlock, score: ConditioningScore): string {
+  const calories = score.calories ? ` · ${score.calories} cal` : '';
+  switch (block.format) {
+    case 'amrap':
+      return `${score.rounds || 0} + ${score.reps || 0}${calories}`;
+    case 'for-time':
+      return score.capped
+        ? `CAP${score.reps ? ` + ${score.reps} reps` : ''}${calories}`
+        : `${formatClock(score.time || 0)}${calories}`;
+    case 'emom':
+    case 'intervals':
+      return [
+        score.rounds ? `${score.rounds} rounds` : '',
+        score.reps ? `${score.reps} reps` : '',
+        score.calories ? `${score.calories} cal` : '',
+      ]
+        .filter(Boolean)
+        .join(' · ') || '—';
+  }
+}
+
+/**
+ * Single number for charting a block's scores over time. AMRAPs chart rounds
+ * (partial rounds as a fraction), For Time charts minutes (lower is better;
+ * capped efforts are left out), EMOMs and Intervals chart reps or calories.
+ */
+export function scoreValue(block: ConditioningBlock, score: ConditioningScore): number | null {
+  switch (block.format) {
+    case 'amrap': {
+      const perRound = repsPerRound(block);
+      const partial = perRound > 0 ? (score.reps || 0) / perRound : 0;
+      return Math.round(((score.rounds || 0) + partial) * 100) / 100;
+    }
+    case 'for-time':
+      return score.capped || !score.time ? null : Math.round((score.time / 60) * 100) / 100;
+    case 'emom':
+    case 'intervals':
+      return score.reps || score.calories || score.rounds || null;
+  }
+}
+
+/** Axis label matching scoreValue */
+export function scoreUnitLabel(block: ConditioningBlock): string {
+  switch (block.format) {
+    case 'amrap':
+      return 'Rounds';
+    case 'for-time':
+      return 'Minutes';
+    default:
+      return 'Reps / cal';
+  }
+}
+
+/** Identifies "the same workout" across logs so repeated benchmarks chart together */
+export function blockKey(block: Pick<ConditioningBlock, 'name' | 'format'>): string {
+  return `${block.format}:${block.name.trim().toLowerCase()}`;
+}
+
+export interface ClockState {
+  elapsed: number;
+  display: number;         // Seconds shown on the clock (count down or up by format)
+  phase: 'work' | 'rest' | 'done';
+  round?: number;          // Current EMOM minute / interval round
+  totalRounds?: number;
+}
+
+/**
+ * Clock for a running block: AMRAP counts down the time cap, For Time counts
+ * up to the cap, EMOM counts down each interval and Intervals alternate work
+ * and rest countdowns.
+ */
+export function getClockState(block: ConditioningBlock, elapsed: number): ClockState {
+  const duration = getBlockDuration(block);
+  if (duration > 0 && elapsed >= duration) {
+    return { elapsed, display: block.format === 'for-time' ? duration : 0, phase: 'done' };
+  }
+
+  switch (block.format) {
+    case 'amrap':
+      return { elapsed, display: duration - elapsed, phase: 'work' };
+    case 'for-time':
+      return { elapsed, display: elapsed, phase: 'work' };
+    case 'emom': {
+      const interval = block.interval || 60;
+      return {
+        elapsed,
+        display: interval - (elapsed % interval),
+        phase: 'work',
+        round: Math.floor(elapsed / interval) + 1,
+        totalRounds: Math.ceil(duration / interval),
+      };
+    }
+    case 'intervals': {
+      const work = block.interval || 0;
+      const cycle = work + (block.rest || 0);
+      const intoCycle = cycle > 0 ? elapsed % cycle : 0;
+      const working = intoCycle < work;
+      return {
+        elapsed,
+        display: working ? work - intoCycle : cycle - intoCycle,
+        phase: working ? 'work' : 'rest',
+        round: cycle > 0 ? Math.floor(elapsed / cycle) + 1 : 1,
+        totalRounds: block.rounds || 1,
+      };
+    }
+  }
+}
@@ -0,0 +1,94 @@
+import type { ExerciseGroup, ExerciseGroupType, WorkoutDay, WorkoutSet } from '../types';
+
+export const GROUP_TYPE_LABELS: Record<ExerciseGroupType, string> = {
+  superset: 'Superset',
+  'giant-set': 'Giant Set',
+  circuit: 'Circuit',
+};
+
+/** First letter not already used by a group in the day ("A", "B", ...) */
+export function nextGroupLabel(groups: ExerciseGroup[]): string {
+  const used = new Set(groups.map((g) => g.label.toUpperCase()));
+  for (let i = 0; i < 26; i++) {
+    const label = String.fromCharCode(65 + i);
+    if (!used.has(label)) return label;
+  }
+  return String(groups.length + 1);
+}
+
+/** Default type for a group of this many exercises */
+export function groupTypeForSize(size: number, current?: ExerciseGroupType): ExerciseGroupType {
+  if (current === 'circuit') return current;
+  return size > 2 ? 'giant-set' : 'superset';
+}
+
+export function findGroup(groups: ExerciseGroup[] | undefined, groupId: string | undefined): ExerciseGroup | undefined {
+  return groupId ? groups?.find((g) => g.id === groupId) : undefined;
+}
+
+/** Distinct exercise keys in a group, in the order they're performed */
+function memberKeys(sets: WorkoutSet[], groupId: string): string[] {
+  const keys: string[] = [];
+  for (const set of sets) {
+    const key = set.exerciseId || set.exerciseName;
+    if (set.groupId === groupId && !keys.includes(key)) keys.push(key);
+  }
+  return keys;
+}
+
+/** Position label for an exercise inside its group, e.g. "A2" */
+export function getMemberLabel(group: ExerciseGroup, sets: WorkoutSet[], set: WorkoutSet): string {
+  const index = memberKeys(sets, group.id).indexOf(set.exerciseId || set.exerciseName);
+  return `${group.label}${index + 1}`;
+}
+
+/**
+ * Drop groups with fewer than two exercises and clear the groupId of any
+ * exercise left pointing at a group that no longer exists.
+ */
+export function pruneGroups(
+  exercises: WorkoutSet[],
+  groups: ExerciseGroup[] = []
+): { exercises: WorkoutSet[]; groups: ExerciseGroup[] } {
+  const kept = groups.filter((g) => exercises.filter((e) => e.groupId === g.id).length >= 2);
+  const keptIds = new Set(kept.map((g) => g.id));
+  return {
+    groups: kept,
+    exercises: exercises.map((e) =>
+      e.groupId && !keptIds.has(e.groupId) ? { ...e, groupId: undefined } : e
+    ),
+  };
+}
+
+/**
+ * Turn a program day's prescriptions into the individual sets to log. Straight
+ * exercises become `setNumber` consecutive sets; grouped exercises alternate
+ * round by round (A1, A2, A1, A2, ...) with setNumber holding the round.
+ */
+export function expandDaySets(day: WorkoutDay): WorkoutSet[] {
+  const sets: WorkoutSet[] = [];
+  const expanded = new Set<string>();
+
+  for (const exercise of day.exercises) {
+    const group = findGroup(day.groups, exercise.groupId);
+
+    if (!group) {
+      for (let n = 1; n <= Math.max(exercise.setNumber, 1); n++) {
+        sets.push({ ...exercise, groupId: undefined, setNumber: n });
+      }
+      continue;
+    }
+
+    if (expanded.has(group.id)) continue;
+    expanded.add(group.id);
+
+    const members = day.exercises.filter((e) => e.groupId === group.id);
+    for (let round = 1; round <= Math.max(group.rounds, 1); round++) {
+      for (const member of members) {
+        sets.push({ ...member, setNumber: round });
+      }
+    }
+  }
+
+  return sets;
+}
@@ -0,0 +1,199 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { Exercise, MovementPattern, SetMetric, WorkoutSet } from '../types';
+import { MUSCLE_GROUPS } from '../types';
+
+/** Catalog metadata for the built-in exercises listed in MUSCLE_GROUPS */
+const SEED_METADATA: Record<
+  string,
+  { equipment: string; movementPattern: MovementPattern; aliases?: string[]; metric?: SetMetric }
+> = {
+  // Chest
+  'Bench Press': { equipment: 'Barbell', movementPattern: 'horizontal-push', aliases: ['Barbell Bench Press', 'Flat Bench', 'BB Bench'] },
+  'Incline Dumbbell Press': { equipment: 'Dumbbell', movementPattern: 'horizontal-push', aliases: ['Incline DB Press'] },
+  'Cable Flyes': { equipment: 'Cable Machine', movementPattern: 'isolation', aliases: ['Cable Fly', 'Cable Crossover'] },
+  'Dips': { equipment: 'Bodyweight', movementPattern: 'vertical-push', aliases: ['Parallel Bar Dips', 'Bar Dips'], metric: 'bodyweight' },
+  'Push-ups': { equipment: 'Bodyweight', movementPattern: 'horizontal-push', aliases: ['Pushup', 'Press-up'], metric: 'bodyweight' },
+  // Back
+  'Deadlift': { equipment: 'Barbell', movementPattern: 'hinge', aliases: ['Conventional Deadlift', 'Barbell Deadlift'] },
+  'Barbell Rows': { equipment: 'Barbell', movementPattern: 'horizontal-pull', aliases: ['Bent Over Row', 'Bent-Over Barbell Row'] },
+  'Pull-ups': { equipment: 'Bodyweight', movementPattern: 'vertical-pull', aliases: ['Pullup', 'Strict Pull-up'], metric: 'bodyweight' },
+  'Lat Pulldown': { equipment: 'Cable Machine', movementPattern: 'vertical-pull', aliases: ['Pulldown', 'Lat Pull-down'] },
+  'Cable Rows': { equipment: 'Cable Machine', movementPattern: 'horizontal-pull', aliases: ['Seated Cable Row', 'Seated Row'] },
+  // Shoulders
+  'Overhead Press': { equipment: 'Barbell', movementPattern: 'vertical-push', aliases: ['OHP', 'Strict Press', 'Military Press', 'Shoulder Press'] },
+  'Lateral Raises': { equipment: 'Dumbbell', movementPattern: 'isolation', aliases: ['Side Raise', 'DB Lateral Raise'] },
+  'Face Pulls': { equipment: 'Cable Machine', movementPattern: 'horizontal-pull', aliases: ['Cable Face Pull'] },
+  'Rear Delt Flyes': { equipment: 'Dumbbell', movementPattern: 'isolation', aliases: ['Reverse Fly', 'Rear Delt Fly'] },
+  'Arnold Press': { equipment: 'Dumbbell', movementPattern: 'vertical-push' },
+  'Filly Press': { equipment: 'Dumbbell', movementPattern: 'vertical-push', aliases: ['DB Filly Press'] },
+  // Legs
+  'Squat': { equipment: 'Barbell', movementPattern: 'squat', aliases: ['Back Squat', 'Barbell Squat', 'Barbell Back Squat'] },
+  'Front Squat': { equipment: 'Barbell', movementPattern: 'squat', aliases: ['Barbell Front Squat'] },
+  'Leg Press': { equipment: 'Machine', movementPattern: 'squat' },
+  'Romanian Deadlift': { equipment: 'Barbell', movementPattern: 'hinge', aliases: ['RDL', 'Barbell RDL'] },
+  'Leg Curls': { equipment: 'Machine', movementPattern: 'isolation', aliases: ['Hamstring Curl', 'Lying Leg Curl', 'Seated Leg Curl'] },
+  'Leg Extensions': { equipment: 'Machine', movementPattern: 'isolation', aliases: ['Quad Extension'] },
+  'Lunges': { equipment: 'Dumbbell', movementPattern: 'lunge', aliases: ['Walking Lunge', 'Reverse Lunge'] },
+  'Bulgarian Split Squats': { equipment: 'Dumbbell', movementPattern: 'lunge', aliases: ['BSS', 'Rear Foot Elevated Split Squat', 'RFESS'] },
+  // Arms
+  'Barbell Curls': { equipment: 'Barbell', movementPattern: 'isolation', aliases: ['Barbell Bicep Curl', 'BB Curl'] },
+  'Tricep Pushdowns': { equipment: 'Cable Machine', movementPattern: 'isolation', aliases: ['Triceps Pushdown', 'Cable Pushdown', 'Rope Pushdown'] },
+  'Hammer Curls': { equipment: 'Dumbbell', movementPattern: 'isolation', aliases: ['DB Hammer Curl'] },
+  'Skull Crushers': { equipment: 'Barbell', movementPattern: 'isolation', aliases: ['Lying Tricep Extension', 'EZ Bar Skull Crusher'] },
+  'Preacher Curls': { equipment: 'Barbell', movementPattern: 'isolation', aliases: ['EZ Bar Preacher Curl'] },
+  // Core
+  'Planks': { equipment: 'Bodyweight', movementPattern: 'core', aliases: ['Front Plank'], metric: 'duration' },
+  'Cable Crunches': { equipment: 'Cable Machine', movementPattern: 'core', aliases: ['Kneeling Cable Crunch'] },
+  'Hanging Leg Raises': { equipment: 'Bodyweight', movementPattern: 'core', aliases: ['HLR', 'Hanging Knee Raise'], metric: 'bodyweight' },
+  'Ab Wheel': { equipment: 'Bodyweight', movementPattern: 'core', aliases: ['Ab Rollout', 'Ab Wheel Rollout'], metric: 'bodyweight' },
+  'Russian Twists': { equipment: 'Bodyweight', movementPattern: 'core' },
+  // Olympic
+  'Clean & Jerk': { equipment: 'Barbell', movementPattern: 'olympic', aliases: ['Clean and Jerk', 'C&J'] },
+  'Snatch': { equipment: 'Barbell', movementPattern: 'olympic', aliases: ['Squat Snatch', 'Full Snatch'] },
+  'Power Clean': { equipment: 'Barbell', movementPattern: 'olympic' },
+  'Power Snatch': { equipment: 'Barbell', movementPattern: 'olympic' },
+  'Hang Clean': { equipment: 'Barbell', movementPattern: 'olympic', aliases: ['Hang Power Clean', 'Hang Squat Clean'] },
+  'Clean Pull': { equipment: 'Barbell', movementPattern: 'olympic' },
+  // Gymnastics
+  'Muscle-ups': { equipment: 'Rings', movementPattern: 'gymnastics', aliases: ['Ring Muscle-up', 'Bar Muscle-up', 'MU'], metric: 'bodyweight' },
+  'Ring Dips': { equipment: 'Rings', movementPattern: 'gymnastics', metric: 'bodyweight' },
+  'Handstand Push-ups': { equipment: 'Bodyweight', movementPattern: 'gymnastics', aliases: ['HSPU', 'Strict HSPU', 'Kipping HSPU'], metric: 'bodyweight' },
+  'Toes-to-Bar': { equipment: 'Bodyweight', movementPattern: 'gymnastics', aliases: ['T2B', 'TTB'], metric: 'bodyweight' },
+  'Rope Climbs': { equipment: 'Bodyweight', movementPattern: 'gymnastics', aliases: ['Legless Rope Climb'], metric: 'bodyweight' },
+  'Pistol Squats': { equipment: 'Bodyweight', movementPattern: 'gymnastics', aliases: ['Pistol', 'Single-Leg Squat'], metric: 'bodyweight' },
+  // Conditioning
+  'Wall Balls': { equipment: 'Medicine Ball', movementPattern: 'conditioning', aliases: ['Wall Ball Shot'] },
+  'Box Jumps': { equipment: 'Bodyweight', movementPattern: 'conditioning', aliases: ['Box Jump Over'], metric: 'bodyweight' },
+  'Burpees': { equipment: 'Bodyweight', movementPattern: 'conditioning', aliases: ['Burpee Over Bar', 'Bar-Facing Burpee'], metric: 'bodyweight' },
+  'Thrusters': { equipment: 'Barbell', movementPattern: 'conditioning', aliases: ['Barbell Thruster'] },
+  'Rowing': { equipment: 'Cardio Machine', movementPattern: 'conditioning', aliases: ['Row', 'Rower', 'Concept2 Row'], metric: 'distance' },
+  'Ski Erg': { equipment: 'Cardio Machine', movementPattern: 'conditioning', aliases: ['SkiErg', 'Ski'], metric: 'calories' },
+  'Assault Bike': { equipment: 'Cardio Machine', movementPattern: 'conditioning', aliases: ['Air Bike', 'Echo Bike', 'Airdyne'], metric: 'calories' },
+};
+
+/** Turn an exercise name into a stable catalog ID, e.g. "Clean & Jerk" → "clean-and-jerk" */
+export function slugifyExerciseName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Normalize a name for matching: case, punctuation, "&"/"and" and a trailing
+ * plural are ignored so "Pull-Up", "pullups" and "Pull-ups" all collide.
+ */
+export function normalizeExerciseName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/&/g, 'and')
+    .replace(/[^a-z0-9]/g, '')
+    .replace(/s$/, '');
+}
+
+/** Build the built-in catalog from MUSCLE_GROUPS. IDs are slugs so every device agrees on them. */
+export function buildDefaultExerciseLibrary(): Exercise[] {
+  return MUSCLE_GROUPS.flatMap((group) =>
+    group.exercises.map((name) => {
+      const meta = SEED_METADATA[name];
+      return {
+        id: slugifyExerciseName(name),
+        name,
+        aliases: meta?.aliases || [],
+        muscleGroup: group.name,
+        equipment: meta?.equipment || 'Other',
+        movementPattern: meta?.movementPattern || 'other',
+        metric: meta?.metric || 'weight',
+      };
+    })
+  );
+}
+
+/** Find a catalog entry by exact ID */
+export function findExerciseById(library: Exercise[], id: string | undefined): Exercise | undefined {
+  if (!id) return undefined;
+  return library.find((e) => e.id === id);
+}
+
+/** Resolve free text (e.g. AI output or a typed name) to a catalog entry via name or alias */
+export function findExerciseByName(library: Exercise[], name: string): Exercise | undefined {
+  const key = normalizeExerciseName(name);
+  if (!key) return undefined;
+  return library.find(
+    (e) =>
+      normalizeExerciseName(e.name) === key ||
+      e.aliases.some((alias) => normalizeExerciseName(alias) === key)
+  );
+}
+
+/** Create a user-defined catalog entry for a name the library doesn't know yet */
+export function createCustomExercise(name: string, details: Partial<Omit<Exercise, 'id' | 'name'>> = {}): Exercise {
+  return {
+    id: uuidv4(),
+    name: name.trim(),
+    aliases: [],
+    muscleGroup: 'Other',
+    equipment: 'Other',
+    movementPattern: 'other',
+    ...details,
+    isCustom: true,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/** Display name for a set, preferring the catalog's canonical name */
+export function getExerciseName(library: Exercise[], set: Pick<WorkoutSet, 'exerciseId' | 'exerciseName'>): string {
+  return findExerciseById(library, set.exerciseId)?.name || set.exerciseName;
+}
+
+/**
+ * Point every set at a catalog entry. Sets whose ID isn't in the library are
+ * resolved by name; names the library doesn't know become custom exercises,
+ * returned in `created` so the caller can persist them.
+ */
+export function linkSetsToLibrary<T extends Pick<WorkoutSet, 'exerciseId' | 'exerciseName'>>(
+  sets: T[],
+  library: Exercise[]
+): { sets: T[]; created: Exercise[] } {
+  const created: Exercise[] = [];
+  const linked = sets.map((set) => {
+    if (findExerciseById(library, set.exerciseId)) return set;
+    if (!set.exerciseName.trim()) return { ...set, exerciseId: '' };
+
+    const match =
+      findExerciseByName(library, set.exerciseName) ||
+      findExerciseByName(created, set.exerciseName);
+    if (match) return { ...set, exerciseId: match.id };
+
+    const custom = createCustomExercise(set.exerciseName);
+    created.push(custom);
+    return { ...set, exerciseId: custom.id };
+  });
+
+  return { sets: linked, created };
+}
+
+/** What a set measures: its own metric, else its exercise's default, else weight × reps */
+export function getSetMetric(library: Exercise[], set: Pick<WorkoutSet, 'exerciseId' | 'metric'>): SetMetric {
+  return set.metric || findExerciseById(library, set.exerciseId)?.metric || 'weight';
+}
+
+/** Patterns too broad to make two exercises interchangeable on their own */
+const GENERIC_PATTERNS: MovementPattern[] = ['isolation', 'other'];
+
+/**
+ * Exercises that can stand in for `exercise` when its station is taken, best
+ * first: same movement pattern and muscle group, preferring other equipment.
+ */
+export function getAlternatives(library: Exercise[], exercise: Exercise, limit = 6): Exercise[] {
+  const samePattern = (e: Exercise) =>
+    e.movementPattern === exercise.movementPattern && !GENERIC_PATTERNS.includes(e.movementPattern);
+  const score = (e: Exercise) =>
+    (samePattern(e) ? 3 : 0) + (e.muscleGroup === exercise.muscleGroup ? 2 : 0) + (e.equipment !== exercise.equipment ? 1 : 0);
+
+  return library
+    .filter((e) => e.id !== exercise.id && (samePattern(e) || e.muscleGroup === exercise.muscleGroup))
+    .sort((a, b) => score(b) - score(a) || a.name.localeCompare(b.name))
+    .slice(0, limit);
+}
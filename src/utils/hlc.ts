@@ -0,0 +1,44 @@
+/**
+ * Hybrid logical clock (HLC) timestamps for sync: "<wall ms>-<counter>-<node>",
+ * zero-padded so they order correctly as plain strings. The clock never runs
+ * backwards when the device's wall clock does, and moves past every timestamp
+ * it has seen from other devices, so the later of two edits always compares
+ * higher.
+ */
+interface Hlc {
+  wall: number;
+  counter: number;
+  node: string;
+}
+
+function parseHlc(timestamp: string): Hlc {
+  const [wall, counter, ...node] = timestamp.split('-');
+  return { wall: parseInt(wall) || 0, counter: parseInt(counter) || 0, node: node.join('-') };
+}
+
+function formatHlc({ wall, counter, node }: Hlc): string {
+  return `${String(wall).padStart(15, '0')}-${String(counter).padStart(5, '0')}-${node}`;
+}
+
+/** Timestamp for a local change made after `last` */
+export function tickHlc(last: string | null, node: string, now = Date.now()): string {
+  const previous = last ? parseHlc(last) : null;
+  if (!previous || now > previous.wall) return formatHlc({ wall: now, counter: 0, node });
+  return formatHlc({ wall: previous.wall, counter: previous.counter + 1, node });
+}
+
+/** The clock after seeing `remote` from another device */
+export function receiveHlc(last: string | null, remote: string, node: string, now = Date.now()): string {
+  const local = last ? parseHlc(last) : { wall: 0, counter: 0 };
+  const other = parseHlc(remote);
+  const wall = Math.max(now, local.wall, other.wall);
+  const counter =
+    wall === local.wall && wall === other.wall
+      ? Math.max(local.counter, other.counter) + 1
+      : wall === local.wall
+      ? local.counter + 1
+      : wall === other.wall
+      ? other.counter + 1
+      : 0;
+  return formatHlc({ wall, counter, node });
+}
@@ -0,0 +1,54 @@
+/** Ask for notification permission once; call from a user gesture (e.g. starting a rest) */
+export function requestNotificationPermission(): void {
+  if ('Notification' in window && Notification.permission === 'default') {
+    Notification.requestPermission().catch(() => undefined);
+  }
+}
+
+/**
+ * Vibrate and, while the app isn't in view, show a notification through the
+ * service worker (page notifications don't show on mobile). Falls back to a
+ * page notification where there's no worker.
+ */
+export async function notify(title: string, body: string): Promise<void> {
+  navigator.vibrate?.([200, 100, 200]);
+  if (document.visibilityState === 'visible') return;
+  if (!('Notification' in window) || Notification.permission !== 'granted') return;
+
+  const registration =
+    'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+  if (registration?.active) {
+    registration.active.postMessage({ type: 'NOTIFY', title, body, tag: 'rest-timer' });
+  } else {
+    new Notification(title, { body, tag: 'rest-timer' });
+  }
+}
+
+/**
+ * Keep the screen on. The lock is dropped whenever the page is hidden, so it
+ * is re-acquired on return; the returned function releases it for good.
+ */
+export function keepScreenAwake(): () => void {
+  if (!('wakeLock' in navigator)) return () => undefined;
+
+  let sentinel: WakeLockSentinel | null = null;
+  let released = false;
+  const acquire = () => {
+    if (released || document.visibilityState !== 'visible') return;
+    navigator.wakeLock
+      .request('screen')
+      .then((lock) => {
+        if (released) lock.release().catch(() => undefined);
+        else sentinel = lock;
+      })
+      .catch(() => undefined);
+  };
+
+  acquire();
+  document.addEventListener('visibilitychange', acquire);
+  return () => {
+    released = true;
+    document.removeEventListener('visibilitychange', acquire);
+    sentinel?.release().catch(() => undefined);
+  };
+}
@@ -0,0 +1,270 @@
+import type { E1rmFormula, Exercise, PersonalRecord, SetMetric, WeightUnit, WorkoutLog, WorkoutSet } from '../types';
+import { convertWeight, weightUnitLabel } from '../types';
+import { getExerciseName, getSetMetric } from './exerciseLibrary';
+import { formatSetScore, hasSetResult, isBetterScore, scoreSet } from './setMetrics';
+import { getRecordReps } from './setTypes';
+
+export const E1RM_FORMULA_LABELS: Record<E1rmFormula, string> = {
+  epley: 'Epley',
+  brzycki: 'Brzycki',
+};
+
+/** Rep counts tracked as rep-max PRs */
+export const REP_MAX_TARGETS = [1, 3, 5, 10];
+
+/** Sets above this many reps are too far from a single to estimate a 1RM from */
+export const MAX_E1RM_REPS = 15;
+
+/** Estimated one-rep max for a set; 0 when the set can't be used for an estimate */
+export function estimateOneRepMax(weight: number, reps: number, formula: E1rmFormula): number {
+  if (weight <= 0 || reps <= 0 || reps > MAX_E1RM_REPS) return 0;
+  if (reps === 1) return weight;
+  return formula === 'brzycki' ? (weight * 36) / (37 - reps) : weight * (1 + reps / 30);
+}
+
+/** "Est. 1RM", "5RM", "Session Volume", "Best Set" */
+export function recordLabel(record: Pick<PersonalRecord, 'category' | 'reps'>): string {
+  switch (record.category) {
+    case 'e1rm':
+      return 'Est. 1RM';
+    case 'rep-max':
+      return `${record.reps}RM`;
+    case 'volume':
+      return 'Session Volume';
+    case 'best':
+      return 'Best Set';
+  }
+}
+
+/** The record's value in words, e.g. "315 lbs", "12,400 lbs", "1:30" */
+export function formatRecordValue(record: PersonalRecord): string {
+  const unit = weightUnitLabel(record.unit);
+  switch (record.category) {
+    case 'e1rm':
+    case 'volume':
+      return `${(record.value || 0).toLocaleString()} ${unit}`;
+    case 'rep-max':
+      return `${record.weight} ${unit}`;
+    case 'best':
+      return formatSetScore(
+        record.metric || 'weight',
+        { weight: record.weight, reps: record.reps, value: record.value || 0 },
+        record.unit
+      );
+  }
+}
+
+/** Records of one exercise are tracked per category, and per rep count for rep maxes */
+function slotKey(record: PersonalRecord): string {
+  return `${record.exerciseId || record.exerciseName}|${record.category}|${record.category === 'rep-max' ? record.reps : ''}`;
+}
+
+function beats(candidate: PersonalRecord, current: PersonalRecord): boolean {
+  switch (candidate.category) {
+    case 'e1rm':
+    case 'volume':
+      return (candidate.value || 0) > (current.value || 0);
+    case 'rep-max':
+      return candidate.weight > current.weight;
+    case 'best':
+      return isBetterScore(
+        candidate.metric || 'weight',
+        { weight: candidate.weight, reps: candidate.reps, value: candidate.value || 0 },
+        { weight: current.weight, reps: current.reps, value: current.value || 0 }
+      );
+  }
+}
+
+/** Best candidate record in every category for one exercise's sets from one session */
+export function getSessionRecords(
+  sets: WorkoutSet[],
+  date: string,
+  library: Exercise[],
+  unit: WeightUnit,
+  formula: E1rmFormula
+): PersonalRecord[] {
+  const byExercise = new Map<string, { metric: SetMetric; sets: WorkoutSet[] }>();
+  for (const set of sets) {
+    const metric = getSetMetric(library, set);
+    if (set.setType === 'warmup' || !hasSetResult(set, metric)) continue;
+    const key = set.exerciseId || set.exerciseName;
+    const entry = byExercise.get(key) || { metric, sets: [] };
+    entry.sets.push(set);
+    byExercise.set(key, entry);
+  }
+
+  const candidates: PersonalRecord[] = [];
+  for (const { metric, sets: exerciseSets } of byExercise.values()) {
+    const base = {
+      exerciseId: exerciseSets[0].exerciseId,
+      exerciseName: getExerciseName(library, exerciseSets[0]),
+      metric,
+      unit,
+      date,
+    };
+    const best = (records: PersonalRecord[]) =>
+      records.reduce<PersonalRecord | null>((top, r) => (!top || beats(r, top) ? r : top), null);
+
+    if (metric !== 'weight') {
+      const top = best(
+        exerciseSets.map((set) => ({ ...base, category: 'best' as const, ...scoreSet(set, metric, unit) }))
+      );
+      if (top) candidates.push({ ...top, value: top.value || undefined });
+      continue;
+    }
+
+    const scored = exerciseSets.map((set) => ({
+      weight: Math.round(convertWeight(set.actualWeight || 0, set.unit || 'lb', unit) * 10) / 10,
+      reps: getRecordReps(set),
+      totalReps: set.actualReps || 0,
+    }));
+
+    const e1rm = best(
+      scored.map((s) => ({
+        ...base,
+        category: 'e1rm' as const,
+        weight: s.weight,
+        reps: s.reps,
+        value: Math.round(estimateOneRepMax(s.weight, s.reps, formula) * 10) / 10,
+      }))
+    );
+    if (e1rm && e1rm.value) candidates.push(e1rm);
+
+    // A set of 8 also proves a 5RM and a 3RM at that weight
+    for (const target of REP_MAX_TARGETS) {
+      const heaviest = Math.max(0, ...scored.filter((s) => s.reps >= target).map((s) => s.weight));
+      if (heaviest > 0) {
+        candidates.push({ ...base, category: 'rep-max', weight: heaviest, reps: target });
+      }
+    }
+
+    const volume = Math.round(scored.reduce((acc, s) => acc + s.weight * s.totalReps, 0));
+    if (volume > 0) {
+      candidates.push({ ...base, category: 'volume', weight: 0, reps: 0, value: volume });
+    }
+  }
+
+  return candidates;
+}
+
+/**
+ * Every PR ever set, oldest first: each entry beat the previous record in its
+ * category (and rep count) for that exercise. The last entry per category is
+ * the current record. Pass `exerciseId` for one exercise's timeline.
+ */
+export function getRecordHistory(
+  logs: WorkoutLog[],
+  library: Exercise[],
+  unit: WeightUnit,
+  formula: E1rmFormula,
+  exerciseId?: string
+): PersonalRecord[] {
+  const current = new Map<string, PersonalRecord>();
+  const history: PersonalRecord[] = [];
+
+  const sorted = logs
+    .filter((log) => log.completed)
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+  for (const log of sorted) {
+    const sets = exerciseId ? log.sets.filter((s) => s.exerciseId === exerciseId) : log.sets;
+    for (const candidate of getSessionRecords(sets, log.date, library, unit, formula)) {
+      const key = slotKey(candidate);
+      const existing = current.get(key);
+      if (!existing || beats(candidate, existing)) {
+        current.set(key, candidate);
+        history.push(candidate);
+      }
+    }
+  }
+
+  return history;
+}
+
+/** Current record in every category for every exercise */
+export function getCurrentRecords(history: PersonalRecord[]): PersonalRecord[] {
+  const current = new Map<string, PersonalRecord>();
+  for (const record of history) current.set(slotKey(record), record);
+  return Array.from(current.values());
+}
+
+function currentBySlot(logs: WorkoutLog[], library: Exercise[], unit: WeightUnit, formula: E1rmFormula, exerciseId?: string) {
+  const records = getCurrentRecords(getRecordHistory(logs, library, unit, formula, exerciseId || undefined));
+  return new Map(records.map((r) => [slotKey(r), r]));
+}
+
+/**
+ * Records a just-completed set breaks, measured against past logs and the
+ * sets already completed in `session`. An exercise's first-ever session has
+ * nothing to beat, so it sets no PRs. When a set beats several rep maxes only
+ * the highest rep count is reported (a 5RM implies the 3RM).
+ */
+export function detectSetRecords(
+  set: WorkoutSet,
+  session: WorkoutLog,
+  logs: WorkoutLog[],
+  library: Exercise[],
+  unit: WeightUnit,
+  formula: E1rmFormula
+): PersonalRecord[] {
+  const earlier = session.sets.filter(
+    (s) => s.completed && s.id !== set.id && (s.exerciseId || s.exerciseName) === (set.exerciseId || set.exerciseName)
+  );
+  const baseline = currentBySlot(
+    [...logs, { ...session, sets: earlier, completed: true }],
+    library,
+    unit,
+    formula,
+    set.exerciseId
+  );
+
+  const broken = getSessionRecords([set], session.date, library, unit, formula).filter((candidate) => {
+    if (candidate.category === 'volume') return false;
+    const existing = baseline.get(slotKey(candidate));
+    return !!existing && beats(candidate, existing);
+  });
+
+  const topRepMax = Math.max(0, ...broken.filter((r) => r.category === 'rep-max').map((r) => r.reps));
+  return broken
+    .filter((r) => r.category !== 'rep-max' || r.reps === topRepMax)
+    .map((r) => ({ ...r, setId: set.id }));
+}
+
+/** Session-volume PRs for a finished workout, one per exercise that beat its best session */
+export function detectVolumeRecords(
+  workout: WorkoutLog,
+  logs: WorkoutLog[],
+  library: Exercise[],
+  unit: WeightUnit,
+  formula: E1rmFormula
+): PersonalRecord[] {
+  const baseline = currentBySlot(logs, library, unit, formula);
+  return getSessionRecords(workout.sets.filter((s) => s.completed), workout.date, library, unit, formula).filter(
+    (candidate) => {
+      if (candidate.category !== 'volume') return false;
+      const existing = baseline.get(slotKey(candidate));
+      return !!existing && beats(candidate, existing);
+    }
+  );
+}
+
+/**
+ * Every PR a logged workout set against the workouts dated before it, for
+ * re-checking a log after it's edited. Sets count in the order they're listed.
+ */
+export function detectWorkoutRecords(
+  workout: WorkoutLog,
+  logs: WorkoutLog[],
+  library: Exercise[],
+  unit: WeightUnit,
+  formula: E1rmFormula
+): PersonalRecord[] {
+  const before = logs.filter((log) => log.id !== workout.id && new Date(log.date) < new Date(workout.date));
+  const records: PersonalRecord[] = [];
+  const done: WorkoutSet[] = [];
+  for (const set of workout.sets.filter((s) => s.completed)) {
+    records.push(...detectSetRecords(set, { ...workout, sets: done }, before, library, unit, formula));
+    done.push(set);
+  }
+  return [...records, ...detectVolumeRecords(workout, before, library, unit, formula)];
+}
@@ -0,0 +1,51 @@
+import type { Exercise, GymProfile, UserSettings, WeightUnit, WorkoutSet } from '../types';
+import { convertWeight } from '../types';
+
+/** The selected gym, or the first one set up in the user's weight unit */
+export function getActiveGymProfile(settings: UserSettings): GymProfile | undefined {
+  const { gymProfiles, activeGymProfileId, weightUnit } = settings;
+  return (
+    gymProfiles.find((g) => g.id === activeGymProfileId) ||
+    gymProfiles.find((g) => g.unit === weightUnit) ||
+    gymProfiles[0]
+  );
+}
+
+export function isBarbellExercise(library: Exercise[], set: Pick<WorkoutSet, 'exerciseId'>): boolean {
+  return library.find((e) => e.id === set.exerciseId)?.equipment === 'Barbell';
+}
+
+export interface PlateBreakdown {
+  perSide: number[];   // Heaviest first, in the profile's unit
+  total: number;       // What the bar weighs loaded this way, in the set's unit
+  exact: boolean;      // False when the plates on hand can't make the target
+}
+
+/**
+ * Plates per side to load `target` (in `unit`) on the gym's bar, heaviest
+ * first and limited to the plates owned. Null when the target is at or below
+ * the bar.
+ */
+export function getPlateBreakdown(target: number, unit: WeightUnit, gym: GymProfile): PlateBreakdown | null {
+  const targetInGym = convertWeight(target, unit, gym.unit);
+  let remaining = (targetInGym - gym.barWeight) / 2;
+  if (remaining <= 0) return null;
+
+  const perSide: number[] = [];
+  const plates = [...gym.plates].sort((a, b) => b.weight - a.weight);
+  for (const plate of plates) {
+    let pairs = Math.floor(plate.count / 2);
+    while (pairs > 0 && plate.weight <= remaining + 1e-9) {
+      perSide.push(plate.weight);
+      remaining -= plate.weight;
+      pairs--;
+    }
+  }
+
+  const loaded = gym.barWeight + perSide.reduce((sum, w) => sum + w, 0) * 2;
+  return {
+    perSide,
+    total: Math.round(convertWeight(loaded, gym.unit, unit) * 10) / 10,
+    exact: Math.abs(remaining) < 0.01,
+  };
+}
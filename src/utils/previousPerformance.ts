@@ -0,0 +1,63 @@
+import type { WorkoutLog, WorkoutSet } from '../types';
+import { isTopSet } from './setTypes';
+
+export interface PreviousPerformance {
+  date: string;
+  set: WorkoutSet;
+}
+
+function isSameExercise(a: WorkoutSet, b: WorkoutSet): boolean {
+  if (a.exerciseId && b.exerciseId) return a.exerciseId === b.exerciseId;
+  return a.exerciseName.trim().toLowerCase() === b.exerciseName.trim().toLowerCase();
+}
+
+/**
+ * Completed sets of this exercise from the most recent session that has it.
+ * Sessions of the same program day (`workoutDayId`) win over other sessions.
+ */
+export function getPreviousSession(
+  logs: WorkoutLog[],
+  set: WorkoutSet,
+  workoutDayId?: string
+): { date: string; sets: WorkoutSet[] } | null {
+  if (!set.exerciseId && !set.exerciseName.trim()) return null;
+
+  const sessions = logs
+    .filter((log) => log.completed)
+    .map((log) => ({
+      date: log.date,
+      workoutDayId: log.workoutDayId,
+      sets: log.sets.filter((s) => s.completed && isTopSet(s) && isSameExercise(s, set)),
+    }))
+    .filter((session) => session.sets.length > 0)
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+
+  const session = (workoutDayId && sessions.find((s) => s.workoutDayId === workoutDayId)) || sessions[0];
+  return session ? { date: session.date, sets: session.sets } : null;
+}
+
+/**
+ * What was logged for this set last time: the set in the same position
+ * (`position`-th set of the exercise) of the previous session, or that
+ * session's last set when it had fewer.
+ */
+export function getPreviousPerformance(
+  logs: WorkoutLog[],
+  set: WorkoutSet,
+  position: number,
+  workoutDayId?: string
+): PreviousPerformance | null {
+  const session = getPreviousSession(logs, set, workoutDayId);
+  if (!session) return null;
+
+  return {
+    date: session.date,
+    set: session.sets[position] || session.sets[session.sets.length - 1],
+  };
+}
+
+/** Position of a set among the top sets of its exercise in a workout (0 for the first) */
+export function getExercisePosition(sets: WorkoutSet[], set: WorkoutSet): number {
+  const same = sets.filter((s) => isTopSet(s) && isSameExercise(s, set));
+  return Math.max(0, same.findIndex((s) => s.id === set.id));
+}
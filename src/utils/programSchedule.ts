@@ -0,0 +1,175 @@
+import { addDays, differenceInCalendarDays, format, isSameDay, parseISO, startOfDay } from 'date-fns';
+import type { Program, WorkoutDay, WorkoutLog } from '../types';
+
+/** Week a day belongs to; days saved before multi-week programs are week 1 */
+export function getDayWeek(day: Pick<WorkoutDay, 'weekNumber'>): number {
+  return day.weekNumber && day.weekNumber > 0 ? day.weekNumber : 1;
+}
+
+/** Fill in weekNumber/dayNumber so every day has an explicit place in the program */
+export function normalizeWorkoutDays(days: WorkoutDay[]): WorkoutDay[] {
+  const countByWeek = new Map<number, number>();
+  return days.map((day) => {
+    const week = getDayWeek(day);
+    const dayNumber = (countByWeek.get(week) || 0) + 1;
+    countByWeek.set(week, dayNumber);
+    return { ...day, weekNumber: week, dayNumber };
+  });
+}
+
+/** Highest week that has days authored for it */
+export function getAuthoredWeeks(days: WorkoutDay[]): number {
+  return days.reduce((max, day) => Math.max(max, getDayWeek(day)), 1);
+}
+
+/** Days authored for exactly this week, in program order */
+export function getDaysForWeek(days: WorkoutDay[], week: number): WorkoutDay[] {
+  return days.filter((day) => getDayWeek(day) === week);
+}
+
+/**
+ * Days to train in a given week. Weeks without their own prescriptions repeat
+ * the closest earlier authored week, so single-week programs run for their
+ * whole duration unchanged.
+ */
+export function getScheduledDays(days: WorkoutDay[], week: number): WorkoutDay[] {
+  for (let w = week; w >= 1; w--) {
+    const weekDays = getDaysForWeek(days, w);
+    if (weekDays.length > 0) return weekDays;
+  }
+  return [];
+}
+
+/** Copy a week's days into another week with fresh IDs, replacing what was there */
+export function copyWeek(days: WorkoutDay[], fromWeek: number, toWeek: number, newId: () => string): WorkoutDay[] {
+  const copies = getDaysForWeek(days, fromWeek).map((day) => ({
+    ...day,
+    id: newId(),
+    weekNumber: toWeek,
+    exercises: day.exercises.map((ex) => ({ ...ex, id: newId() })),
+  }));
+  const merged = [...days.filter((day) => getDayWeek(day) !== toWeek), ...copies];
+  return normalizeWorkoutDays(merged.sort((a, b) => getDayWeek(a) - getDayWeek(b)));
+}
+
+export interface ScheduledSession {
+  week: number;
+  day: WorkoutDay;
+  date: Date;
+}
+
+export interface ProgramPosition {
+  week: number;            // 1-based, clamped to the program's duration
+  totalWeeks: number;
+  started: boolean;        // false before the start date
+  finished: boolean;       // true once every week has passed
+  today?: WorkoutDay;      // Program day scheduled for today, if any
+  dayNumber?: number;      // Today's session number within the week
+}
+
+export interface Adherence {
+  planned: number;         // Sessions scheduled so far (today's counts once it is logged)
+  completed: number;
+  rate: number;            // 0-100
+  missed: ScheduledSession[];
+}
+
+/** Today's date as stored on a schedule ("yyyy-MM-dd", local calendar day) */
+export function toScheduleDate(date: Date = new Date()): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+/** Move a schedule date by a number of days; positive values push the program later */
+export function shiftScheduleDate(startDate: string, days: number): string {
+  return toScheduleDate(addDays(parseISO(startDate), days));
+}
+
+/**
+ * Every session the program schedules from its start date, in date order.
+ * Week N covers the 7 days starting (N - 1) weeks after the start date, and
+ * each program day lands on the first matching weekday inside that window.
+ */
+export function getScheduledSessions(program: Program, startDate: string, through?: Date): ScheduledSession[] {
+  const start = parseISO(startDate);
+  const sessions: ScheduledSession[] = [];
+
+  for (let week = 1; week <= Math.max(program.duration, 1); week++) {
+    const weekStart = addDays(start, (week - 1) * 7);
+    if (through && weekStart > through) break;
+
+    for (const day of getScheduledDays(program.workoutDays, week)) {
+      const date = addDays(weekStart, (day.dayOfWeek - weekStart.getDay() + 7) % 7);
+      if (!through || date <= through) {
+        sessions.push({ week, day, date });
+      }
+    }
+  }
+
+  return sessions.sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+/** Where the athlete is in the program: week X of Y and today's session */
+export function getProgramPosition(program: Program, startDate: string, now: Date = new Date()): ProgramPosition {
+  const totalWeeks = Math.max(program.duration, 1);
+  const dayIndex = differenceInCalendarDays(now, parseISO(startDate));
+  const started = dayIndex >= 0;
+  const finished = dayIndex >= totalWeeks * 7;
+  const week = Math.min(Math.max(Math.floor(dayIndex / 7) + 1, 1), totalWeeks);
+
+  if (!started || finished) {
+    return { week, totalWeeks, started, finished };
+  }
+
+  const weekSessions = getScheduledSessions(program, startDate).filter((s) => s.week === week);
+  const index = weekSessions.findIndex((s) => isSameDay(s.date, now));
+  return {
+    week,
+    totalWeeks,
+    started,
+    finished,
+    today: index >= 0 ? weekSessions[index].day : undefined,
+    dayNumber: index >= 0 ? index + 1 : undefined,
+  };
+}
+
+/**
+ * Planned vs completed sessions up to today. A session counts as completed when
+ * a finished log for the program references its workout day within that week,
+ * so a Monday session trained on Tuesday still counts.
+ */
+export function getAdherence(program: Program, startDate: string, logs: WorkoutLog[], now: Date = new Date()): Adherence {
+  const programLogs = logs.filter((log) => log.completed && log.programId === program.id && log.workoutDayId);
+  const start = parseISO(startDate);
+  const today = startOfDay(now);
+
+  const isDone = (session: ScheduledSession) => {
+    const weekStart = addDays(start, (session.week - 1) * 7);
+    const weekEnd = addDays(weekStart, 7);
+    return programLogs.some((log) => {
+      const date = new Date(log.date);
+      return log.workoutDayId === session.day.id && date >= weekStart && date < weekEnd;
+    });
+  };
+
+  let planned = 0;
+  let completed = 0;
+  const missed: ScheduledSession[] = [];
+  for (const session of getScheduledSessions(program, startDate, now)) {
+    const done = isDone(session);
+    // Today's session only counts once it has been trained
+    if (session.date >= today && !done) continue;
+    planned++;
+    if (done) {
+      completed++;
+    } else {
+      missed.push(session);
+    }
+  }
+
+  return {
+    planned,
+    completed,
+    rate: planned > 0 ? Math.round((completed / planned) * 100) : 100,
+    missed,
+  };
+}
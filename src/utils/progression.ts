@@ -0,0 +1,170 @@
+import type { ProgressionRule, ProgressionType, SetMetric, WeightUnit, WorkoutLog, WorkoutSet } from '../types';
+import { convertWeight, weightUnitLabel } from '../types';
+import { isLoadMetric } from './setMetrics';
+import { getPreviousSession } from './previousPerformance';
+import { isTopSet } from './setTypes';
+import { roundToIncrement } from './trainingMax';
+
+export const PROGRESSION_LABELS: Record<ProgressionType, string> = {
+  linear: 'Linear',
+  double: 'Double Progression',
+  rpe: 'RPE-based',
+};
+
+/** Load change per RPE point away from the target, as a percentage of the load */
+const RPE_STEP_PERCENT = 4;
+
+export function defaultProgression(type: ProgressionType, unit: WeightUnit): ProgressionRule {
+  const increment = unit === 'kg' ? 2.5 : 5;
+  return type === 'rpe' ? { type, increment, targetRpe: 8 } : { type, increment };
+}
+
+/** "6-8", "8–10 reps" → { min: 6, max: 8 } */
+export function parseRepRange(reps?: string): { min: number; max: number } | null {
+  const match = reps?.match(/(\d+)\s*[-–]\s*(\d+)/);
+  if (!match) return null;
+  const [a, b] = [parseInt(match[1]), parseInt(match[2])];
+  return { min: Math.min(a, b), max: Math.max(a, b) };
+}
+
+/** "RPE 8", "@8", "2 RIR" → 8 */
+export function parseTargetRpe(intensity?: string): number | undefined {
+  if (!intensity) return undefined;
+  const rir = intensity.match(/(\d+(?:\.\d+)?)\s*RIR/i);
+  if (rir) return 10 - parseFloat(rir[1]);
+  const rpe = intensity.match(/(?:RPE\s*|@\s*)(\d+(?:\.\d+)?)/i);
+  return rpe ? parseFloat(rpe[1]) : undefined;
+}
+
+/**
+ * Next session's targets for a program exercise with a progression rule,
+ * based on the previous session of that exercise. Returns nothing when there
+ * is no rule, the metric has no load, or the exercise hasn't been logged yet.
+ */
+export function getProgressedTargets(
+  set: WorkoutSet,
+  metric: SetMetric,
+  logs: WorkoutLog[],
+  workoutDayId?: string
+): Partial<Pick<WorkoutSet, 'targetWeight' | 'targetReps' | 'progressionNote'>> | null {
+  const rule = set.progression;
+  if (!rule || !isLoadMetric(metric)) return null;
+
+  const previous = getPreviousSession(logs, set, workoutDayId)?.sets.filter((s) => s.actualReps);
+  if (!previous || previous.length === 0) return null;
+
+  const unit = set.unit || 'lb';
+  const unitLabel = weightUnitLabel(unit);
+  const loadOf = (s: WorkoutSet) => convertWeight(s.actualWeight || 0, s.unit || 'lb', unit);
+  // Less assistance is progress
+  const direction = metric === 'assisted' ? -1 : 1;
+  const working = previous.reduce((top, s) => (loadOf(s) * direction > loadOf(top) * direction ? s : top));
+  const lastWeight = roundToIncrement(loadOf(working), 0);
+  const step = (amount: number) => Math.max(0, roundToIncrement(lastWeight + direction * amount, rule.increment));
+  // The change as applied, so less assistance reads as "−"
+  const signedChange = (weight: number) => {
+    const delta = Math.round((weight - lastWeight) * 100) / 100;
+    return `${delta >= 0 ? '+' : '−'}${Math.abs(delta)} ${unitLabel}`;
+  };
+
+  switch (rule.type) {
+    case 'linear': {
+      const allHit = previous.every((s) => (s.actualReps || 0) >= s.targetReps);
+      const targetWeight = step(rule.increment);
+      return allHit
+        ? { targetWeight, progressionNote: `${signedChange(targetWeight)}: every set hit its reps last time` }
+        : { targetWeight: lastWeight, progressionNote: 'Same load: reps were missed last time' };
+    }
+    case 'double': {
+      const range = parseRepRange(set.reps) || { min: set.targetReps, max: set.targetReps };
+      const fewest = Math.min(...previous.map((s) => s.actualReps || 0));
+      if (fewest >= range.max) {
+        const targetWeight = step(rule.increment);
+        return {
+          targetWeight,
+          targetReps: range.min,
+          progressionNote: `${signedChange(targetWeight)}: top of the ${range.min}-${range.max} range reached`,
+        };
+      }
+      const reps = Math.min(range.max, Math.max(range.min, fewest + 1));
+      return {
+        targetWeight: lastWeight,
+        targetReps: reps,
+        progressionNote: `Same load: build to ${range.max} reps on every set`,
+      };
+    }
+    case 'rpe': {
+      const target = rule.targetRpe ?? parseTargetRpe(set.intensity) ?? 8;
+      const rated = previous.filter((s) => s.rpe);
+      if (rated.length === 0) {
+        return { targetWeight: lastWeight, progressionNote: 'Same load: no RPE logged last time' };
+      }
+      const lastRpe = Math.max(...rated.map((s) => s.rpe || 0));
+      const change = ((target - lastRpe) * RPE_STEP_PERCENT * lastWeight) / 100;
+      return {
+        targetWeight: step(change),
+        progressionNote: `RPE ${lastRpe} last time, target ${target}`,
+      };
+    }
+  }
+}
+
+/** RPE this far from the prescription (either way) triggers an in-session suggestion */
+const AUTOREGULATION_THRESHOLD = 1;
+
+export interface LoadSuggestion {
+  setIds: string[];     // Remaining sets of the exercise the suggestion applies to
+  exerciseName: string;
+  targetWeight: number;
+  unit: WeightUnit;
+  reason: string;
+}
+
+/**
+ * Load for the rest of an exercise's sets when a completed set's RPE is off
+ * its prescribed intensity ("2 RIR", "RPE 8"). Null when nothing was
+ * prescribed, the set has no RPE or load, it landed close enough, or no sets
+ * of the exercise are left.
+ */
+export function suggestLoadAdjustment(
+  set: WorkoutSet,
+  metric: SetMetric,
+  sets: WorkoutSet[],
+  increment: number
+): LoadSuggestion | null {
+  const target = parseTargetRpe(set.intensity);
+  if (target === undefined || !set.rpe || !set.actualWeight || !isLoadMetric(metric)) return null;
+  if (!isTopSet(set)) return null;
+
+  const diff = target - set.rpe;
+  if (Math.abs(diff) < AUTOREGULATION_THRESHOLD) return null;
+
+  const remaining = sets.filter(
+    (s) =>
+      !s.completed &&
+      s.id !== set.id &&
+      isTopSet(s) &&
+      (s.exerciseId && set.exerciseId ? s.exerciseId === set.exerciseId : s.exerciseName === set.exerciseName)
+  );
+  if (remaining.length === 0) return null;
+
+  // Less assistance makes an assisted set harder
+  const direction = metric === 'assisted' ? -1 : 1;
+  const percent = diff * RPE_STEP_PERCENT;
+  const targetWeight = Math.max(0, roundToIncrement(set.actualWeight * (1 + (direction * percent) / 100), increment));
+  if (targetWeight === set.actualWeight) return null;
+
+  const unit = set.unit || 'lb';
+  const unitLabel = weightUnitLabel(unit);
+  // The change as applied, so an assisted set shows less assistance as "−"
+  const delta = Math.round((targetWeight - set.actualWeight) * 100) / 100;
+  return {
+    setIds: remaining.map((s) => s.id),
+    exerciseName: set.exerciseName,
+    targetWeight,
+    unit,
+    reason: `RPE ${set.rpe} at ${set.actualWeight} ${unitLabel} vs ${set.intensity} (RPE ${target}): ${
+      delta > 0 ? '+' : '−'
+    }${Math.abs(delta)} ${unitLabel}`,
+  };
+}
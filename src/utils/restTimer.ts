@@ -0,0 +1,44 @@
+const PART =
+  /^\s*(?:(\d+):(\d{2})|(\d+(?:\.\d+)?)\s*(minutes?|mins?|m|'|seconds?|secs?|s|")?)/;
+
+interface RestPart {
+  value: number;
+  unit?: number; // Seconds per unit; undefined when the part has none ("2" in "2-3 min")
+}
+
+function parsePart(part: string): RestPart | null {
+  const match = part.match(PART);
+  if (!match) return null;
+  if (match[1] !== undefined) {
+    return { value: parseInt(match[1]) * 60 + parseInt(match[2]), unit: 1 };
+  }
+  const unit = match[4];
+  return {
+    value: parseFloat(match[3]),
+    unit: !unit ? undefined : /^(m|')/.test(unit) ? 60 : 1,
+  };
+}
+
+/**
+ * Rest prescription in seconds. Handles single values ("90 sec", "90s",
+ * "2 min", "1:30", "1.5 min") and ranges ("2-3 min", "90s-2min", "1:30-2:00"),
+ * where a bare bound takes the other bound's unit. Bare numbers of 10 or less
+ * are minutes. Returns null when nothing parses.
+ */
+export function parseRestRange(rest?: string): { min: number; max: number } | null {
+  if (!rest) return null;
+  const parts = rest
+    .toLowerCase()
+    .split(/\s*(?:[-–]|\bto\b)\s*/)
+    .slice(0, 2)
+    .map(parsePart);
+  if (!parts[0]) return null;
+
+  const bounds = parts.filter((p): p is RestPart => p !== null);
+  const sharedUnit = bounds.find((p) => p.unit)?.unit;
+  const seconds = bounds.map((p) => {
+    const unit = p.unit ?? sharedUnit ?? (p.value <= 10 ? 60 : 1);
+    return Math.round(p.value * unit);
+  });
+  return { min: Math.min(...seconds), max: Math.max(...seconds) };
+}
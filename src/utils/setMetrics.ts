@@ -0,0 +1,142 @@
+import type { SetMetric, WeightUnit, WorkoutSet } from '../types';
+import { convertWeight, weightUnitLabel } from '../types';
+import { formatClock } from './conditioning';
+
+export const SET_METRIC_LABELS: Record<SetMetric, string> = {
+  weight: 'Weight × Reps',
+  bodyweight: 'Bodyweight + Load',
+  assisted: 'Assisted',
+  duration: 'Time',
+  distance: 'Distance',
+  calories: 'Calories',
+};
+
+/** Metrics logged as reps with a load (weight, added load or assistance) */
+export function isLoadMetric(metric: SetMetric): boolean {
+  return metric === 'weight' || metric === 'bodyweight' || metric === 'assisted';
+}
+
+/** Parse "1:30", "90" or "90s" into seconds */
+export function parseDuration(input: string): number {
+  const s = input.trim().toLowerCase();
+  const clock = s.match(/^(\d+):(\d{1,2})$/);
+  if (clock) return parseInt(clock[1]) * 60 + parseInt(clock[2]);
+  const mins = s.match(/^(\d+(?:\.\d+)?)\s*m(in)?$/);
+  if (mins) return Math.round(parseFloat(mins[1]) * 60);
+  return parseInt(s) || 0;
+}
+
+/** "2,000 m" / "5.2 km" */
+export function formatDistance(meters: number): string {
+  return meters >= 10000 ? `${Math.round(meters / 100) / 10} km` : `${meters.toLocaleString()} m`;
+}
+
+/** The logged result of a set: actual values, falling back to the targets */
+export function getSetResult(set: WorkoutSet) {
+  return {
+    reps: set.actualReps ?? set.targetReps,
+    weight: set.actualWeight ?? set.targetWeight,
+    duration: set.actualDuration ?? set.targetDuration ?? 0,
+    distance: set.actualDistance ?? set.targetDistance ?? 0,
+    calories: set.actualCalories ?? set.targetCalories ?? 0,
+  };
+}
+
+/** "8 × 100 lbs", "8 @ BW + 20 lbs", "8 @ BW − 30 lbs", "1:30", "2,000 m", "25 cal" */
+export function formatSetResult(set: WorkoutSet, metric: SetMetric): string {
+  const result = getSetResult(set);
+  const unit = weightUnitLabel(set.unit || 'lb');
+  // Rest-pause and cluster sets read "8+3+2"
+  const reps = set.segments && set.segments.length > 1 ? set.segments.join('+') : result.reps;
+  switch (metric) {
+    case 'weight':
+      return `${reps} × ${result.weight} ${unit}`;
+    case 'bodyweight':
+      return result.weight ? `${reps} @ BW + ${result.weight} ${unit}` : `${reps} @ BW`;
+    case 'assisted':
+      return result.weight ? `${reps} @ BW − ${result.weight} ${unit}` : `${reps} @ BW`;
+    case 'duration':
+      return formatClock(result.duration);
+    case 'distance':
+      return formatDistance(result.distance);
+    case 'calories':
+      return `${result.calories} cal`;
+  }
+}
+
+/** True once a completed set has something to count for its metric */
+export function hasSetResult(set: WorkoutSet, metric: SetMetric): boolean {
+  if (!set.completed) return false;
+  switch (metric) {
+    case 'weight':
+      return !!set.actualWeight && !!set.actualReps;
+    case 'bodyweight':
+    case 'assisted':
+      return !!set.actualReps;
+    case 'duration':
+      return !!set.actualDuration;
+    case 'distance':
+      return !!set.actualDistance;
+    case 'calories':
+      return !!set.actualCalories;
+  }
+}
+
+export interface SetScore {
+  weight: number;  // Load, added load or assistance, in the caller's unit
+  reps: number;
+  value: number;   // Seconds, meters or calories
+}
+
+/** A completed set's numbers for PR comparison, with weight converted to `unit` */
+export function scoreSet(set: WorkoutSet, metric: SetMetric, unit: WeightUnit): SetScore {
+  return {
+    weight: Math.round(convertWeight(set.actualWeight || 0, set.unit || 'lb', unit) * 10) / 10,
+    reps: set.actualReps || 0,
+    value:
+      metric === 'duration'
+        ? set.actualDuration || 0
+        : metric === 'distance'
+        ? set.actualDistance || 0
+        : metric === 'calories'
+        ? set.actualCalories || 0
+        : 0,
+  };
+}
+
+/**
+ * Whether `a` beats `b`: weight × reps for loaded sets, heavier added load
+ * (then more reps) for bodyweight sets, less assistance (then more reps) for
+ * assisted sets, and the larger time / distance / calories otherwise.
+ */
+export function isBetterScore(metric: SetMetric, a: SetScore, b: SetScore): boolean {
+  switch (metric) {
+    case 'weight':
+      return a.weight * a.reps > b.weight * b.reps;
+    case 'bodyweight':
+      return a.weight > b.weight || (a.weight === b.weight && a.reps > b.reps);
+    case 'assisted':
+      return a.weight < b.weight || (a.weight === b.weight && a.reps > b.reps);
+    default:
+      return a.value > b.value;
+  }
+}
+
+/** "1:30 hold", "2,000 m", "BW + 20 lbs × 8" — a PR in its metric's terms */
+export function formatSetScore(metric: SetMetric, score: SetScore, unit: WeightUnit): string {
+  const label = weightUnitLabel(unit);
+  switch (metric) {
+    case 'weight':
+      return `${score.weight} × ${score.reps}`;
+    case 'bodyweight':
+      return score.weight ? `BW + ${score.weight} ${label} × ${score.reps}` : `BW × ${score.reps}`;
+    case 'assisted':
+      return score.weight ? `BW − ${score.weight} ${label} × ${score.reps}` : `BW × ${score.reps}`;
+    case 'duration':
+      return formatClock(score.value);
+    case 'distance':
+      return formatDistance(score.value);
+    case 'calories':
+      return `${score.value} cal`;
+  }
+}
@@ -0,0 +1,91 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { SetType, WeightUnit, WorkoutSet } from '../types';
+import { roundToIncrement } from './trainingMax';
+
+export const SET_TYPE_LABELS: Record<SetType, string> = {
+  working: 'Straight set',
+  warmup: 'Warm-up',
+  drop: 'Drop set',
+  'rest-pause': 'Rest-pause',
+  cluster: 'Cluster',
+  amrap: 'AMRAP',
+};
+
+/** Tag shown next to sets that aren't straight sets */
+export const SET_TYPE_TAGS: Record<SetType, string> = {
+  working: '',
+  warmup: 'W',
+  drop: 'Drop',
+  'rest-pause': 'RP',
+  cluster: 'Cluster',
+  amrap: 'AMRAP',
+};
+
+/** How much lighter each drop is than the set before it */
+export const DROP_PERCENT = 20;
+
+/** Set types whose reps are logged as mini-sets ("8+3+2") */
+export function hasSegments(setType?: SetType): boolean {
+  return setType === 'rest-pause' || setType === 'cluster';
+}
+
+/** "8+3+2" → [8, 3, 2]; commas and spaces separate mini-sets too */
+export function parseSegments(text: string): number[] {
+  return text
+    .split(/[+,\s]+/)
+    .map((part) => parseInt(part))
+    .filter((reps) => reps > 0);
+}
+
+/**
+ * Sets that carry the exercise's prescription: not warm-ups, and not the
+ * drops that follow a drop set's top set.
+ */
+export function isTopSet(set: WorkoutSet): boolean {
+  return set.setType !== 'warmup' && !set.parentSetId;
+}
+
+/**
+ * Reps a set proves for rep maxes and estimated 1RMs. Rest-pause and cluster
+ * totals were done with breaks, so only their longest mini-set counts.
+ */
+export function getRecordReps(set: WorkoutSet): number {
+  if (hasSegments(set.setType) && set.segments?.length) return Math.max(...set.segments);
+  return set.actualReps || 0;
+}
+
+/** A drop after `previous`, DROP_PERCENT lighter, nested under the top set `parentSetId` */
+export function createDropSet(previous: WorkoutSet, parentSetId: string, increment: number): WorkoutSet {
+  const weight = previous.actualWeight ?? previous.targetWeight;
+  return {
+    ...previous,
+    id: uuidv4(),
+    setType: 'drop',
+    parentSetId,
+    drops: undefined,
+    targetWeight: Math.max(0, roundToIncrement(weight * (1 - DROP_PERCENT / 100), increment)),
+    actualReps: undefined,
+    actualWeight: undefined,
+    rpe: undefined,
+    completed: false,
+    isPR: false,
+    rest: undefined,
+    segments: undefined,
+    progressionNote: undefined,
+    adjustmentReason: undefined,
+    timeUnderTension: undefined,
+    notes: undefined,
+  };
+}
+
+/** Follows every prescribed drop set's top set with its drops */
+export function addPrescribedDrops(sets: WorkoutSet[], increments: Record<WeightUnit, number>): WorkoutSet[] {
+  return sets.flatMap((set) => {
+    if (set.setType !== 'drop' || set.parentSetId || !set.drops) return [set];
+    const chain = [set];
+    for (let n = 0; n < set.drops; n++) {
+      chain.push(createDropSet(chain[chain.length - 1], set.id, increments[set.unit || 'lb']));
+    }
+    return chain;
+  });
+}
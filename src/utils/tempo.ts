@@ -0,0 +1,74 @@
+export type TempoPhaseName = 'eccentric' | 'bottom' | 'concentric' | 'top';
+
+export interface TempoPhase {
+  name: TempoPhaseName;
+  label: string;       // Cue shown while the phase runs
+  seconds: number;
+  explosive: boolean;  // "X": move as fast as possible
+}
+
+const PHASES: { name: TempoPhaseName; label: string }[] = [
+  { name: 'eccentric', label: 'Lower' },
+  { name: 'bottom', label: 'Pause' },
+  { name: 'concentric', label: 'Lift' },
+  { name: 'top', label: 'Squeeze' },
+];
+
+/** Time counted for an explosive ("X") phase */
+export const EXPLOSIVE_SECONDS = 0.5;
+
+/**
+ * Parse a tempo prescription: eccentric, bottom pause, concentric, top, with
+ * "X" for explosive. Accepts "31X1", "3-1-X-1", "3/1/X/1" and "3.1.X.1".
+ * Returns null for anything else.
+ */
+export function parseTempo(tempo?: string): TempoPhase[] | null {
+  if (!tempo) return null;
+  const compact = tempo.trim().toUpperCase();
+  const parts = /^[\dX]{4}$/.test(compact) ? compact.split('') : compact.split(/[-/.\s]+/);
+  if (parts.length !== 4 || parts.some((p) => !/^(\d+|X)$/.test(p))) return null;
+
+  return parts.map((part, i) => ({
+    ...PHASES[i],
+    seconds: part === 'X' ? EXPLOSIVE_SECONDS : parseInt(part),
+    explosive: part === 'X',
+  }));
+}
+
+/** Seconds one rep takes at this tempo */
+export function getRepDuration(phases: TempoPhase[]): number {
+  return phases.reduce((total, phase) => total + phase.seconds, 0);
+}
+
+/** Time under tension in whole seconds for `reps` reps at a tempo, or undefined when it can't be parsed */
+export function getTimeUnderTension(tempo: string | undefined, reps: number): number | undefined {
+  const phases = parseTempo(tempo);
+  if (!phases || reps <= 0) return undefined;
+  return Math.round(getRepDuration(phases) * reps);
+}
+
+export interface TempoPosition {
+  rep: number;          // 1-based; reps + 1 once done
+  phaseIndex: number;   // Skips phases of 0 seconds
+  phase: TempoPhase | null;
+  phaseRemaining: number; // Seconds left in the phase
+  done: boolean;
+}
+
+/** Where a guided set is after `elapsed` seconds */
+export function getTempoPosition(phases: TempoPhase[], reps: number, elapsed: number): TempoPosition {
+  const repDuration = getRepDuration(phases);
+  if (repDuration <= 0 || elapsed >= repDuration * reps) {
+    return { rep: reps + 1, phaseIndex: -1, phase: null, phaseRemaining: 0, done: true };
+  }
+
+  const rep = Math.floor(elapsed / repDuration) + 1;
+  let offset = elapsed - (rep - 1) * repDuration;
+  for (let i = 0; i < phases.length; i++) {
+    if (offset < phases[i].seconds) {
+      return { rep, phaseIndex: i, phase: phases[i], phaseRemaining: phases[i].seconds - offset, done: false };
+    }
+    offset -= phases[i].seconds;
+  }
+  return { rep, phaseIndex: phases.length - 1, phase: phases[phases.length - 1], phaseRemaining: 0, done: false };
+}
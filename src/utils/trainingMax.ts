@@ -0,0 +1,51 @@
+import type { Exercise, TrainingMax, WeightUnit, WorkoutSet } from '../types';
+import { convertWeight, weightUnitLabel } from '../types';
+
+/** "85%", "85% TM", "70-75%" → 0.85, 0.85, 0.7 (lower bound of a range) */
+export function parsePercentIntensity(intensity?: string): number | null {
+  const match = intensity?.match(/(\d+(?:\.\d+)?)\s*(?:[-–]\s*\d+(?:\.\d+)?\s*)?%/);
+  if (!match) return null;
+  const percent = parseFloat(match[1]);
+  return percent > 0 && percent <= 150 ? percent / 100 : null;
+}
+
+export function roundToIncrement(weight: number, increment: number): number {
+  if (increment <= 0) return Math.round(weight * 10) / 10;
+  return Math.round(Math.round(weight / increment) * increment * 100) / 100;
+}
+
+/**
+ * Target weight for a percentage intensity, in the set's unit and rounded to
+ * the unit's load increment. Null when the intensity isn't a percentage or the
+ * exercise has no training max.
+ */
+export function resolvePercentTarget(
+  set: Pick<WorkoutSet, 'exerciseId' | 'intensity' | 'unit'>,
+  library: Exercise[],
+  increments: Record<WeightUnit, number>
+): { targetWeight: number; note: string } | null {
+  const percent = parsePercentIntensity(set.intensity);
+  const trainingMax = library.find((e) => e.id === set.exerciseId)?.trainingMax;
+  if (percent === null || !trainingMax) return null;
+
+  const unit = set.unit || 'lb';
+  const max = convertWeight(trainingMax.weight, trainingMax.unit, unit);
+  return {
+    targetWeight: roundToIncrement(max * percent, increments[unit]),
+    note: `${Math.round(percent * 100)}% of ${Math.round(max * 10) / 10} ${weightUnitLabel(unit)} TM`,
+  };
+}
+
+/** Training max taken as `percent`% of an estimated 1RM */
+export function trainingMaxFromE1rm(
+  e1rm: number,
+  unit: WeightUnit,
+  percent: number,
+  increment: number
+): TrainingMax {
+  return {
+    weight: roundToIncrement((e1rm * percent) / 100, increment),
+    unit,
+    updatedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,52 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { GymProfile, WorkoutSet } from '../types';
+import { convertWeight } from '../types';
+import { roundToIncrement } from './trainingMax';
+
+/** Warm-up steps as a fraction of the working weight */
+const RAMP = [
+  { percent: 0.4, reps: 5 },
+  { percent: 0.6, reps: 3 },
+  { percent: 0.8, reps: 2 },
+];
+
+/**
+ * Warm-up sets leading up to a working set: an empty-bar set for barbell
+ * lifts, then 40/60/80% of the working weight. Steps that round to the bar or
+ * to the working weight are dropped.
+ */
+export function generateWarmupSets(
+  working: WorkoutSet,
+  increment: number,
+  gym?: GymProfile
+): WorkoutSet[] {
+  const unit = working.unit || 'lb';
+  const target = working.targetWeight;
+  if (target <= 0) return [];
+
+  const bar = gym ? Math.round(convertWeight(gym.barWeight, gym.unit, unit) * 10) / 10 : 0;
+  const steps: { weight: number; reps: number }[] = bar > 0 && bar < target ? [{ weight: bar, reps: 10 }] : [];
+  for (const step of RAMP) {
+    const weight = roundToIncrement(target * step.percent, increment);
+    const last = steps[steps.length - 1]?.weight ?? 0;
+    if (weight > last && weight > bar && weight < target) steps.push({ weight, reps: step.reps });
+  }
+
+  return steps.map((step) => ({
+    ...working,
+    id: uuidv4(),
+    setType: 'warmup' as const,
+    targetReps: step.reps,
+    targetWeight: step.weight,
+    actualReps: undefined,
+    actualWeight: undefined,
+    rpe: undefined,
+    completed: false,
+    isPR: false,
+    rest: '60 sec',
+    progressionNote: undefined,
+    adjustmentReason: undefined,
+    timeUnderTension: undefined,
+    notes: undefined,
+  }));
+}
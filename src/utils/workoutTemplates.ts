@@ -0,0 +1,122 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { ConditioningBlock, WorkoutDay, WorkoutLog, WorkoutSet } from '../types';
+import { parsePercentIntensity } from './trainingMax';
+
+/**
+ * A logged set as a prescription: what was done becomes the new target, and
+ * everything about how this session went is cleared. Percentage intensities
+ * are dropped so the logged load isn't re-resolved from the training max.
+ */
+function toPrescription(set: WorkoutSet): WorkoutSet {
+  return {
+    ...set,
+    id: uuidv4(),
+    targetReps: set.actualReps ?? set.targetReps,
+    targetWeight: set.actualWeight ?? set.targetWeight,
+    targetDuration: set.actualDuration ?? set.targetDuration,
+    targetDistance: set.actualDistance ?? set.targetDistance,
+    targetCalories: set.actualCalories ?? set.targetCalories,
+    intensity: parsePercentIntensity(set.intensity) === null ? set.intensity : undefined,
+    actualReps: undefined,
+    actualWeight: undefined,
+    actualDuration: undefined,
+    actualDistance: undefined,
+    actualCalories: undefined,
+    segments: undefined,
+    rpe: undefined,
+    completed: false,
+    completedAt: undefined,
+    isPR: false,
+    notes: undefined,
+    timeUnderTension: undefined,
+    progressionNote: undefined,
+    adjustmentReason: undefined,
+    swappedFrom: undefined,
+  };
+}
+
+/** Drops logged under each drop set's top set */
+function countDrops(sets: WorkoutSet[], topSetId: string): number {
+  return sets.filter((s) => s.parentSetId === topSetId).length;
+}
+
+/** Sets of the same exercise and set type share one prescription */
+function prescriptionKey(set: WorkoutSet): string {
+  return `${set.exerciseId || set.exerciseName}|${set.setType || 'working'}`;
+}
+
+/** A log's conditioning blocks without their scores */
+function unscoredBlocks(log: WorkoutLog): ConditioningBlock[] | undefined {
+  return log.conditioning?.length
+    ? log.conditioning.map(({ score: _score, ...block }) => ({ ...block, id: uuidv4() }))
+    : undefined;
+}
+
+/**
+ * Sets for doing a logged workout again, in logged order. Skipped sets are
+ * left out, and drops collapse back into a count on their top set since
+ * startWorkout adds them again.
+ */
+export function getRepeatSets(log: WorkoutLog): WorkoutSet[] {
+  const done = log.sets.filter((s) => s.completed);
+  return done
+    .filter((s) => !s.parentSetId)
+    .map((s) =>
+      s.setType === 'drop' ? { ...toPrescription(s), drops: countDrops(done, s.id) || s.drops } : toPrescription(s)
+    );
+}
+
+/** Groups and conditioning to pass to startWorkout along with getRepeatSets */
+export function getRepeatDetails(log: WorkoutLog): Pick<WorkoutLog, 'groups' | 'conditioning'> {
+  return { groups: log.groups, conditioning: unscoredBlocks(log) };
+}
+
+/**
+ * Turn a logged workout into a program day, the inverse of expandDaySets:
+ * consecutive straight sets of an exercise become one prescription with
+ * `setNumber` sets, and grouped exercises keep one entry per member with the
+ * rounds that were done.
+ */
+export function logToWorkoutDay(log: WorkoutLog, name: string): WorkoutDay {
+  const sets = getRepeatSets(log);
+  const exercises: WorkoutSet[] = [];
+  const rounds = new Map<string, number>();
+
+  for (const set of sets) {
+    const key = prescriptionKey(set);
+
+    if (set.groupId) {
+      const member = exercises.find((e) => e.groupId === set.groupId && prescriptionKey(e) === key);
+      if (member) {
+        member.setNumber++;
+      } else {
+        exercises.push({ ...set, setNumber: 1 });
+      }
+      continue;
+    }
+
+    const last = exercises[exercises.length - 1];
+    if (last && !last.groupId && prescriptionKey(last) === key) {
+      last.setNumber++;
+    } else {
+      exercises.push({ ...set, setNumber: 1 });
+    }
+  }
+
+  for (const member of exercises) {
+    if (member.groupId) rounds.set(member.groupId, Math.max(rounds.get(member.groupId) || 0, member.setNumber));
+  }
+  const groups = log.groups
+    ?.filter((g) => rounds.has(g.id))
+    .map((g) => ({ ...g, rounds: rounds.get(g.id)! }));
+
+  return {
+    id: uuidv4(),
+    name,
+    dayOfWeek: new Date(log.date).getDay(),
+    exercises,
+    groups: groups?.length ? groups : undefined,
+    conditioning: unscoredBlocks(log),
+    notes: log.notes,
+  };
+}
@@ -0,0 +1,77 @@
+import type { WorkoutInterval, WorkoutLog } from '../types';
+
+/** The in-progress stretch of a workout, if it isn't paused */
+export function getOpenInterval(workout: Pick<WorkoutLog, 'intervals'>): WorkoutInterval | undefined {
+  const last = workout.intervals?.[workout.intervals.length - 1];
+  return last && !last.end ? last : undefined;
+}
+
+export function isWorkoutPaused(workout: Pick<WorkoutLog, 'intervals'>): boolean {
+  return !!workout.intervals?.length && !getOpenInterval(workout);
+}
+
+/**
+ * The workout's intervals with the running one ended at `at`. Workouts started
+ * before pause tracking get one stretch from their start.
+ */
+export function closeIntervals(workout: Pick<WorkoutLog, 'date' | 'intervals'>, at = new Date()): WorkoutInterval[] {
+  const intervals = workout.intervals?.length ? workout.intervals : [{ start: workout.date }];
+  return intervals.map((i) => (i.end ? i : { ...i, end: at.toISOString() }));
+}
+
+/**
+ * Intervals of a workout in epoch ms, the running one ending at `now`.
+ * Workouts started before pause tracking get one stretch from their start.
+ */
+function intervalsOf(workout: Pick<WorkoutLog, 'date' | 'intervals'>, now: number) {
+  const intervals = workout.intervals?.length ? workout.intervals : [{ start: workout.date }];
+  return intervals.map((i) => ({
+    start: new Date(i.start).getTime(),
+    end: i.end ? new Date(i.end).getTime() : now,
+  }));
+}
+
+/** Seconds of the workout spent active (not paused) between `from` and `to` (epoch ms) */
+function activeBetween(workout: Pick<WorkoutLog, 'date' | 'intervals'>, from: number, to: number, now: number) {
+  const ms = intervalsOf(workout, now).reduce(
+    (sum, i) => sum + Math.max(0, Math.min(i.end, to) - Math.max(i.start, from)),
+    0
+  );
+  return Math.floor(ms / 1000);
+}
+
+/** Seconds the workout has been active, leaving out paused stretches */
+export function getActiveSeconds(workout: Pick<WorkoutLog, 'date' | 'intervals'>, now = Date.now()): number {
+  return activeBetween(workout, 0, now, now);
+}
+
+export interface ExerciseTime {
+  exerciseId: string;
+  exerciseName: string;
+  seconds: number;
+}
+
+/**
+ * Active time spent on each exercise, in the order they were first done: each
+ * completed set gets the active time since the set completed before it (or
+ * since the workout started).
+ */
+export function getExerciseTimes(workout: Pick<WorkoutLog, 'date' | 'intervals' | 'sets'>, now = Date.now()): ExerciseTime[] {
+  const done = workout.sets
+    .filter((s) => s.completed && s.completedAt)
+    .sort((a, b) => new Date(a.completedAt!).getTime() - new Date(b.completedAt!).getTime());
+
+  const times: ExerciseTime[] = [];
+  let since = new Date(workout.date).getTime();
+  for (const set of done) {
+    const at = new Date(set.completedAt!).getTime();
+    const seconds = activeBetween(workout, since, at, now);
+    since = at;
+
+    const key = set.exerciseId || set.exerciseName;
+    const entry = times.find((t) => (t.exerciseId || t.exerciseName) === key);
+    if (entry) entry.seconds += seconds;
+    else times.push({ exerciseId: set.exerciseId, exerciseName: set.exerciseName, seconds });
+  }
+  return times;
+}